@@ -345,7 +345,7 @@ export const PlayerController = () => {
             <group ref={playerRef}>
                 <Caps ref={capsRef} />
                 <VFXEmitter position={[0, 0.1, 0]} ref={dodgeEmitterRef} name="dodge" emitCount={1} autoStart={false} delay={0.0} />
-                <VFXEmitter position={[0, 0.1, 0]} localDirection={true} direction={[[0, 0], [0, 1], [-1, -1]]} ref={dodgeSparksEmitterRef} name="dodge-sparks" emitCount={4} autoStart={false} />
+                <VFXEmitter position={[0, 0.1, 0]} localDirection={true} direction={[[0, 0], [0, 1], [-1, -1]]} ref={dodgeSparksEmitterRef} name="dodge-sparks" emitCount={4} inheritVelocity={0.5} autoStart={false} />
             </group>
         </>
     )
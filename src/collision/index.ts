@@ -9,6 +9,8 @@ export {
 } from './collision-store'
 export type { Collider, LayerType, HitResult, HitPosition } from './collision-store'
 export { CollisionBody, Obstacle, Enemy } from './CollisionBody'
+export { particleCollidersFromStore, toParticleCollider } from './particle-colliders'
+export type { ParticleCollidersOptions } from './particle-colliders'
 
 // Legacy exports (spatial grid approach - kept for reference)
 export { CollisionLayer } from './types'
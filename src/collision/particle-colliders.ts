@@ -0,0 +1,47 @@
+import type { ColliderConfig } from '@/components/vfx/r3f-vfx/src'
+import { useCollisionStore, Layer } from './collision-store'
+import type { Collider, LayerType } from './collision-store'
+
+// ============================================================================
+// Particle Colliders (VFXParticles collision.colliders)
+// ============================================================================
+
+export type ParticleCollidersOptions = {
+  layers?: LayerType[]    // Which collider layers particles hit (default: obstacles)
+  height?: number         // Height of the collider cylinders (colliders are 2D circles)
+  bottom?: number         // Y of the cylinder bottom
+  bounce?: number
+  friction?: number
+  die?: boolean
+}
+
+// Convert a circle collider to a vertical cylinder particle collider
+export const toParticleCollider = (
+  collider: Collider,
+  { height = 2, bottom = 0, bounce, friction, die }: ParticleCollidersOptions = {}
+): ColliderConfig => ({
+  type: 'cylinder',
+  position: [collider.x, bottom + height / 2, collider.z],
+  radius: collider.radius,
+  height,
+  bounce,
+  friction,
+  die,
+})
+
+/**
+ * Returns a colliders function for VFXParticles that reads the collision store
+ * every frame, so moving colliders (enemies) stay in sync.
+ *
+ * <VFXParticles collision={{ colliders: particleCollidersFromStore(), bounce: 0.4 }} />
+ */
+export const particleCollidersFromStore = (options: ParticleCollidersOptions = {}) => {
+  const layers = options.layers ?? [Layer.OBSTACLE]
+
+  return (): ColliderConfig[] =>
+    useCollisionStore
+      .getState()
+      .getColliders()
+      .filter((collider) => collider.solid && layers.includes(collider.layer))
+      .map((collider) => toParticleCollider(collider, options))
+}
@@ -33,6 +33,7 @@ export const EnemyDeath = () => {
         name="death"
         autoStart={false}
         maxParticles={1000}
+        compaction
         position={[0, 0, 0]}
         emitCount={100}
         delay={0.99}
@@ -69,6 +70,7 @@ export const EnemyDeath = () => {
           plane: {
             y: -1,
           },
+          depth: true,
           bounce: 0.47,
           friction: 0.41,
           die: false,
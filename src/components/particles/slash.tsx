@@ -183,6 +183,7 @@ export const Slash = () => {
         curveTexturePath="/vfx/sparks.bin"
         name="sparks"
         maxParticles={1000}
+        compaction
         position={[0, 0, 0]}
         autoStart={false}
         intensity={40}
@@ -4,11 +4,18 @@ import * as THREE from "three/webgpu";
 import { pass, mrt, output, velocity, uniform, oneMinus, vec3, vec2, screenUV, length, smoothstep, float, clamp, step } from "three/tsl";
 import { bloom } from "three/addons/tsl/display/BloomNode.js";
 import { smaa } from "three/examples/jsm/tsl/display/SMAANode.js";
+import {
+  createSceneDepth,
+  updateSceneDepth,
+  useVFXStore,
+  type SceneDepth,
+} from "@/components/vfx/r3f-vfx/src";
 
 export const PostProcessing = () => {
   const { renderer, scene, camera, size } = useThree();
 
   const postProcessingRef = useRef<THREE.PostProcessing>(null);
+  const sceneDepthRef = useRef<SceneDepth>(null);
 
   // the postprocessing process is easy, take your scene Color
   // add whatever pass you want following the docs
@@ -32,6 +39,11 @@ export const PostProcessing = () => {
     const center = vec2(0.5)
     const vignette = smoothstep(0., 0.5, oneMinus(length(screenUV.sub(center))).pow(2.))
 
+    // Share the scene depth with particles (depth-buffer collision)
+    const sceneDepth = createSceneDepth(scenePass.getTexture("depth"));
+    sceneDepthRef.current = sceneDepth;
+    useVFXStore.getState().setSceneDepth(sceneDepth);
+
     const scenePassColor = scenePass.getTextureNode("output").pow(1.2); // Your scene's color
     const scenePassVelocity = scenePass.getTextureNode("velocity"); // needed for GTAO, motionBlur or TRAA
 
@@ -66,6 +78,8 @@ export const PostProcessing = () => {
     }
     return () => {
       postProcessingRef.current = null;
+      sceneDepthRef.current = null;
+      useVFXStore.getState().setSceneDepth(null);
     };
   }, [renderer, scene, camera, size]);
 
@@ -73,6 +87,8 @@ export const PostProcessing = () => {
     if (postProcessingRef.current) {
       renderer.clear();
       postProcessingRef.current.render();
+      // Particles simulate before the next render, against this frame's depth
+      if (sceneDepthRef.current) updateSceneDepth(sceneDepthRef.current, camera);
     }
   }, 1);
   return null;
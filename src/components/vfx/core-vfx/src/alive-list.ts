@@ -0,0 +1,41 @@
+import * as THREE from 'three/webgpu'
+import { instancedArray, storage } from 'three/tsl'
+import type { AliveListStorage } from './shaders/types'
+
+// uint per indirect draw record: [index / vertex count, instanceCount, first, baseVertex, firstInstance]
+const DRAW_RECORD_SIZE = 5
+
+// Create the alive list buffers, with one indirect draw record per object drawn from it
+export const createAliveListStorage = (maxParticles: number, drawCount = 1): AliveListStorage => ({
+  indices: instancedArray(maxParticles, 'uint'),
+  count: instancedArray(1, 'uint').toAtomic(),
+  drawArgs: storage(
+    new THREE.IndirectStorageBufferAttribute(new Uint32Array(drawCount * DRAW_RECORD_SIZE), 1),
+    'uint',
+    drawCount * DRAW_RECORD_SIZE
+  ),
+  dispatchArgs: storage(new THREE.IndirectStorageBufferAttribute(new Uint32Array(3), 1), 'uint', 3),
+  maxParticles,
+  drawCount,
+})
+
+// Draw `geometry` once per live particle, through draw record `slot`
+// The geometry must not be shared with objects drawn without the alive list
+export const setAliveListDraw = (
+  aliveList: AliveListStorage,
+  geometry: THREE.BufferGeometry,
+  slot = 0
+) => {
+  const attribute = aliveList.drawArgs.value as THREE.IndirectStorageBufferAttribute
+  const array = attribute.array as Uint32Array
+  // instanceCount (second uint) is written on the GPU by the compaction pass
+  array[slot * DRAW_RECORD_SIZE] = geometry.index
+    ? geometry.index.count
+    : geometry.getAttribute('position').count
+  attribute.needsUpdate = true
+  geometry.setIndirect(attribute, slot * DRAW_RECORD_SIZE * array.BYTES_PER_ELEMENT)
+}
+
+// Indirect dispatch size of the update compute (workgroups covering the live particles)
+export const getAliveListDispatch = (aliveList: AliveListStorage) =>
+  aliveList.dispatchArgs.value as THREE.IndirectStorageBufferAttribute
@@ -0,0 +1,94 @@
+import { instancedArray } from 'three/tsl'
+import { AttractorFalloff, AttractorType, MAX_ATTRACTORS } from './constants'
+import type { AttractorStorage } from './shaders/types'
+import type { AttractorConfig } from './types'
+
+const ATTRACTOR_TYPES: Record<NonNullable<AttractorConfig['type']>, number> = {
+  point: AttractorType.POINT,
+  vortex: AttractorType.VORTEX,
+  line: AttractorType.LINE,
+  repulse: AttractorType.REPULSE,
+}
+
+const ATTRACTOR_FALLOFFS: Record<NonNullable<AttractorConfig['falloff']>, number> = {
+  linear: AttractorFalloff.LINEAR,
+  smooth: AttractorFalloff.SMOOTH,
+  'inverse-square': AttractorFalloff.INVERSE_SQUARE,
+  constant: AttractorFalloff.CONSTANT,
+}
+
+// Buffer capacity for a number of attractors: MAX_ATTRACTORS, doubled until they all fit
+export const getAttractorCapacity = (count: number) => {
+  let capacity = MAX_ATTRACTORS
+  while (capacity < count) capacity *= 2
+  return capacity
+}
+
+// Create the GPU buffer holding attractors
+// A full buffer is replaced by a larger one (see getAttractorCapacity), not resized in place
+export const createAttractorStorage = (maxAttractors = MAX_ATTRACTORS): AttractorStorage => ({
+  data: instancedArray(maxAttractors * 3, 'vec4'),
+  maxAttractors,
+})
+
+// Vortex axis (normalized) or line end stored in the second vec4 of an attractor
+const getAttractorVector = (attractor: AttractorConfig): [number, number, number] => {
+  if (attractor.type === 'line') {
+    const [px, py, pz] = attractor.position ?? [0, 0, 0]
+    return attractor.end ?? [px, py + 1, pz]
+  }
+
+  const [ax, ay, az] = attractor.axis ?? [0, 1, 0]
+  const length = Math.sqrt(ax * ax + ay * ay + az * az) || 1
+  return [ax / length, ay / length, az / length]
+}
+
+// Pack attractors into an array (3 vec4 per attractor) and return how many were written
+// Attractors past maxAttractors are ignored: grow the buffer first to keep them all
+export const packAttractors = (
+  array: Float32Array,
+  attractors: AttractorConfig[],
+  maxAttractors = array.length / 12
+): number => {
+  const count = Math.min(attractors.length, maxAttractors)
+
+  for (let i = 0; i < count; i++) {
+    const attractor = attractors[i]
+    const [px, py, pz] = attractor.position ?? [0, 0, 0]
+    const radius = attractor.radius ?? 0 // 0 = infinite
+    const falloff = attractor.falloff
+      ? ATTRACTOR_FALLOFFS[attractor.falloff]
+      : radius > 0
+        ? AttractorFalloff.LINEAR
+        : AttractorFalloff.INVERSE_SQUARE
+
+    array.set(
+      [
+        px,
+        py,
+        pz,
+        ATTRACTOR_TYPES[attractor.type ?? 'point'] ?? AttractorType.POINT,
+        ...getAttractorVector(attractor),
+        attractor.strength ?? 1,
+        radius,
+        falloff,
+        0,
+        0,
+      ],
+      i * 12
+    )
+  }
+
+  return count
+}
+
+// Pack attractors into the storage buffer and return how many were written
+export const writeAttractors = (
+  storage: AttractorStorage,
+  attractors: AttractorConfig[]
+): number => {
+  const array = storage.data.value.array as Float32Array
+  const count = packAttractors(array, attractors, storage.maxAttractors)
+  storage.data.value.needsUpdate = true
+  return count
+}
@@ -0,0 +1,105 @@
+import { instancedArray } from 'three/tsl'
+import { ColliderType, MAX_COLLIDERS } from './constants'
+import type { ColliderStorage } from './shaders/types'
+import type { ColliderConfig, CollisionConfig } from './types'
+
+const COLLIDER_TYPES: Record<ColliderConfig['type'], number> = {
+  plane: ColliderType.PLANE,
+  sphere: ColliderType.SPHERE,
+  box: ColliderType.BOX,
+  cylinder: ColliderType.CYLINDER,
+}
+
+// Buffer capacity for a number of colliders: MAX_COLLIDERS, doubled until they all fit
+export const getColliderCapacity = (count: number) => {
+  let capacity = MAX_COLLIDERS
+  while (capacity < count) capacity *= 2
+  return capacity
+}
+
+// Create the GPU buffer holding collider primitives
+// A full buffer is replaced by a larger one (see getColliderCapacity), not resized in place
+export const createColliderStorage = (maxColliders = MAX_COLLIDERS): ColliderStorage => ({
+  data: instancedArray(maxColliders * 3, 'vec4'),
+  maxColliders,
+})
+
+// Current colliders of a collision config (calls the function form)
+export const resolveColliders = (collision: CollisionConfig | undefined): ColliderConfig[] => {
+  const colliders = collision?.colliders
+  if (!colliders) return []
+  return typeof colliders === 'function' ? colliders() : colliders
+}
+
+// The horizontal collision plane is used when set explicitly, or when there are no colliders
+export const hasCollisionPlane = (collision: CollisionConfig | undefined): boolean =>
+  !!collision && (!!collision.plane || !collision.colliders)
+
+// Shape parameters stored in the second vec4 of a collider
+const getColliderParams = (collider: ColliderConfig): [number, number, number] => {
+  switch (collider.type) {
+    case 'plane': {
+      const [nx, ny, nz] = collider.normal ?? [0, 1, 0]
+      const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1
+      return [nx / length, ny / length, nz / length]
+    }
+    case 'sphere':
+      return [collider.radius ?? 0.5, 0, 0]
+    case 'box': {
+      const [sx, sy, sz] = collider.size ?? [1, 1, 1]
+      return [sx / 2, sy / 2, sz / 2]
+    }
+    case 'cylinder':
+    default:
+      return [collider.radius ?? 0.5, (collider.height ?? 1) / 2, 0]
+  }
+}
+
+// Pack colliders into an array (3 vec4 per collider) and return how many were written
+// Colliders past maxColliders are ignored (grow the buffer first to keep them); bounce/friction/die fall back to the collision config
+export const packColliders = (
+  array: Float32Array,
+  colliders: ColliderConfig[],
+  collision: CollisionConfig | undefined,
+  maxColliders = array.length / 12
+): number => {
+  const count = Math.min(colliders.length, maxColliders)
+
+  for (let i = 0; i < count; i++) {
+    const collider = colliders[i]
+    const [px, py, pz] = collider.position ?? [0, 0, 0]
+    const bounce = collider.bounce ?? collision?.bounce ?? 0.3
+    const friction = collider.friction ?? collision?.friction ?? 0.8
+    const die = collider.die ?? collision?.die ?? false
+
+    array.set(
+      [
+        px,
+        py,
+        pz,
+        COLLIDER_TYPES[collider.type] ?? ColliderType.SPHERE,
+        ...getColliderParams(collider),
+        0,
+        bounce,
+        friction,
+        die ? 1 : 0,
+        0,
+      ],
+      i * 12
+    )
+  }
+
+  return count
+}
+
+// Pack colliders into the storage buffer and return how many were written
+export const writeColliders = (
+  storage: ColliderStorage,
+  colliders: ColliderConfig[],
+  collision: CollisionConfig | undefined
+): number => {
+  const array = storage.data.value.array as Float32Array
+  const count = packColliders(array, colliders, collision, storage.maxColliders)
+  storage.data.value.needsUpdate = true
+  return count
+}
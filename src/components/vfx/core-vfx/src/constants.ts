@@ -15,6 +15,14 @@ export const Blending = Object.freeze({
   SUBTRACTIVE: THREE.SubtractiveBlending,
 });
 
+// Draw order of the particles (GPU sort, normal blending only)
+export const SortMode = Object.freeze({
+  NONE: 'none', // Slot order
+  BACK_TO_FRONT: 'backToFront', // Farthest from the camera first
+  YOUNGEST_FIRST: 'youngestFirst', // Newest particles drawn first (older ones on top)
+  OLDEST_FIRST: 'oldestFirst', // Oldest particles drawn first (newer ones on top)
+});
+
 // Emitter shape types
 export const EmitterShape = Object.freeze({
   POINT: 0, // Single point emission
@@ -23,12 +31,39 @@ export const EmitterShape = Object.freeze({
   CONE: 3, // Cone shape (great for fire, fountains)
   DISK: 4, // Flat disk/circle
   EDGE: 5, // Line between two points
+  MESH: 6, // Area-weighted random point on a mesh surface
 });
 
 // Attractor types
 export const AttractorType = Object.freeze({
   POINT: 0, // Pull toward a point (or push if negative strength)
   VORTEX: 1, // Swirl around an axis
+  LINE: 2, // Pull toward the closest point of a segment (position -> end)
+  REPULSE: 3, // Push radially away from a point
+});
+
+// Attractor strength falloff with distance
+export const AttractorFalloff = Object.freeze({
+  LINEAR: 0, // 1 - distance / radius
+  SMOOTH: 1, // Smoothstep of the linear falloff
+  INVERSE_SQUARE: 2, // 1 / (distance^2 + 1), cut off at the radius when set
+  CONSTANT: 3, // Full strength (inside the radius when set)
+});
+
+// Collider primitive types (collision.colliders)
+export const ColliderType = Object.freeze({
+  PLANE: 0, // Infinite oriented plane, particles stay on the normal side
+  SPHERE: 1, // Particles stay outside the sphere
+  BOX: 2, // Axis-aligned box, particles stay outside
+  CYLINDER: 3, // Vertical cylinder (pillars, circle colliders), particles stay outside
+});
+
+// Particle event types appended by the compute shaders (sub-emitters, CPU readback)
+export const ParticleEventType = Object.freeze({
+  BIRTH: 0, // Particle spawned
+  DEATH: 1, // Particle lifetime ran out (or killed by collision)
+  COLLISION: 2, // Particle hit the collision plane, a collider or the scene depth
+  ATTRACTOR_ENTER: 3, // Particle entered an attractor's radius
 });
 
 // Easing types for curves (friction, etc.)
@@ -46,8 +81,47 @@ export const Lighting = Object.freeze({
   PHYSICAL: 'physical', // Advanced PBR with clearcoat, transmission, etc. (MeshPhysicalNodeMaterial)
 });
 
-// Max number of attractors supported
-export const MAX_ATTRACTORS = 4;
+// Flipbook frame selection
+export const FlipbookMode = Object.freeze({
+  LIFETIME: 'lifetime', // Whole range over the particle lifetime
+  FPS: 'fps', // Fixed frames per second
+  SPEED: 'speed', // Frame picked by the particle speed within speedRange
+});
+
+// Lighting of billboard particles (geometry particles use Lighting)
+export const BillboardLighting = Object.freeze({
+  UNLIT: 'unlit', // Flat colors
+  SPHERE: 'sphere', // Standard shading with a generated spherical normal
+  NORMAL_MAP: 'normalMap', // Standard shading with the normalMap texture
+  SIX_WAY: 'sixWay', // Light read from a six-way lightmap (smoke)
+});
+
+// Initial capacity of the attractor buffer (attractorCount uniform of them are active)
+// Adding more grows the buffer and recreates the update compute
+export const MAX_ATTRACTORS = 64;
 
 // Number of samples in baked curve textures
 export const CURVE_RESOLUTION = 256;
+
+// Initial capacity of the collider buffer (colliderCount uniform of them are active)
+// Adding more grows the buffer and recreates the update compute
+export const MAX_COLLIDERS = 64;
+
+// Max number of positions stored per particle for trails
+export const MAX_TRAIL_LENGTH = 64;
+
+// Max number of particle events buffered between two readbacks (extra events are dropped)
+export const MAX_PARTICLE_EVENTS = 256;
+
+// Default max onParticleEvent calls per frame (extra events of the readback are dropped)
+export const MAX_PARTICLE_EVENTS_PER_FRAME = 64;
+
+// Number of entries in the area-weighted triangle lookup for mesh emitters
+export const MESH_EMITTER_LOOKUP_SIZE = 4096;
+
+// Global quality levels: emission multiplier, LOD / cull distance multiplier
+export const QUALITY_SETTINGS = Object.freeze({
+  low: { emissionScale: 0.25, distanceScale: 0.5 },
+  medium: { emissionScale: 0.5, distanceScale: 0.75 },
+  high: { emissionScale: 1, distanceScale: 1 },
+});
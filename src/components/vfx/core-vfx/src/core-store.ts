@@ -1,4 +1,18 @@
 import { createStore } from 'zustand/vanilla';
+import {
+  createParamTween,
+  isRebuildParam,
+  isRuntimeParam,
+  lerpParam,
+  stepParamTween,
+  type ParamTween,
+  type ParticleParamKey,
+  type ParticleParams,
+} from './params';
+import { validateParticleProp } from './preset';
+import type { SceneDepth } from './scene-depth';
+import type { SequencePlayer } from './sequence';
+import type { AttractorConfig, QualityLevel, SequenceTrigger } from './types';
 
 export type ParticleSystemRef = {
   spawn: (
@@ -6,21 +20,40 @@ export type ParticleSystemRef = {
     y: number,
     z: number,
     count: number,
-    overrides?: Record<string, unknown> | null
-  ) => void;
+    overrides?: Record<string, unknown> | null,
+    seed?: number | null
+  ) => Promise<void>;
   start: () => void;
   stop: () => void;
   clear: () => void;
   isEmitting: boolean;
+  // Some particle may still be alive (estimated from the max lifetime of each spawn)
+  hasAliveParticles: boolean;
+  // Seconds simulated by the last frame: 0 while paused by LOD, the skipped time on catch-up
+  // (emitters advance their own schedules by it to stay in step with the system)
+  simulatedDelta?: number;
   uniforms: Record<string, unknown>;
+  // Runtime attractors (only when the system was created with an attractors array)
+  setAttractors?: (attractors: AttractorConfig[]) => boolean;
+  addAttractor?: (attractor: AttractorConfig) => number;
+  updateAttractor?: (index: number, changes: Partial<AttractorConfig>) => boolean;
+  removeAttractor?: (index: number) => boolean;
+  getAttractors?: () => AttractorConfig[];
+  // Runtime params (coreStore.setParam / getParam / tweenParam)
+  setParams?: (params: ParticleParams) => void;
+  getParams?: () => ParticleParams;
 };
 
+export type ParamEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
 export type EmitOptions = {
   x?: number;
   y?: number;
   z?: number;
   count?: number;
   overrides?: Record<string, unknown> | null;
+  // Same seed = same sizes, directions, lifetimes and colors for the burst
+  seed?: number | null;
 };
 
 export type CoreState = {
@@ -29,11 +62,37 @@ export type CoreState = {
   unregisterParticles: (name: string) => void;
   getParticles: (name: string) => ParticleSystemRef | null;
   emit: (name: string, options?: EmitOptions) => boolean;
+  emitAsync: (name: string, options?: EmitOptions) => Promise<boolean>;
   start: (name: string) => boolean;
   stop: (name: string) => boolean;
   clear: (name: string) => boolean;
   isEmitting: (name: string) => boolean;
   getUniforms: (name: string) => Record<string, unknown> | null;
+  setParam: <K extends ParticleParamKey>(
+    name: string,
+    key: K,
+    value: ParticleParams[K]
+  ) => boolean;
+  getParam: <K extends ParticleParamKey>(
+    name: string,
+    key: K
+  ) => ParticleParams[K] | undefined;
+  tweenParam: <K extends ParticleParamKey>(
+    name: string,
+    key: K,
+    to: ParticleParams[K],
+    duration: number,
+    easing?: ParamEasing
+  ) => Promise<void> | false;
+  updateParamTweens: (name: string, delta: number) => void;
+  sceneDepth: SceneDepth | null;
+  setSceneDepth: (depth: SceneDepth | null) => void;
+  sequences: Record<string, SequencePlayer>;
+  registerSequence: (name: string, player: SequencePlayer) => void;
+  unregisterSequence: (name: string) => void;
+  playSequence: (name: string, trigger?: SequenceTrigger) => boolean;
+  quality: QualityLevel;
+  setQuality: (quality: QualityLevel) => void;
 };
 
 /**
@@ -57,8 +116,40 @@ export type CoreState = {
  * // Or emit programmatically
  * const emit = useVFXStore(s => s.emit);
  * emit("sparks", { x: 0, y: 1, z: 0, count: 20 });
+ *
+ * // Wait for a burst to fade out before releasing what it belongs to
+ * const emitAsync = useVFXStore(s => s.emitAsync);
+ * await emitAsync("death", { x, y, z, count: 50 });
+ *
+ * // Drive particle params from game code (validated, no uniform internals)
+ * useVFXStore.getState().tweenParam("swordGlow", "intensity", 4, 0.3, "easeOut");
  */
 
+// Running param tweens per system, advanced by the system each frame (not store state)
+const paramTweens = new Map<string, ParamTween[]>();
+
+// End the tween of a param (its promise resolves where the param was left)
+const endParamTween = (name: string, key: ParticleParamKey) => {
+  const tweens = paramTweens.get(name);
+  const index = tweens?.findIndex((tween) => tween.key === key) ?? -1;
+  if (!tweens || index === -1) return;
+  tweens[index].resolve();
+  tweens.splice(index, 1);
+};
+
+// Warn and return false when a param key or value is invalid
+const checkParam = (name: string, key: string, value: unknown) => {
+  const issues = isRuntimeParam(key)
+    ? validateParticleProp(key, value)
+    : [`${key}: not a runtime parameter`];
+  if (issues.length) {
+    console.warn(
+      `VFXStore: Invalid parameter for "${name}":\n  ${issues.join('\n  ')}`
+    );
+  }
+  return issues.length === 0;
+};
+
 export const coreStore = createStore<CoreState>()((set, get) => ({
   // Registered particle systems: { name: ref }
   particles: {},
@@ -84,6 +175,13 @@ export const coreStore = createStore<CoreState>()((set, get) => ({
       const { [name]: _, ...rest } = state.particles;
       return { particles: rest };
     });
+    // End its tweens unless the name is registered again right away
+    // (a system re-registering after a rebuild keeps tweening)
+    queueMicrotask(() => {
+      if (get().particles[name]) return;
+      paramTweens.get(name)?.forEach((tween) => tween.resolve());
+      paramTweens.delete(name);
+    });
   },
 
   /**
@@ -106,7 +204,10 @@ export const coreStore = createStore<CoreState>()((set, get) => ({
    * @param options.overrides - Spawn parameter overrides
    * @returns True if emission was successful
    */
-  emit: (name, { x = 0, y = 0, z = 0, count = 20, overrides = null } = {}) => {
+  emit: (
+    name,
+    { x = 0, y = 0, z = 0, count = 20, overrides = null, seed = null } = {}
+  ) => {
     const particles = get().particles[name];
     if (!particles?.spawn) {
       console.warn(
@@ -114,10 +215,31 @@ export const coreStore = createStore<CoreState>()((set, get) => ({
       );
       return false;
     }
-    particles.spawn(x, y, z, count, overrides);
+    particles.spawn(x, y, z, count, overrides, seed);
     return true;
   },
 
+  /**
+   * Emit particles and wait for them to fade out
+   * @param name - Name of the particle system
+   * @param options - Emission options (same as emit)
+   * @returns A promise resolved with true when the burst's last particle expires,
+   * or with false right away if no system is registered
+   */
+  emitAsync: (
+    name,
+    { x = 0, y = 0, z = 0, count = 20, overrides = null, seed = null } = {}
+  ) => {
+    const particles = get().particles[name];
+    if (!particles?.spawn) {
+      console.warn(
+        `VFXStore: No particle system registered with name "${name}"`
+      );
+      return Promise.resolve(false);
+    }
+    return particles.spawn(x, y, z, count, overrides, seed).then(() => true);
+  },
+
   /**
    * Start auto-emission on a registered particle system
    * @param name - Name of the particle system
@@ -188,4 +310,167 @@ export const coreStore = createStore<CoreState>()((set, get) => ({
     const particles = get().particles[name];
     return particles?.uniforms || null;
   },
+
+  /**
+   * Set a runtime parameter of a registered system (ends a tween of the same parameter)
+   * The value is checked like a preset prop; a later prop change replaces it
+   * @param name - Name of the particle system
+   * @param key - Particle prop name (see RUNTIME_PARAMS)
+   * @param value - New value, same format as the prop
+   * @returns True if the value was applied
+   */
+  setParam: (name, key, value) => {
+    const particles = get().particles[name];
+    if (!particles?.setParams) {
+      console.warn(
+        `VFXStore: No particle system registered with name "${name}"`
+      );
+      return false;
+    }
+    if (!checkParam(name, key, value)) return false;
+    endParamTween(name, key);
+    particles.setParams({ [key]: value });
+    return true;
+  },
+
+  /**
+   * Get the current value of a runtime parameter (set or tweened value, else the prop)
+   * @param name - Name of the particle system
+   * @param key - Particle prop name
+   * @returns The value, or undefined if the system isn't registered
+   */
+  getParam: (name, key) => {
+    const particles = get().particles[name];
+    return particles?.getParams?.()[key];
+  },
+
+  /**
+   * Tween a numeric runtime parameter (number, [min, max], [x, y, z], ...) to a value
+   * Params that rebuild the system (REBUILD_PARAMS: maxParticles, blending, ...) are refused
+   * @param name - Name of the particle system
+   * @param key - Particle prop name
+   * @param to - Target value (a number blends with an array as [n, n, ...])
+   * @param duration - Seconds
+   * @param easing - 'linear' | 'easeIn' | 'easeOut' | 'easeInOut'
+   * @returns A promise resolved when the tween ends or is replaced, false if it can't run
+   */
+  tweenParam: (name, key, to, duration, easing = 'linear') => {
+    const particles = get().particles[name];
+    if (!particles?.setParams || !particles.getParams) {
+      console.warn(
+        `VFXStore: No particle system registered with name "${name}"`
+      );
+      return false;
+    }
+    if (!checkParam(name, key, to)) return false;
+    if (isRebuildParam(key)) {
+      console.warn(
+        `VFXStore: Can't tween "${key}" of "${name}", it rebuilds the system (use setParam)`
+      );
+      return false;
+    }
+    const from = particles.getParams()[key];
+    if (lerpParam(from, to, 0) === null) {
+      console.warn(
+        `VFXStore: Can't tween "${key}" of "${name}" from ${JSON.stringify(from)} to ${JSON.stringify(to)}`
+      );
+      return false;
+    }
+    endParamTween(name, key);
+    return new Promise<void>((resolve) => {
+      const tweens = paramTweens.get(name) ?? [];
+      tweens.push(createParamTween(key, from, to, duration, easing, resolve));
+      paramTweens.set(name, tweens);
+    });
+  },
+
+  /**
+   * Advance the param tweens of a system, called by the system once per frame
+   * @param name - Name of the particle system
+   * @param delta - Seconds since the last frame
+   */
+  updateParamTweens: (name, delta) => {
+    const tweens = paramTweens.get(name);
+    const particles = get().particles[name];
+    if (!tweens?.length || !particles?.setParams) return;
+
+    const values: Record<string, unknown> = {};
+    for (const tween of tweens) {
+      values[tween.key] = stepParamTween(tween, delta);
+    }
+    particles.setParams(values as ParticleParams);
+
+    const running = tweens.filter((tween) => {
+      if (tween.time < tween.duration) return true;
+      tween.resolve();
+      return false;
+    });
+    if (running.length) paramTweens.set(name, running);
+    else paramTweens.delete(name);
+  },
+
+  // Scene depth buffer used by depth collision (set by the render pipeline)
+  sceneDepth: null,
+
+  /**
+   * Share the scene depth buffer with particle systems (collision.depth)
+   * @param depth - Depth texture and camera matrices, or null to disable
+   */
+  setSceneDepth: (depth) => {
+    set({ sceneDepth: depth });
+  },
+
+  // Registered sequences: { name: player }
+  sequences: {},
+
+  /**
+   * Register a sequence player by name
+   * @param name - Unique identifier for this sequence
+   * @param player - Player from createSequencePlayer (e.g. a VFXSequence ref)
+   */
+  registerSequence: (name, player) => {
+    if (!name || !player) return;
+    set((state) => ({
+      sequences: { ...state.sequences, [name]: player },
+    }));
+  },
+
+  /**
+   * Unregister a sequence player
+   * @param name - Name of the sequence to unregister
+   */
+  unregisterSequence: (name) => {
+    set((state) => {
+      const sequences = { ...state.sequences };
+      delete sequences[name];
+      return { sequences };
+    });
+  },
+
+  /**
+   * Play a registered sequence
+   * @param name - Name of the sequence
+   * @param trigger - Trigger position (emits are relative to it) and data for callbacks
+   * @returns True if successful
+   */
+  playSequence: (name, trigger) => {
+    const sequence = get().sequences[name];
+    if (!sequence) {
+      console.warn(`VFXStore: No sequence registered with name "${name}"`);
+      return false;
+    }
+    sequence.play(trigger);
+    return true;
+  },
+
+  // Global quality level, read by every particle system each frame
+  quality: 'high',
+
+  /**
+   * Set the quality level of all particle systems
+   * @param quality - 'low' | 'medium' | 'high' (emission rate and LOD distances, see QUALITY_SETTINGS)
+   */
+  setQuality: (quality) => {
+    set({ quality });
+  },
 }));
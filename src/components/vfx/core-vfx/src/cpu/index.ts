@@ -0,0 +1,7 @@
+export {
+  createCPUSimulation,
+  type CPUParticleBuffers,
+  type CPUParticleSimulation,
+  type CPUSimulationOptions,
+} from './simulation'
+export { hash, perlinNoiseVec3 } from './noise'
@@ -0,0 +1,85 @@
+// CPU ports of the TSL random functions used by the compute shaders
+// Same bit operations as the GPU, so spawns with the same seed match
+
+// PCG hash of a float seed, in [0, 1) (TSL `hash`)
+export const hash = (seed: number): number => {
+  // The GPU adds the seed in 32-bit float before converting it to uint
+  const state = (Math.imul(Math.fround(seed) >>> 0, 747796405) + 2891336453) >>> 0
+  const word = Math.imul((state >>> ((state >>> 28) + 4)) ^ state, 277803737) >>> 0
+  return (((word >>> 22) ^ word) >>> 0) / 2 ** 32
+}
+
+// Bob Jenkins hash of a 3D lattice point (MaterialX mx_hash_int)
+const rotl32 = (x: number, k: number) => ((x << k) | (x >>> (32 - k))) >>> 0
+
+const hashLattice = (x: number, y: number, z: number): number => {
+  const seed = (0xdeadbeef + (3 << 2) + 13) >>> 0
+  let a = (seed + x) >>> 0
+  let b = (seed + y) >>> 0
+  let c = (seed + z) >>> 0
+
+  c = ((c ^ b) - rotl32(b, 14)) >>> 0
+  a = ((a ^ c) - rotl32(c, 11)) >>> 0
+  b = ((b ^ a) - rotl32(a, 25)) >>> 0
+  c = ((c ^ b) - rotl32(b, 16)) >>> 0
+  a = ((a ^ c) - rotl32(c, 4)) >>> 0
+  b = ((b ^ a) - rotl32(a, 14)) >>> 0
+  c = ((c ^ b) - rotl32(b, 24)) >>> 0
+  return c
+}
+
+// Perlin gradient for one hash byte (MaterialX mx_gradient_float)
+const gradient = (hash: number, x: number, y: number, z: number): number => {
+  const h = hash & 15
+  const u = h < 8 ? x : y
+  const v = h < 4 ? y : h === 12 || h === 14 ? x : z
+  return (h & 1 ? -u : u) + (h & 2 ? -v : v)
+}
+
+const CORNERS: [number, number, number][] = [
+  [0, 0, 0],
+  [1, 0, 0],
+  [0, 1, 0],
+  [1, 1, 0],
+  [0, 0, 1],
+  [1, 0, 1],
+  [0, 1, 1],
+  [1, 1, 1],
+]
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10)
+
+// 3-channel Perlin noise (TSL `mx_noise_vec3`), written to `out`
+export const perlinNoiseVec3 = (
+  px: number,
+  py: number,
+  pz: number,
+  out: [number, number, number]
+): [number, number, number] => {
+  const X = Math.floor(px)
+  const Y = Math.floor(py)
+  const Z = Math.floor(pz)
+  const fx = px - X
+  const fy = py - Y
+  const fz = pz - Z
+  const u = fade(fx)
+  const v = fade(fy)
+  const w = fade(fz)
+
+  // Corner hashes in trilerp order (x fastest), one byte per channel
+  const hashes = CORNERS.map(([dx, dy, dz]) => hashLattice(X + dx, Y + dy, Z + dz))
+
+  for (let channel = 0; channel < 3; channel++) {
+    const shift = channel * 8
+    const g = CORNERS.map(([dx, dy, dz], i) =>
+      gradient((hashes[i] >>> shift) & 0xff, fx - dx, fy - dy, fz - dz)
+    )
+
+    // Trilinear blend of the 8 corner gradients
+    const y0 = (g[0] * (1 - u) + g[1] * u) * (1 - v) + (g[2] * (1 - u) + g[3] * u) * v
+    const y1 = (g[4] * (1 - u) + g[5] * u) * (1 - v) + (g[6] * (1 - u) + g[7] * u) * v
+    out[channel] = 0.982 * ((1 - w) * y0 + w * y1)
+  }
+
+  return out
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest'
+import { EmitterShape, MAX_COLLIDERS, ParticleEventType } from '../constants'
+import type { BaseParticleProps } from '../types'
+import { createCPUSimulation } from './simulation'
+
+// One motionless particle at the origin, no auto emission (tests spawn explicitly)
+const still: BaseParticleProps = {
+  maxParticles: 8,
+  autoStart: false,
+  speed: [0, 0],
+  lifetime: [1, 1],
+}
+
+// Moving along +x at 1 unit/s
+const alongX: BaseParticleProps = {
+  ...still,
+  speed: [1, 1],
+  direction: [
+    [1, 1],
+    [0, 0],
+    [0, 0],
+  ],
+}
+
+const velocityOf = (sim: ReturnType<typeof createCPUSimulation>, index = 0) =>
+  Array.from(sim.buffers.velocities.subarray(index * 3, index * 3 + 3))
+
+const positionOf = (sim: ReturnType<typeof createCPUSimulation>, index = 0) =>
+  Array.from(sim.buffers.positions.subarray(index * 3, index * 3 + 3))
+
+describe('createCPUSimulation', () => {
+  it('integrates gravity into velocity before moving', () => {
+    const sim = createCPUSimulation({ ...still, gravity: [0, -10, 0] })
+    sim.spawn(0, 0, 0, 1)
+    sim.update(0.1)
+
+    expect(velocityOf(sim)[1]).toBeCloseTo(-1)
+    expect(positionOf(sim)[1]).toBeCloseTo(-0.1)
+  })
+
+  it('eases the friction intensity over the lifetime', () => {
+    const run = (easing: string) => {
+      const sim = createCPUSimulation({ ...alongX, friction: { intensity: [0, 1], easing } })
+      sim.spawn(0, 0, 0, 1)
+      sim.update(0.5) // progress 0: no friction
+      sim.update(0.5) // progress 0.5: speed scaled by 1 - eased(0.5) * 0.9
+      return positionOf(sim)[0]
+    }
+
+    expect(run('linear')).toBeCloseTo(0.5 + 0.5 * (1 - 0.5 * 0.9))
+    expect(run('easeIn')).toBeCloseTo(0.5 + 0.5 * (1 - 0.25 * 0.9))
+    expect(run('easeOut')).toBeCloseTo(0.5 + 0.5 * (1 - 0.75 * 0.9))
+  })
+
+  it('bounces off the collision plane', () => {
+    const sim = createCPUSimulation({
+      ...alongX,
+      direction: [
+        [0, 0],
+        [-1, -1],
+        [0, 0],
+      ],
+      collision: { plane: { y: 0 }, bounce: 0.5 },
+    })
+    sim.spawn(0, 0.05, 0, 1)
+    sim.update(0.1)
+
+    expect(positionOf(sim)[1]).toBe(0)
+    expect(velocityOf(sim)[1]).toBeCloseTo(0.5)
+    expect(sim.getAliveCount()).toBe(1)
+    const collisions = sim
+      .readEvents()
+      .filter((event) => event.type === ParticleEventType.COLLISION)
+    expect(collisions.map((event) => event.target)).toEqual([-1]) // -1 = the plane
+  })
+
+  it('kills particles on the collision plane with die', () => {
+    const sim = createCPUSimulation({
+      ...alongX,
+      direction: [
+        [0, 0],
+        [-1, -1],
+        [0, 0],
+      ],
+      collision: { plane: { y: 0 }, die: true },
+    })
+    sim.spawn(0, 0.05, 0, 1)
+    sim.update(0.1)
+
+    expect(sim.getAliveCount()).toBe(0)
+    expect(positionOf(sim)[1]).toBe(-1000)
+    const death = sim.readEvents().find((event) => event.type === ParticleEventType.DEATH)
+    expect(death?.position[1]).toBe(0)
+  })
+
+  it('collides with colliders past the initial buffer capacity', () => {
+    const far = Array.from({ length: MAX_COLLIDERS + 35 }, () => ({
+      type: 'sphere' as const,
+      position: [100, 0, 0] as [number, number, number],
+    }))
+    const sim = createCPUSimulation({
+      ...alongX,
+      collision: { colliders: [...far, { type: 'sphere', position: [0.12, 0, 0], radius: 0.05 }] },
+    })
+    sim.spawn(0, 0, 0, 1)
+    sim.update(0.1)
+
+    const collisions = sim
+      .readEvents()
+      .filter((event) => event.type === ParticleEventType.COLLISION)
+    expect(collisions.map((event) => event.target)).toEqual([far.length])
+  })
+
+  it('pulls toward point attractors and pushes away from repulsors', () => {
+    // No radius: inverse-square falloff 1 / (distance^2 + 1)
+    const run = (type: 'point' | 'repulse') => {
+      const sim = createCPUSimulation({
+        ...still,
+        attractors: [{ type, position: [1, 0, 0], strength: 2 }],
+      })
+      sim.spawn(0, 0, 0, 1)
+      sim.update(0.1)
+      return velocityOf(sim)
+    }
+
+    const pulled = run('point')
+    expect(pulled[0]).toBeCloseTo(2 * 0.5 * 0.1)
+    expect(pulled[1]).toBeCloseTo(0)
+    expect(run('repulse')[0]).toBeCloseTo(-2 * 0.5 * 0.1)
+  })
+
+  it('swirls around vortex attractors', () => {
+    const sim = createCPUSimulation({
+      ...still,
+      attractors: [{ type: 'vortex', position: [1, 0, 0], axis: [0, 1, 0], strength: 1 }],
+    })
+    sim.spawn(0, 0, 0, 1)
+    sim.update(0.1)
+
+    const [vx, vy, vz] = velocityOf(sim)
+    expect(vx).toBeCloseTo(0)
+    expect(vy).toBeCloseTo(0)
+    expect(Math.abs(vz)).toBeGreaterThan(0)
+  })
+
+  it('reproduces a spawn from the same seed', () => {
+    const props: BaseParticleProps = {
+      ...alongX,
+      seed: 42,
+      speed: [0.5, 2],
+      direction: [
+        [-1, 1],
+        [-1, 1],
+        [-1, 1],
+      ],
+      size: [0.1, 1],
+      emitterShape: EmitterShape.SPHERE,
+    }
+    const a = createCPUSimulation(props)
+    const b = createCPUSimulation(props)
+    a.spawn(0, 0, 0, 8)
+    b.spawn(0, 0, 0, 8)
+    expect(a.buffers.positions).toEqual(b.buffers.positions)
+    expect(a.buffers.velocities).toEqual(b.buffers.velocities)
+    expect(a.buffers.sizes).toEqual(b.buffers.sizes)
+
+    // clear() restarts the seeded sequence
+    const first = Array.from(a.buffers.positions)
+    a.clear()
+    a.spawn(0, 0, 0, 8)
+    expect(Array.from(a.buffers.positions)).toEqual(first)
+
+    // A burst seed wins over the system's sequence
+    const c = createCPUSimulation({ ...props, seed: 7 })
+    c.spawn(0, 0, 0, 8, null, 3)
+    a.clear()
+    a.spawn(0, 0, 0, 8, null, 3)
+    expect(c.buffers.positions).toEqual(a.buffers.positions)
+
+    const d = createCPUSimulation({ ...props, seed: 7 })
+    d.spawn(0, 0, 0, 8)
+    expect(d.buffers.positions).not.toEqual(b.buffers.positions)
+  })
+
+  it('advances the ring index by the particles actually written', () => {
+    const sim = createCPUSimulation({ ...still, maxParticles: 4 })
+    sim.spawn(0, 0, 0, 6) // capped at 4
+    sim.spawn(5, 0, 0, 1) // replaces the oldest slot
+
+    expect(positionOf(sim, 0)[0]).toBe(5)
+    expect(positionOf(sim, 1)[0]).toBe(0)
+  })
+})
@@ -0,0 +1,833 @@
+import * as THREE from 'three/webgpu'
+import {
+  AttractorType,
+  ColliderType,
+  EmitterShape,
+  MAX_ATTRACTORS,
+  MAX_COLLIDERS,
+  MAX_PARTICLE_EVENTS,
+  ParticleEventType,
+} from '../constants'
+import { bakeCurveToArray } from '../curves'
+import { getAttractorCapacity, packAttractors } from '../attractors'
+import {
+  getColliderCapacity,
+  hasCollisionPlane,
+  packColliders,
+  resolveColliders,
+} from '../colliders'
+import { bakeMeshEmitter, writeMeshEmitterMatrix, type MeshEmitterData } from '../mesh-emitter'
+import type { ParticleEvent } from '../events'
+import type { BaseParticleProps, SpawnMotionOverrides, VectorFieldData } from '../types'
+import {
+  applyEasing,
+  createSeededRandom,
+  easingToType,
+  getLinearVelocity,
+  hexToRgb,
+  lifetimeToFadeRate,
+  rotateFromYUp,
+  toRange,
+  toRotation3D,
+  toSpawnSeed,
+} from '../utils'
+import { hash, perlinNoiseVec3 } from './noise'
+
+// Particle buffers of the CPU simulation (same content as the GPU storage arrays)
+// Dead particles have lifetime 0 and are parked at y = -1000, like on the GPU
+export type CPUParticleBuffers = {
+  positions: Float32Array // xyz
+  velocities: Float32Array // xyz
+  lifetimes: Float32Array // 1 at birth, 0 when dead
+  fadeRates: Float32Array // lifetime lost per second
+  sizes: Float32Array
+  rotations: Float32Array // xyz, radians
+  colorStarts: Float32Array // rgb
+  colorEnds: Float32Array // rgb
+  origins: Float32Array // xyz, spawn position (velocity over lifetime center)
+}
+
+export type CPUSimulationOptions = {
+  /** Random source for spawn seeds (default: seeded by props.seed, otherwise Math.random) */
+  random?: () => number
+}
+
+export type CPUParticleSimulation = {
+  readonly maxParticles: number
+  readonly buffers: CPUParticleBuffers
+  /**
+   * Spawn particles at the emitter position + (x, y, z), overrides apply to this burst only.
+   * With a seed the burst matches a GPU spawn with the same seed.
+   */
+  spawn: (
+    x?: number,
+    y?: number,
+    z?: number,
+    count?: number,
+    overrides?: (Partial<BaseParticleProps> & SpawnMotionOverrides) | null,
+    seed?: number | null
+  ) => void
+  /** Simulate one frame, then auto emit like VFXParticles */
+  update: (delta: number) => void
+  start: () => void
+  stop: () => void
+  readonly isEmitting: boolean
+  /** Kill all particles (and restart the props.seed sequence) */
+  clear: () => void
+  /** Replace the props (maxParticles is fixed at creation) */
+  setProps: (props: BaseParticleProps) => void
+  /** Events since the last call (same data as the GPU readback, capped at MAX_PARTICLE_EVENTS) */
+  readEvents: () => ParticleEvent[]
+  /** Number of particles currently alive */
+  getAliveCount: () => number
+}
+
+type Vec3 = [number, number, number]
+
+// Props resolved to the values VFXParticles writes to its uniforms (same defaults)
+const resolveParams = (props: BaseParticleProps) => {
+  const colorStart = props.colorStart ?? ['#ffffff']
+  const colorEnd = props.colorEnd ?? colorStart
+  const lifetime = toRange(props.lifetime, [1, 2])
+  const friction = props.friction ?? null
+  const emitterDirection = props.emitterDirection ?? [0, 1, 0]
+  const dirLength = Math.hypot(...emitterDirection) || 1
+  const velocity = props.velocityOverLifetime ?? null
+  const vectorField = props.vectorField ?? null
+  const vectorFieldData = typeof vectorField?.field === 'object' ? vectorField.field : null
+
+  return {
+    size: toRange(props.size, [0.1, 0.3]),
+    speed: toRange(props.speed, [0.1, 0.1]),
+    // Fade rate range: the shortest lifetime gives the fastest fade
+    fadeRate: [lifetimeToFadeRate(lifetime[1]), lifetimeToFadeRate(lifetime[0])] as [
+      number,
+      number,
+    ],
+    direction: toRotation3D(
+      props.direction ?? [
+        [-1, 1],
+        [0, 1],
+        [-1, 1],
+      ]
+    ),
+    startPosition: toRotation3D(props.startPosition),
+    rotation: toRotation3D(props.rotation),
+    rotationSpeed: toRotation3D(props.rotationSpeed),
+    gravity: props.gravity ?? ([0, 0, 0] as Vec3),
+    frictionIntensity: toRange(friction?.intensity, [0, 0]),
+    frictionEasing: easingToType(friction?.easing ?? 'linear'),
+    velocityCurve: props.velocityCurve ? bakeCurveToArray(props.velocityCurve) : null,
+    rotationSpeedCurve: props.rotationSpeedCurve
+      ? bakeCurveToArray(props.rotationSpeedCurve)
+      : null,
+    velocityOverLifetime: velocity && {
+      linear: getLinearVelocity(velocity, emitterDirection),
+      orbital: velocity.orbital ?? ([0, 0, 0] as Vec3),
+      radial: velocity.radial ?? 0,
+      center: velocity.center ?? ([0, 0, 0] as Vec3),
+      // Linear, orbital and radial multipliers (unset = 1)
+      curves: [velocity.linearCurve, velocity.orbitalCurve, velocity.radialCurve].map((curve) =>
+        curve ? bakeCurveToArray(curve) : null
+      ),
+    },
+    startColors: colorStart.slice(0, 8).map(hexToRgb),
+    endColors: colorEnd.slice(0, 8).map(hexToRgb),
+    position: props.position ?? ([0, 0, 0] as Vec3),
+    delay: props.delay ?? 0,
+    emitCount: props.emitCount ?? 1,
+    emitterShape: props.emitterShape ?? EmitterShape.BOX,
+    emitterRadius: toRange(props.emitterRadius, [0, 1]),
+    emitterAngle: props.emitterAngle ?? Math.PI / 4,
+    emitterHeight: toRange(props.emitterHeight, [0, 1]),
+    emitterSurfaceOnly: !!props.emitterSurfaceOnly,
+    emitterDirection: emitterDirection.map((v) => v / dirLength) as Vec3,
+    emitterMeshNormal: !!props.emitterMeshNormal,
+    attractToCenter: !!props.attractToCenter,
+    startPositionAsDirection: !!props.startPositionAsDirection,
+    turbulence: props.turbulence ?? null,
+    vectorField: vectorFieldData && {
+      data: vectorFieldData,
+      bounds: vectorField?.bounds ?? vectorFieldData.bounds,
+      intensity: vectorField?.intensity ?? 1,
+      tightness: vectorField?.tightness ?? 0,
+    },
+    collision: props.collision ?? null,
+  }
+}
+
+type SimulationParams = ReturnType<typeof resolveParams>
+
+const mix = (a: number, b: number, t: number) => a + (b - a) * t
+
+// Linear lookup in a baked curve, like sampling the curve texture
+const sampleCurve = (curve: Float32Array, progress: number) => {
+  const x = Math.min(Math.max(progress * curve.length - 0.5, 0), curve.length - 1)
+  const i = Math.floor(x)
+  return mix(curve[i], curve[Math.min(i + 1, curve.length - 1)], x - i)
+}
+
+// Friction speed multiplier with the eased friction intensity
+const frictionSpeedScale = (params: SimulationParams, progress: number) => {
+  const [start, end] = params.frictionIntensity
+  return 1 - mix(start, end, applyEasing(params.frictionEasing, progress)) * 0.9
+}
+
+// Trilinear lookup in a vector field grid, like sampling the 3D texture (clamped)
+const sampleVectorField = (field: VectorFieldData, local: Vec3, out: Vec3) => {
+  const [rx, ry, rz] = field.resolution
+  const coord = (t: number, res: number) => Math.min(Math.max(t * res - 0.5, 0), res - 1)
+  const x = coord(local[0], rx)
+  const y = coord(local[1], ry)
+  const z = coord(local[2], rz)
+  const x0 = Math.floor(x)
+  const y0 = Math.floor(y)
+  const z0 = Math.floor(z)
+  const x1 = Math.min(x0 + 1, rx - 1)
+  const y1 = Math.min(y0 + 1, ry - 1)
+  const z1 = Math.min(z0 + 1, rz - 1)
+  const tx = x - x0
+  const ty = y - y0
+  const tz = z - z0
+
+  for (let c = 0; c < 3; c++) {
+    const at = (i: number, j: number, k: number) => field.vectors[((k * ry + j) * rx + i) * 3 + c]
+    const y0v = mix(
+      mix(at(x0, y0, z0), at(x1, y0, z0), tx),
+      mix(at(x0, y1, z0), at(x1, y1, z0), tx),
+      ty
+    )
+    const y1v = mix(
+      mix(at(x0, y0, z1), at(x1, y0, z1), tx),
+      mix(at(x0, y1, z1), at(x1, y1, z1), tx),
+      ty
+    )
+    out[c] = mix(y0v, y1v, tz)
+  }
+  return out
+}
+
+/**
+ * Creates a CPU particle simulation with the same behavior as the GPU compute shaders
+ * (spawn shapes, gravity, friction / velocity curve, turbulence, attractors, vector
+ * field, plane and collider collision, rotation, events) on plain typed arrays.
+ *
+ * Runs without WebGPU: unit tests, server-side previews, fallback on devices without
+ * compute support. Depth-buffer collision needs the GPU and is skipped.
+ */
+export const createCPUSimulation = (
+  initialProps: BaseParticleProps = {},
+  options: CPUSimulationOptions = {}
+): CPUParticleSimulation => {
+  const maxParticles = initialProps.maxParticles ?? 10000
+  const buffers: CPUParticleBuffers = {
+    positions: new Float32Array(maxParticles * 3),
+    velocities: new Float32Array(maxParticles * 3),
+    lifetimes: new Float32Array(maxParticles),
+    fadeRates: new Float32Array(maxParticles),
+    sizes: new Float32Array(maxParticles),
+    rotations: new Float32Array(maxParticles * 3),
+    colorStarts: new Float32Array(maxParticles * 3),
+    colorEnds: new Float32Array(maxParticles * 3),
+    origins: new Float32Array(maxParticles * 3),
+  }
+
+  let attractorData = new Float32Array(MAX_ATTRACTORS * 12)
+  let colliderData = new Float32Array(MAX_COLLIDERS * 12)
+  let props = initialProps
+  let params = resolveParams(props)
+  let meshEmitter: MeshEmitterData | null = null
+  // Emitter mesh transform (world space), refreshed for each burst
+  const meshMatrix = new THREE.Matrix4()
+  const meshNormalMatrix = new THREE.Matrix3()
+  const meshSample = new THREE.Vector3()
+  let meshPlaced = false
+  let attractorCount = 0
+  let nextIndex = 0
+  let emitting = props.autoStart ?? true
+  let emitAccumulator = 0
+  let turbulenceTime = 0
+  let events: ParticleEvent[] = []
+  let random = Math.random
+
+  const resetRandom = () => {
+    const seed = props.seed ?? null
+    random = options.random ?? (seed === null ? Math.random : createSeededRandom(seed))
+  }
+
+  const setProps = (next: BaseParticleProps) => {
+    if (next.emitterMesh !== props.emitterMesh || !meshEmitter) {
+      meshEmitter = next.emitterMesh ? bakeMeshEmitter(next.emitterMesh) : null
+    }
+    const seedChanged = next.seed !== props.seed
+    props = next
+    params = resolveParams(props)
+    const attractors = props.attractors ?? []
+    if (attractors.length * 12 > attractorData.length) {
+      attractorData = new Float32Array(getAttractorCapacity(attractors.length) * 12)
+    }
+    attractorCount = packAttractors(attractorData, attractors)
+    if (seedChanged) resetRandom()
+  }
+  setProps(initialProps)
+  resetRandom()
+
+  const appendEvent = (
+    type: number,
+    index: number,
+    position: ArrayLike<number>,
+    velocity: ArrayLike<number>,
+    progress: number,
+    target = -1
+  ) => {
+    if (events.length >= MAX_PARTICLE_EVENTS) return
+    const c = index * 3
+    events.push({
+      type,
+      index,
+      position: [position[0], position[1], position[2]],
+      velocity: [velocity[0], velocity[1], velocity[2]],
+      color: [
+        mix(buffers.colorStarts[c], buffers.colorEnds[c], progress),
+        mix(buffers.colorStarts[c + 1], buffers.colorEnds[c + 1], progress),
+        mix(buffers.colorStarts[c + 2], buffers.colorEnds[c + 2], progress),
+      ],
+      progress,
+      target,
+    })
+  }
+
+  // burstIdx is the index within the burst, like in the spawn shader
+  const spawnParticle = (
+    p: SimulationParams,
+    idx: number,
+    burstIdx: number,
+    seed: number,
+    origin: Vec3,
+    inheritedVelocity: Vec3
+  ) => {
+    const particleSeed = Math.fround(burstIdx + seed)
+    const rand = (offset: number) => hash(particleSeed + offset)
+    const i3 = idx * 3
+
+    const theta = rand(9990) * Math.PI * 2
+    const phi = Math.acos(1 - rand(10100) * 2)
+    const randRadius = rand(8880)
+    const radiusT = p.emitterSurfaceOnly ? 1 : randRadius ** (1 / 3)
+    const [radiusInner, radiusOuter] = p.emitterRadius
+    const radius = mix(radiusInner, radiusOuter, radiusT)
+    const [[minX, maxX], [minY, maxY], [minZ, maxZ]] = p.startPosition
+    const randPosX = rand(5555)
+
+    let offset: Vec3 = [0, 0, 0]
+    const meshNormal: Vec3 = [0, 1, 0]
+    switch (p.emitterShape) {
+      case EmitterShape.BOX:
+        offset = [
+          mix(minX, maxX, randPosX),
+          mix(minY, maxY, rand(6666)),
+          mix(minZ, maxZ, rand(7777)),
+        ]
+        break
+      case EmitterShape.SPHERE:
+        offset = [
+          radius * Math.sin(phi) * Math.cos(theta),
+          radius * Math.cos(phi),
+          radius * Math.sin(phi) * Math.sin(theta),
+        ]
+        break
+      case EmitterShape.CONE: {
+        const h = mix(p.emitterHeight[0], p.emitterHeight[1], rand(11110))
+        const r = h * Math.sin(p.emitterAngle) * radiusT
+        offset = rotateFromYUp(
+          [r * Math.cos(theta), h * Math.cos(p.emitterAngle), r * Math.sin(theta)],
+          p.emitterDirection
+        )
+        break
+      }
+      case EmitterShape.DISK: {
+        const r = p.emitterSurfaceOnly
+          ? radiusOuter
+          : mix(radiusInner, radiusOuter, Math.sqrt(randRadius))
+        offset = rotateFromYUp([r * Math.cos(theta), 0, r * Math.sin(theta)], p.emitterDirection)
+        break
+      }
+      case EmitterShape.EDGE:
+        offset = [mix(minX, maxX, randPosX), mix(minY, maxY, randPosX), mix(minZ, maxZ, randPosX)]
+        break
+      case EmitterShape.MESH:
+        if (meshEmitter) {
+          const lookup = meshEmitter.lookup
+          const tri = lookup[Math.floor(rand(12120) * lookup.length)]
+          const r1 = Math.sqrt(rand(13130))
+          const v = rand(14140)
+          const t = meshEmitter.triangles
+          for (let c = 0; c < 3; c++) {
+            offset[c] =
+              t[tri * 9 + c] * (1 - r1) +
+              t[tri * 9 + 3 + c] * r1 * (1 - v) +
+              t[tri * 9 + 6 + c] * r1 * v
+            meshNormal[c] = meshEmitter.normals[tri * 3 + c]
+          }
+          // A mesh source is placed by its own transform, not the spawn point
+          meshSample.fromArray(offset).applyMatrix4(meshMatrix).toArray(offset)
+          if (meshPlaced) for (let c = 0; c < 3; c++) offset[c] -= origin[c]
+          meshSample.fromArray(meshNormal).applyMatrix3(meshNormalMatrix).normalize()
+          meshSample.toArray(meshNormal)
+        }
+        break
+    }
+
+    for (let c = 0; c < 3; c++) buffers.positions[i3 + c] = origin[c] + offset[c]
+    buffers.origins.set(origin, i3)
+
+    const fadeRate = mix(p.fadeRate[0], p.fadeRate[1], rand(666))
+    buffers.fadeRates[idx] = fadeRate
+
+    // Direction: mesh normal, start offset, or random direction in the direction ranges
+    const [[dMinX, dMaxX], [dMinY, dMaxY], [dMinZ, dMaxZ]] = p.direction
+    const normalize = (v: Vec3): Vec3 => {
+      const length = Math.hypot(...v)
+      return length > 0.001 ? [v[0] / length, v[1] / length, v[2] / length] : [0, 0, 0]
+    }
+    let dir = normalize([
+      mix(dMinX, dMaxX, rand(333)),
+      mix(dMinY, dMaxY, rand(444)),
+      mix(dMinZ, dMaxZ, rand(555)),
+    ])
+    if (p.emitterMeshNormal && p.emitterShape === EmitterShape.MESH) dir = meshNormal
+    else if (p.startPositionAsDirection) dir = normalize(offset)
+
+    const speed = mix(p.speed[0], p.speed[1], rand(1111))
+    for (let c = 0; c < 3; c++) {
+      // attractToCenter reaches the spawn point exactly at death
+      buffers.velocities[i3 + c] =
+        (p.attractToCenter ? -offset[c] * fadeRate : dir[c] * speed) + inheritedVelocity[c]
+    }
+
+    buffers.sizes[idx] = mix(p.size[0], p.size[1], rand(999))
+
+    const [rx, ry, rz] = p.rotation
+    buffers.rotations[i3] = mix(rx[0], rx[1], rand(2222))
+    buffers.rotations[i3 + 1] = mix(ry[0], ry[1], rand(3333))
+    buffers.rotations[i3 + 2] = mix(rz[0], rz[1], rand(4444))
+
+    const startColor = p.startColors[Math.min(Math.floor(rand(777) * p.startColors.length), 7)]
+    const endColor = p.endColors[Math.min(Math.floor(rand(888) * p.endColors.length), 7)]
+    buffers.colorStarts.set(startColor ?? [1, 1, 1], i3)
+    buffers.colorEnds.set(endColor ?? [1, 1, 1], i3)
+
+    buffers.lifetimes[idx] = 1
+    appendEvent(
+      ParticleEventType.BIRTH,
+      idx,
+      buffers.positions.subarray(i3, i3 + 3),
+      buffers.velocities.subarray(i3, i3 + 3),
+      0
+    )
+  }
+
+  const spawn: CPUParticleSimulation['spawn'] = (
+    x = 0,
+    y = 0,
+    z = 0,
+    count = 20,
+    overrides,
+    burstSeed = null
+  ) => {
+    if (count <= 0) return
+    const p = overrides ? resolveParams({ ...props, ...overrides }) : params
+    const [px, py, pz] = params.position
+    const seed = toSpawnSeed(burstSeed !== null ? createSeededRandom(burstSeed) : random)
+    const n = Math.min(count, maxParticles)
+    const target: Vec3 = [px + x, py + y, pz + z]
+
+    // Emitter motion: inherited velocity, and the burst spread along the path moved
+    const inherit = overrides?.inheritVelocity ?? 1
+    const inheritedVelocity = (overrides?.emitterVelocity ?? [0, 0, 0]).map(
+      (v) => v * inherit
+    ) as Vec3
+    const from = overrides?.emitFrom
+    const spread = from && n < maxParticles
+
+    if (meshEmitter && props.emitterMesh) {
+      meshPlaced = writeMeshEmitterMatrix(props.emitterMesh, null, meshMatrix, meshNormalMatrix)
+    }
+
+    for (let i = 0; i < n; i++) {
+      const t = (i + 1) / n
+      const origin: Vec3 = spread
+        ? [
+            mix(px + from[0], target[0], t),
+            mix(py + from[1], target[1], t),
+            mix(pz + from[2], target[2], t),
+          ]
+        : target
+      spawnParticle(p, (nextIndex + i) % maxParticles, i, seed, origin, inheritedVelocity)
+    }
+    // Advance by the particles actually written (a burst is capped at maxParticles)
+    nextIndex = (nextIndex + n) % maxParticles
+  }
+
+  const noise: Vec3 = [0, 0, 0]
+  const fieldVelocity: Vec3 = [0, 0, 0]
+  const local: Vec3 = [0, 0, 0]
+
+  // Curl of the noise field at a point (finite differences, as in the update shader)
+  const curl = (x: number, y: number, z: number, out: Vec3) => {
+    const eps = 0.01
+    const [, ny1, nz1] = perlinNoiseVec3(x + eps, y, z, noise)
+    const [, ny0, nz0] = perlinNoiseVec3(x - eps, y, z, [0, 0, 0])
+    const dFy_dx = (ny1 - ny0) / (eps * 2)
+    const dFz_dx = (nz1 - nz0) / (eps * 2)
+    const [px1, , pz1] = perlinNoiseVec3(x, y + eps, z, noise)
+    const [px0, , pz0] = perlinNoiseVec3(x, y - eps, z, [0, 0, 0])
+    const dFx_dy = (px1 - px0) / (eps * 2)
+    const dFz_dy = (pz1 - pz0) / (eps * 2)
+    const [qx1, qy1] = perlinNoiseVec3(x, y, z + eps, noise)
+    const [qx0, qy0] = perlinNoiseVec3(x, y, z - eps, [0, 0, 0])
+    const dFx_dz = (qx1 - qx0) / (eps * 2)
+    const dFy_dz = (qy1 - qy0) / (eps * 2)
+    out[0] = dFz_dy - dFy_dz
+    out[1] = dFx_dz - dFz_dx
+    out[2] = dFy_dx - dFx_dy
+    return out
+  }
+
+  const simulate = (dt: number) => {
+    const p = params
+    const { positions, velocities, lifetimes, fadeRates, sizes, rotations, origins } = buffers
+    const collision = p.collision
+    const restingSpeed = Math.hypot(...p.gravity) * dt * 2
+    const planeEnabled = hasCollisionPlane(collision ?? undefined)
+    const colliders = resolveColliders(collision ?? undefined)
+    if (colliders.length * 12 > colliderData.length) {
+      colliderData = new Float32Array(getColliderCapacity(colliders.length) * 12)
+    }
+    const colliderCount = packColliders(colliderData, colliders, collision ?? undefined)
+    const sizeBasedGravity = collision?.sizeBasedGravity ?? 0
+    const turbIntensity = p.turbulence?.intensity ?? 0
+    const turbFrequency = p.turbulence?.frequency ?? 1
+
+    for (let idx = 0; idx < maxParticles; idx++) {
+      if (lifetimes[idx] <= 0) continue
+      const i3 = idx * 3
+      const pos = positions.subarray(i3, i3 + 3)
+      const vel = velocities.subarray(i3, i3 + 3)
+      const progress = 1 - lifetimes[idx]
+
+      // Gravity, heavier for bigger particles with sizeBasedGravity
+      const gravityMultiplier = 1 + sizes[idx] * sizeBasedGravity
+      for (let c = 0; c < 3; c++) vel[c] += p.gravity[c] * dt * gravityMultiplier
+
+      const speedScale = p.velocityCurve
+        ? sampleCurve(p.velocityCurve, progress)
+        : frictionSpeedScale(p, progress)
+
+      // Turbulence: curl noise, scrolled over time
+      if (turbIntensity > 0.001) {
+        const t = turbulenceTime
+        const force = curl(
+          pos[0] * turbFrequency + t,
+          pos[1] * turbFrequency + t * 0.7,
+          pos[2] * turbFrequency + t * 1.3,
+          local
+        )
+        for (let c = 0; c < 3; c++) vel[c] += force[c] * turbIntensity * dt
+      }
+
+      // Attractors (same packed layout as the GPU buffer)
+      for (let a = 0; a < attractorCount; a++) {
+        const o = a * 12
+        const type = attractorData[o + 3]
+        const strength = attractorData[o + 7]
+        const radius = attractorData[o + 8]
+        const falloffType = attractorData[o + 9]
+        const isLine = type === AttractorType.LINE
+
+        const target: Vec3 = [attractorData[o], attractorData[o + 1], attractorData[o + 2]]
+        if (isLine) {
+          const seg: Vec3 = [
+            attractorData[o + 4] - target[0],
+            attractorData[o + 5] - target[1],
+            attractorData[o + 6] - target[2],
+          ]
+          const segLengthSq = Math.max(seg[0] ** 2 + seg[1] ** 2 + seg[2] ** 2, 0.0001)
+          const t =
+            ((pos[0] - target[0]) * seg[0] +
+              (pos[1] - target[1]) * seg[1] +
+              (pos[2] - target[2]) * seg[2]) /
+            segLengthSq
+          const tc = Math.min(Math.max(t, 0), 1)
+          for (let c = 0; c < 3; c++) target[c] += seg[c] * tc
+        }
+
+        const to: Vec3 = [target[0] - pos[0], target[1] - pos[1], target[2] - pos[2]]
+        const dist = Math.hypot(...to)
+        const safeDist = Math.max(dist, 0.01)
+        const hasRadius = radius > 0.001
+
+        // Enter event when last step's position was outside the radius
+        if (hasRadius && dist < radius) {
+          const previousDist = Math.hypot(
+            to[0] + vel[0] * dt,
+            to[1] + vel[1] * dt,
+            to[2] + vel[2] * dt
+          )
+          if (previousDist >= radius) {
+            appendEvent(ParticleEventType.ATTRACTOR_ENTER, idx, pos, vel, progress, a)
+          }
+        }
+
+        if (Math.abs(strength) <= 0.001) continue
+
+        const linear = hasRadius ? Math.max(1 - dist / radius, 0) : 1
+        const inRange = !hasRadius || dist < radius ? 1 : 0
+        let falloff: number
+        if (falloffType < 0.5) falloff = linear
+        else if (falloffType < 1.5) falloff = linear * linear * (3 - linear * 2)
+        else if (falloffType < 2.5) falloff = (1 / (safeDist * safeDist + 1)) * inRange
+        else falloff = inRange
+
+        const scale = strength * falloff * dt
+        if (type === AttractorType.VORTEX) {
+          // Swirl around the axis
+          const ax = attractorData[o + 4]
+          const ay = attractorData[o + 5]
+          const az = attractorData[o + 6]
+          const tangent: Vec3 = [
+            ay * to[2] - az * to[1],
+            az * to[0] - ax * to[2],
+            ax * to[1] - ay * to[0],
+          ]
+          const tangentLen = Math.max(Math.hypot(...tangent), 0.001)
+          for (let c = 0; c < 3; c++) vel[c] += (tangent[c] / tangentLen) * scale
+        } else {
+          // Point / line pull, repulse push
+          const sign = type === AttractorType.REPULSE ? -1 : 1
+          for (let c = 0; c < 3; c++) vel[c] += (to[c] / safeDist) * scale * sign
+        }
+      }
+
+      // Vector field: accelerate toward, or lock onto, the field velocity
+      const field = p.vectorField
+      if (field) {
+        const { min, max } = field.bounds
+        let inside = true
+        for (let c = 0; c < 3; c++) {
+          local[c] = (pos[c] - min[c]) / (max[c] - min[c])
+          inside = inside && local[c] >= 0 && local[c] <= 1
+        }
+        if (inside) {
+          sampleVectorField(field.data, local, fieldVelocity)
+          const blend = 1 - (1 - field.tightness) ** (dt * 60)
+          for (let c = 0; c < 3; c++) {
+            const f = fieldVelocity[c] * field.intensity
+            vel[c] = mix(vel[c] + f * dt, f, blend)
+          }
+        }
+      }
+
+      for (let c = 0; c < 3; c++) pos[c] += vel[c] * dt * speedScale
+
+      // Velocity over lifetime: moves the particle without changing vel
+      const extra = p.velocityOverLifetime
+      if (extra) {
+        const [linearScale, orbitalScale, radialScale] = extra.curves.map((curve) =>
+          curve ? sampleCurve(curve, progress) : 1
+        )
+        for (let c = 0; c < 3; c++) pos[c] += extra.linear[c] * linearScale * dt
+
+        const center = [0, 1, 2].map((c) => origins[i3 + c] + extra.center[c])
+        const offset = [0, 1, 2].map((c) => pos[c] - center[c])
+
+        // Orbital: exact rotation of the offset by |omega| * dt around omega
+        const omega = extra.orbital.map((v) => v * orbitalScale)
+        const omegaLength = Math.hypot(...omega)
+        const angle = omegaLength * dt
+        if (angle > 0.000001) {
+          const [kx, ky, kz] = omega.map((v) => v / omegaLength)
+          const [ox, oy, oz] = offset
+          const cosA = Math.cos(angle)
+          const sinA = Math.sin(angle)
+          const kDotO = (kx * ox + ky * oy + kz * oz) * (1 - cosA)
+          offset[0] = ox * cosA + (ky * oz - kz * oy) * sinA + kx * kDotO
+          offset[1] = oy * cosA + (kz * ox - kx * oz) * sinA + ky * kDotO
+          offset[2] = oz * cosA + (kx * oy - ky * ox) * sinA + kz * kDotO
+        }
+
+        // Radial: away from the center, stopping at the center when moving inward
+        const distance = Math.hypot(...offset)
+        if (distance > 0.0001) {
+          const step = Math.max(extra.radial * radialScale * dt, -distance)
+          for (let c = 0; c < 3; c++) offset[c] += (offset[c] / distance) * step
+        }
+        for (let c = 0; c < 3; c++) pos[c] = center[c] + offset[c]
+      }
+
+      // Collision
+      if (collision) {
+        const kill = (hitPoint: ArrayLike<number>) => {
+          appendEvent(ParticleEventType.DEATH, idx, hitPoint, vel, 1)
+          lifetimes[idx] = 0
+          pos[1] = -1000
+        }
+        const collisionEvent = (
+          hitPoint: ArrayLike<number>,
+          normalSpeed: number,
+          target: number
+        ) => {
+          if (Math.abs(normalSpeed) > restingSpeed) {
+            appendEvent(ParticleEventType.COLLISION, idx, hitPoint, vel, progress, target)
+          }
+        }
+
+        const planeY = collision.plane?.y ?? 0
+        if (planeEnabled && pos[1] < planeY) {
+          const hitPoint = [pos[0], planeY, pos[2]]
+          collisionEvent(hitPoint, vel[1], -1)
+          if (collision.die) {
+            kill(hitPoint)
+          } else {
+            pos[1] = planeY
+            vel[1] = Math.abs(vel[1]) * (collision.bounce ?? 0.3)
+            vel[0] *= collision.friction ?? 0.8
+            vel[2] *= collision.friction ?? 0.8
+          }
+        }
+
+        for (let i = 0; i < colliderCount && lifetimes[idx] > 0; i++) {
+          const o = i * 12
+          const type = colliderData[o + 3]
+          const offset: Vec3 = [
+            pos[0] - colliderData[o],
+            pos[1] - colliderData[o + 1],
+            pos[2] - colliderData[o + 2],
+          ]
+          const c1: Vec3 = [colliderData[o + 4], colliderData[o + 5], colliderData[o + 6]]
+
+          // Signed distance to the surface (negative = penetrating) and push-out normal
+          let dist: number
+          let normal: Vec3
+          if (type === ColliderType.PLANE) {
+            dist = offset[0] * c1[0] + offset[1] * c1[1] + offset[2] * c1[2]
+            normal = c1
+          } else if (type === ColliderType.SPHERE) {
+            const length = Math.hypot(...offset)
+            dist = length - c1[0]
+            const inv = 1 / Math.max(length, 0.0001)
+            normal = [offset[0] * inv, offset[1] * inv, offset[2] * inv]
+          } else if (type === ColliderType.BOX) {
+            const q = offset.map((v, c) => Math.abs(v) - c1[c])
+            dist = Math.max(q[0], q[1], q[2])
+            if (q[0] >= q[1] && q[0] >= q[2]) normal = [Math.sign(offset[0]), 0, 0]
+            else if (q[1] >= q[2]) normal = [0, Math.sign(offset[1]), 0]
+            else normal = [0, 0, Math.sign(offset[2])]
+          } else {
+            const radial = Math.hypot(offset[0], offset[2])
+            const side = radial - c1[0]
+            const cap = Math.abs(offset[1]) - c1[1]
+            dist = Math.max(side, cap)
+            const inv = 1 / Math.max(radial, 0.0001)
+            normal =
+              side > cap ? [offset[0] * inv, 0, offset[2] * inv] : [0, Math.sign(offset[1]), 0]
+          }
+
+          if (dist < 0) {
+            const hitPoint = [
+              pos[0] - normal[0] * dist,
+              pos[1] - normal[1] * dist,
+              pos[2] - normal[2] * dist,
+            ]
+            const normalSpeed = vel[0] * normal[0] + vel[1] * normal[1] + vel[2] * normal[2]
+            collisionEvent(hitPoint, normalSpeed, i)
+
+            if (colliderData[o + 10] > 0.5) {
+              kill(hitPoint)
+            } else {
+              pos.set(hitPoint)
+              if (normalSpeed < 0) {
+                // Reflect the normal part with bounce, damp the tangent part with friction
+                const bounce = colliderData[o + 8]
+                const friction = colliderData[o + 9]
+                for (let c = 0; c < 3; c++) {
+                  const tangent = vel[c] - normal[c] * normalSpeed
+                  vel[c] = tangent * friction - normal[c] * normalSpeed * bounce
+                }
+              }
+            }
+          }
+        }
+      }
+
+      // Collision may have killed the particle
+      if (lifetimes[idx] <= 0) continue
+
+      // Rotation speed is per particle index, not per spawn
+      const rotationMultiplier = p.rotationSpeedCurve
+        ? sampleCurve(p.rotationSpeedCurve, progress)
+        : 1
+      const [sx, sy, sz] = p.rotationSpeed
+      rotations[i3] += mix(sx[0], sx[1], hash(idx + 8888)) * dt * rotationMultiplier
+      rotations[i3 + 1] += mix(sy[0], sy[1], hash(idx + 9999)) * dt * rotationMultiplier
+      rotations[i3 + 2] += mix(sz[0], sz[1], hash(idx + 10101)) * dt * rotationMultiplier
+
+      lifetimes[idx] -= fadeRates[idx] * dt
+      if (lifetimes[idx] <= 0) {
+        appendEvent(ParticleEventType.DEATH, idx, pos, vel, 1)
+        lifetimes[idx] = 0
+        pos[1] = -1000
+      }
+    }
+  }
+
+  const update = (delta: number) => {
+    turbulenceTime += delta * (params.turbulence?.speed ?? 1)
+    simulate(delta)
+
+    if (!emitting) return
+    if (!params.delay) {
+      spawn(0, 0, 0, params.emitCount)
+    } else {
+      emitAccumulator += delta
+      if (emitAccumulator >= params.delay) {
+        emitAccumulator -= params.delay
+        spawn(0, 0, 0, params.emitCount)
+      }
+    }
+  }
+
+  return {
+    maxParticles,
+    buffers,
+    spawn,
+    update,
+    start() {
+      emitting = true
+      emitAccumulator = 0
+    },
+    stop() {
+      emitting = false
+    },
+    get isEmitting() {
+      return emitting
+    },
+    clear() {
+      buffers.lifetimes.fill(0)
+      for (let i = 0; i < maxParticles; i++) buffers.positions[i * 3 + 1] = -1000
+      nextIndex = 0
+      resetRandom()
+    },
+    setProps,
+    readEvents() {
+      const result = events
+      events = []
+      return result
+    },
+    getAliveCount() {
+      let count = 0
+      for (let i = 0; i < maxParticles; i++) if (buffers.lifetimes[i] > 0) count++
+      return count
+    },
+  }
+}
@@ -1,6 +1,14 @@
 import * as THREE from 'three/webgpu'
 import { CURVE_RESOLUTION } from './constants'
-import type { CurveData, CurvePoint } from './types'
+import type {
+  ColorGradientConfig,
+  CurveData,
+  CurvePoint,
+  GradientStop,
+  Size3DConfig,
+  VelocityOverLifetimeConfig,
+} from './types'
+import { hexToRgb } from './utils'
 
 // Evaluate cubic bezier between two points with handles
 export const evaluateBezierSegment = (
@@ -146,6 +154,135 @@ export const createCombinedCurveTexture = (
   return tex
 }
 
+// Create a trail curve DataTexture sampled along the trail (0 = head, 1 = tail)
+// R = width curve, G = opacity curve (null curves taper linearly 1→0)
+export const createTrailCurveTexture = (
+  widthCurve: CurveData | undefined,
+  opacityCurve: CurveData | undefined
+): THREE.DataTexture => {
+  const widthData = bakeCurveToArray(widthCurve ?? null)
+  const opacityData = bakeCurveToArray(opacityCurve ?? null)
+
+  const rgba = new Float32Array(CURVE_RESOLUTION * 4)
+  for (let i = 0; i < CURVE_RESOLUTION; i++) {
+    rgba[i * 4] = widthData[i] // R - width
+    rgba[i * 4 + 1] = opacityData[i] // G - opacity
+    rgba[i * 4 + 2] = 1
+    rgba[i * 4 + 3] = 1
+  }
+
+  const tex = new THREE.DataTexture(rgba, CURVE_RESOLUTION, 1, THREE.RGBAFormat, THREE.FloatType)
+  tex.minFilter = THREE.LinearFilter
+  tex.magFilter = THREE.LinearFilter
+  tex.wrapS = THREE.ClampToEdgeWrapping
+  tex.needsUpdate = true
+  return tex
+}
+
+// Bake gradient stops to RGBA samples over lifetime (linear between stops)
+// Colors hold before the first and after the last stop, no stops = opaque white
+export const bakeGradientToArray = (
+  stops: GradientStop[],
+  resolution = CURVE_RESOLUTION
+): Float32Array => {
+  const data = new Float32Array(resolution * 4).fill(1)
+  if (!stops.length) return data
+
+  const sorted = [...stops].sort((a, b) => a.pos - b.pos)
+  const colors = sorted.map((stop) => [...hexToRgb(stop.color), stop.alpha ?? 1])
+
+  let next = 0
+  for (let i = 0; i < resolution; i++) {
+    const t = i / (resolution - 1)
+    while (next < sorted.length && sorted[next].pos <= t) next++
+
+    const a = Math.max(next - 1, 0)
+    const b = Math.min(next, sorted.length - 1)
+    const span = sorted[b].pos - sorted[a].pos
+    const f = span > 0 ? (t - sorted[a].pos) / span : 0
+    for (let c = 0; c < 4; c++) {
+      data[i * 4 + c] = colors[a][c] + (colors[b][c] - colors[a][c]) * f
+    }
+  }
+
+  return data
+}
+
+// Write a gradient into a texture from createGradientTexture
+// Row 0 = stops, row 1 = randomStops (or stops again)
+export const writeGradientTexture = (tex: THREE.DataTexture, gradient: ColorGradientConfig) => {
+  const rgba = tex.image.data as Float32Array
+  rgba.set(bakeGradientToArray(gradient.stops), 0)
+  rgba.set(bakeGradientToArray(gradient.randomStops ?? gradient.stops), CURVE_RESOLUTION * 4)
+  tex.needsUpdate = true
+}
+
+// Create a color gradient DataTexture (RGBA over lifetime, 2 rows for random blending)
+export const createGradientTexture = (gradient: ColorGradientConfig): THREE.DataTexture => {
+  const rgba = new Float32Array(CURVE_RESOLUTION * 4 * 2)
+  const tex = new THREE.DataTexture(rgba, CURVE_RESOLUTION, 2, THREE.RGBAFormat, THREE.FloatType)
+  tex.minFilter = THREE.LinearFilter
+  tex.magFilter = THREE.LinearFilter
+  tex.wrapS = THREE.ClampToEdgeWrapping
+  tex.wrapT = THREE.ClampToEdgeWrapping
+  writeGradientTexture(tex, gradient)
+  return tex
+}
+
+// Write up to 3 optional curves into the RGB channels of a curve texture (unset = 1)
+const writeOptionalCurves = (tex: THREE.DataTexture, curves: (CurveData | undefined)[]) => {
+  const rgba = tex.image.data as Float32Array
+  const baked = curves.map((curve) => (curve ? bakeCurveToArray(curve) : null))
+
+  for (let i = 0; i < CURVE_RESOLUTION; i++) {
+    rgba[i * 4] = baked[0]?.[i] ?? 1
+    rgba[i * 4 + 1] = baked[1]?.[i] ?? 1
+    rgba[i * 4 + 2] = baked[2]?.[i] ?? 1
+    rgba[i * 4 + 3] = 1
+  }
+  tex.needsUpdate = true
+}
+
+const createOptionalCurveTexture = () => {
+  const rgba = new Float32Array(CURVE_RESOLUTION * 4)
+  const tex = new THREE.DataTexture(rgba, CURVE_RESOLUTION, 1, THREE.RGBAFormat, THREE.FloatType)
+  tex.minFilter = THREE.LinearFilter
+  tex.magFilter = THREE.LinearFilter
+  tex.wrapS = THREE.ClampToEdgeWrapping
+  return tex
+}
+
+// Write per-axis size curves into a texture from createSize3DCurveTexture
+// R = X, G = Y, B = Z (axes without a curve stay at 1)
+export const writeSize3DCurveTexture = (tex: THREE.DataTexture, size3D: Size3DConfig) => {
+  writeOptionalCurves(tex, [size3D.x, size3D.y, size3D.z])
+}
+
+// Create the per-axis size curve DataTexture (second curve texture next to the combined one)
+export const createSize3DCurveTexture = (size3D: Size3DConfig): THREE.DataTexture => {
+  const tex = createOptionalCurveTexture()
+  writeSize3DCurveTexture(tex, size3D)
+  return tex
+}
+
+// Write velocity over lifetime curves into a texture from createVelocityCurveTexture
+// R = linear, G = orbital, B = radial (unset curves stay at 1)
+export const writeVelocityCurveTexture = (
+  tex: THREE.DataTexture,
+  velocity: VelocityOverLifetimeConfig
+) => {
+  writeOptionalCurves(tex, [velocity.linearCurve, velocity.orbitalCurve, velocity.radialCurve])
+}
+
+// Create the velocity over lifetime curve DataTexture
+export const createVelocityCurveTexture = (
+  velocity: VelocityOverLifetimeConfig
+): THREE.DataTexture => {
+  const tex = createOptionalCurveTexture()
+  writeVelocityCurveTexture(tex, velocity)
+  return tex
+}
+
 // Default linear curve: starts at 1, ends at 0 (fade out behavior)
 // Curve Y-value is the DIRECT multiplier: y=1 means full, y=0 means none
 export const DEFAULT_LINEAR_CURVE = {
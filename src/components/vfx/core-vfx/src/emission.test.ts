@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { createEmissionScheduler } from './emission'
+
+// Random source returning the given values in turn
+const sequence = (...values: number[]) => {
+  let index = 0
+  return () => values[index++ % values.length]
+}
+
+// Total emitted over a number of equal frames
+const emitFrames = (
+  scheduler: ReturnType<typeof createEmissionScheduler>,
+  frames: number,
+  delta: number
+) => {
+  let count = 0
+  for (let i = 0; i < frames; i++) count += scheduler.update(delta)
+  return count
+}
+
+describe('createEmissionScheduler', () => {
+  it('repeats bursts with cycles 0 until the end of the cycle', () => {
+    const scheduler = createEmissionScheduler({
+      duration: 1,
+      loop: true,
+      bursts: [{ time: 0.5, count: 1, interval: 0.1, cycles: 0 }],
+    })
+
+    expect(scheduler.update(0.5)).toBe(0)
+    expect(scheduler.update(0.5)).toBe(5) // 0.5, 0.6, 0.7, 0.8, 0.9
+    // Each cycle restarts its bursts
+    expect(scheduler.update(1)).toBe(5)
+  })
+
+  it('skips bursts that fail their probability roll', () => {
+    // Roll 0.2 passes (then 0 picks the count), roll 0.7 fails
+    const scheduler = createEmissionScheduler(
+      { duration: 1, bursts: [{ time: 0, count: 3, interval: 0.5, cycles: 2, probability: 0.5 }] },
+      sequence(0.2, 0, 0.7)
+    )
+
+    expect(scheduler.update(1)).toBe(3)
+  })
+
+  it('waits for the start delay, also after a restart', () => {
+    const scheduler = createEmissionScheduler({ duration: 1, rate: 10, startDelay: 0.5 })
+
+    expect(scheduler.update(0.5)).toBe(0)
+    expect(scheduler.update(0.5)).toBe(5)
+
+    scheduler.restart()
+    expect(scheduler.time).toBe(-0.5)
+    expect(scheduler.update(0.25)).toBe(0)
+    expect(scheduler.update(0.5)).toBe(2)
+  })
+
+  it('integrates the rate curve over the cycle', () => {
+    // Rate ramps from 0 to 100/s over the cycle: 50 particles in total
+    const scheduler = createEmissionScheduler({
+      duration: 1,
+      rate: 100,
+      rateCurve: { points: [{ pos: [0, 0] }, { pos: [1, 1] }] },
+    })
+
+    const firstHalf = emitFrames(scheduler, 4, 0.125)
+    const secondHalf = emitFrames(scheduler, 4, 0.125)
+    expect(firstHalf).toBe(12) // 12.5, the half particle carries over
+    expect(firstHalf + secondHalf).toBe(50)
+  })
+
+  it('is a one-shot with a duration unless it loops', () => {
+    const oneShot = createEmissionScheduler({ duration: 1, rate: 10 })
+    expect(oneShot.update(1.5)).toBe(10)
+    expect(oneShot.isFinished).toBe(true)
+    expect(oneShot.update(1)).toBe(0)
+
+    const looping = createEmissionScheduler({ duration: 1, rate: 10, loop: true })
+    expect(looping.update(1.5)).toBe(15)
+    expect(looping.isFinished).toBe(false)
+  })
+
+  it('loops without a duration', () => {
+    const scheduler = createEmissionScheduler({ rate: 10 })
+
+    expect(emitFrames(scheduler, 6, 1)).toBe(60) // past the default 5s cycle
+    expect(scheduler.isFinished).toBe(false)
+    expect(scheduler.time).toBeCloseTo(1)
+  })
+})
@@ -0,0 +1,113 @@
+import { sampleCurveAtX } from './curves'
+import type { EmissionBurst, EmissionConfig } from './types'
+import { toRange } from './utils'
+
+export type EmissionScheduler = {
+  /** Advance by delta seconds, returns the number of particles to emit this frame */
+  update: (delta: number) => number
+  /** Start over from the start delay */
+  restart: () => void
+  /** Swap the config, keeping the current time */
+  setConfig: (config: EmissionConfig) => void
+  /** Time in the current cycle (negative during the start delay) */
+  readonly time: number
+  /** A non-looping schedule ran its whole duration */
+  readonly isFinished: boolean
+}
+
+// Fire times of a burst within a cycle
+const getBurstTimes = (burst: EmissionBurst, duration: number): number[] => {
+  const interval = Math.max(burst.interval ?? 0.1, 0.001)
+  // cycles 0 = repeat until the end of the cycle
+  const cycles =
+    burst.cycles === 0 ? Math.ceil((duration - burst.time) / interval) : (burst.cycles ?? 1)
+  const times: number[] = []
+  for (let i = 0; i < cycles; i++) times.push(burst.time + i * interval)
+  return times
+}
+
+// A schedule with a duration is a one-shot unless it asks to loop, without one it loops
+const isLooping = (config: EmissionConfig) => config.loop ?? config.duration === undefined
+
+/**
+ * Creates the emission schedule of a system or emitter: a continuous rate (shaped by the
+ * rate curve over each cycle) plus timed bursts, over cycles of `duration` seconds that
+ * loop or end. Call update once per frame and emit the returned count.
+ */
+export const createEmissionScheduler = (
+  initialConfig: EmissionConfig,
+  random: () => number = Math.random
+): EmissionScheduler => {
+  let config = initialConfig
+  let duration = 0
+  // Time in the current cycle, starts at -startDelay
+  let time = -(initialConfig.startDelay ?? 0)
+  let finished = false
+  // Fractions of particles carried over to the next frame
+  let rateRemainder = 0
+
+  const setConfig = (next: EmissionConfig) => {
+    config = next
+    duration = Math.max(next.duration ?? 5, 0.001)
+  }
+
+  // Rate multiplier at a cycle time
+  const rateAt = (cycleTime: number) =>
+    config.rateCurve?.points ? sampleCurveAtX(cycleTime / duration, config.rateCurve.points) : 1
+
+  // Particles emitted over [from, to) of one cycle
+  const emitBetween = (from: number, to: number) => {
+    rateRemainder += (config.rate ?? 0) * rateAt((from + to) / 2) * (to - from)
+    let count = Math.floor(rateRemainder)
+    rateRemainder -= count
+
+    for (const burst of config.bursts ?? []) {
+      for (const burstTime of getBurstTimes(burst, duration)) {
+        if (burstTime < from || burstTime >= to || burstTime >= duration) continue
+        if (random() >= (burst.probability ?? 1)) continue
+        const [min, max] = toRange(burst.count)
+        count += Math.round(min + (max - min) * random())
+      }
+    }
+    return count
+  }
+
+  const scheduler: EmissionScheduler = {
+    update(delta) {
+      if (finished || delta <= 0) return 0
+      const previous = time
+      time += delta
+      if (time <= 0) return 0
+
+      // Split the frame at cycle ends (each cycle restarts its bursts)
+      let from = Math.max(previous, 0)
+      let count = 0
+      while (time >= duration) {
+        count += emitBetween(from, duration)
+        if (!isLooping(config)) {
+          finished = true
+          time = duration
+          return count
+        }
+        time -= duration
+        from = 0
+      }
+      return count + emitBetween(from, time)
+    },
+    restart() {
+      time = -(config.startDelay ?? 0)
+      finished = false
+      rateRemainder = 0
+    },
+    setConfig,
+    get time() {
+      return time
+    },
+    get isFinished() {
+      return finished
+    },
+  }
+
+  setConfig(initialConfig)
+  return scheduler
+}
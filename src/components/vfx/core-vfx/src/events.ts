@@ -0,0 +1,86 @@
+import type * as THREE from 'three/webgpu'
+import { instancedArray } from 'three/tsl'
+import { MAX_PARTICLE_EVENTS, ParticleEventType } from './constants'
+import type { ParticleEventStorage } from './shaders/types'
+import { getSubEmitterTriggers } from './sub-emitters'
+import type { ParticleEventName, ParticleEventsConfig, SubEmitterConfig } from './types'
+
+const PARTICLE_EVENT_TYPES: Record<ParticleEventName, number> = {
+  birth: ParticleEventType.BIRTH,
+  death: ParticleEventType.DEATH,
+  collision: ParticleEventType.COLLISION,
+  attractorEnter: ParticleEventType.ATTRACTOR_ENTER,
+}
+
+const DEFAULT_PARTICLE_EVENTS: ParticleEventName[] = ['death', 'collision', 'attractorEnter']
+
+// A particle event decoded from the GPU event buffer
+export type ParticleEvent = {
+  type: number
+  index: number
+  position: [number, number, number]
+  velocity: [number, number, number]
+  color: [number, number, number]
+  progress: number
+  // Collider index (COLLISION) or attractor index (ATTRACTOR_ENTER), -1 for none / plane / scene depth
+  target: number
+}
+
+// Create the GPU buffers the compute shaders append events to
+export const createParticleEventStorage = (
+  maxEvents = MAX_PARTICLE_EVENTS
+): ParticleEventStorage => ({
+  data: instancedArray(maxEvents * 4, 'vec4'),
+  count: instancedArray(1, 'uint').toAtomic(),
+  maxEvents,
+})
+
+// Read back the events appended since the last call, then reset the buffer
+// The reset is dispatched right after the copy is submitted, so events appended
+// later in the frame land in the next readback instead of being lost
+export const readParticleEvents = async (
+  renderer: THREE.WebGPURenderer,
+  events: ParticleEventStorage,
+  resetCompute: THREE.ComputeNode
+): Promise<ParticleEvent[]> => {
+  const countRequest = renderer.getArrayBufferAsync(events.count.value)
+  const dataRequest = renderer.getArrayBufferAsync(events.data.value)
+  renderer.compute(resetCompute)
+
+  const [countBuffer, dataBuffer] = await Promise.all([countRequest, dataRequest])
+  const count = Math.min(new Uint32Array(countBuffer)[0], events.maxEvents)
+  const data = new Float32Array(dataBuffer)
+
+  const result: ParticleEvent[] = []
+  for (let i = 0; i < count; i++) {
+    const o = i * 16
+    result.push({
+      type: data[o + 3],
+      index: data[o + 7],
+      position: [data[o], data[o + 1], data[o + 2]],
+      velocity: [data[o + 4], data[o + 5], data[o + 6]],
+      color: [data[o + 8], data[o + 9], data[o + 10]],
+      progress: data[o + 11],
+      target: data[o + 12],
+    })
+  }
+  return result
+}
+
+// Event types delivered to onParticleEvent
+export const getParticleEventTypes = (config: ParticleEventsConfig | null | undefined): number[] =>
+  (config?.types ?? DEFAULT_PARTICLE_EVENTS).map((name) => PARTICLE_EVENT_TYPES[name])
+
+// Which events the compute shaders append: those of the sub-emitters plus the listener types
+export const getParticleEventTriggers = (
+  subEmitters: SubEmitterConfig[] | null | undefined,
+  listenerTypes: number[]
+) => {
+  const triggers = getSubEmitterTriggers(subEmitters)
+  return {
+    birth: triggers.birth || listenerTypes.includes(ParticleEventType.BIRTH),
+    death: triggers.death || listenerTypes.includes(ParticleEventType.DEATH),
+    collision: triggers.collision || listenerTypes.includes(ParticleEventType.COLLISION),
+    attractorEnter: listenerTypes.includes(ParticleEventType.ATTRACTOR_ENTER),
+  }
+}
@@ -0,0 +1,302 @@
+import * as THREE from 'three/webgpu'
+import { getAliveListDispatch } from './alive-list'
+import { getColliderCapacity, resolveColliders, writeColliders } from './colliders'
+import { MAX_PARTICLE_EVENTS_PER_FRAME, QUALITY_SETTINGS } from './constants'
+import { createEmissionScheduler, type EmissionScheduler } from './emission'
+import { getParticleEventTypes, readParticleEvents, type ParticleEvent } from './events'
+import type { ParticleLifecycle } from './lifecycle'
+import { computeLOD } from './lod'
+import { writeMeshEmitterMatrix, type MeshEmitterSource } from './mesh-emitter'
+import type { SceneDepth } from './scene-depth'
+import type { ParticleStorageArrays } from './shaders/types'
+import { getSortCameraPosition } from './sort'
+import { triggerSubEmitters } from './sub-emitters'
+import type {
+  CollisionConfig,
+  EmissionConfig,
+  LODConfig,
+  ParticleEventsConfig,
+  QualityLevel,
+  SubEmitterConfig,
+  TrailConfig,
+  TurbulenceConfig,
+} from './types'
+
+type Uniform<T> = { value: T }
+
+// Uniforms written every frame (same keys as the shader uniforms)
+export type ParticleFrameUniforms = {
+  deltaTime: Uniform<number>
+  turbulenceTime: Uniform<number>
+  lodSizeScale: Uniform<number>
+  trailHead: Uniform<number>
+  colliderCount: Uniform<number>
+  emitterMeshWorld: Uniform<number>
+  emitterMeshMatrix: Uniform<THREE.Matrix4>
+  emitterMeshNormalMatrix: Uniform<THREE.Matrix3>
+  sceneDepthSize: Uniform<THREE.Vector2>
+  sceneDepthView: Uniform<THREE.Matrix4>
+  sceneDepthProjection: Uniform<THREE.Matrix4>
+  sceneDepthProjectionInverse: Uniform<THREE.Matrix4>
+  sceneDepthCameraWorld: Uniform<THREE.Matrix4>
+  sortCameraPosition: Uniform<THREE.Vector3>
+}
+
+// Current values of the props a frame reads
+export type ParticleFrameProps = {
+  position?: [number, number, number]
+  delay?: number
+  emitCount?: number
+  emission?: EmissionConfig | null
+  turbulence?: TurbulenceConfig | null
+  collision?: CollisionConfig | null
+  trail?: TrailConfig | null
+  lod?: LODConfig | null
+  subEmitters?: SubEmitterConfig[] | null
+  particleEvents?: ParticleEventsConfig | null
+  onParticleEvent?: ((event: ParticleEvent) => void) | null
+}
+
+export type ParticleFrameInput = {
+  renderer: THREE.WebGPURenderer
+  /** Frame time in seconds */
+  delta: number
+  /** Camera used for LOD and sorting (both are skipped without it) */
+  camera: THREE.Camera | null
+  /** Object the particles are drawn with (LOD bounds, emitter mesh and sort space) */
+  object: THREE.Object3D
+  uniforms: ParticleFrameUniforms
+  storage: ParticleStorageArrays
+  computeUpdate: THREE.ComputeNode
+  computeCompact: THREE.ComputeNode[] | null
+  computeEventReset: THREE.ComputeNode | null
+  computeSort: THREE.ComputeNode[] | null
+  props: ParticleFrameProps
+  /** Source of the baked MESH emitter buffers (null without them) */
+  emitterMesh: MeshEmitterSource | null
+  emitting: boolean
+  quality: QualityLevel
+  sceneDepth: SceneDepth | null
+  /** Spawn count particles at (x, y, z) (auto emission) */
+  spawn: (x: number, y: number, z: number, count: number) => void
+  /** The emission schedule has finished, emission stops */
+  stop: () => void
+  /** Moving colliders outgrew the collider buffer: replace it with one of this capacity */
+  growColliders: (capacity: number) => void
+  /** False once the resources of this frame were replaced or disposed (the frame ends) */
+  isCurrent?: () => boolean
+}
+
+export type ParticleFrame = {
+  /** Simulate one frame and auto emit (initialized systems only) */
+  update: (input: ParticleFrameInput) => Promise<void>
+  /** Restart auto emission: interval and emission schedule start over (start()) */
+  restartEmission: () => void
+  /** Seconds simulated by the last frame: 0 while LOD skips it, the skipped time on catch-up */
+  readonly simulatedDelta: number
+}
+
+// Reusable temp vector for the LOD bounds center (avoid allocations in render loop)
+const _lodCenter = new THREE.Vector3()
+
+// Fire sub-emitters and the listener (which only gets the types it asked for)
+const dispatchParticleEvents = (events: ParticleEvent[], props: ParticleFrameProps) => {
+  const { subEmitters, onParticleEvent, particleEvents } = props
+  if (subEmitters) triggerSubEmitters(events, subEmitters)
+  if (!onParticleEvent) return
+
+  const types = getParticleEventTypes(particleEvents)
+  const maxPerFrame = particleEvents?.maxPerFrame ?? MAX_PARTICLE_EVENTS_PER_FRAME
+  events
+    .filter((event) => types.includes(event.type))
+    .slice(0, maxPerFrame)
+    .forEach((event) => onParticleEvent(event))
+}
+
+/**
+ * Creates the per-frame orchestration shared by VFXParticles and the vanilla ParticleSystem:
+ * LOD culling, trail head, moving colliders, scene depth, the update compute, event readback,
+ * auto emission, lifecycle and sorting. Holds the state carried between frames.
+ * @param lifecycle - Lifecycle of the system (advanced every frame, also while culled)
+ */
+export const createParticleFrame = (lifecycle: ParticleLifecycle): ParticleFrame => {
+  let emitAccumulator = 0
+  let emissionScheduler: EmissionScheduler | null = null
+  // LOD: frames and time skipped while culled, fractional emission carried over
+  let culledFrames = 0
+  let culledDelta = 0
+  let emitRemainder = 0
+  let simulatedDelta = 0
+  let trailAccumulator = 0
+  let eventReadPending = false
+
+  // Emission scaled by quality and LOD, fractions carry over to the next emit
+  const scaleEmitCount = (count: number, emissionScale: number) => {
+    emitRemainder += count * emissionScale
+    const scaled = Math.floor(emitRemainder)
+    emitRemainder -= scaled
+    return scaled
+  }
+
+  // Auto emission (emitCount every frame or every delay seconds, or the emission schedule)
+  // Returns false when the emission schedule has finished
+  const emit = (input: ParticleFrameInput, delta: number, emissionScale: number) => {
+    const { props, spawn } = input
+    const [px, py, pz] = props.position ?? [0, 0, 0]
+    const { delay, emitCount = 1, emission } = props
+
+    if (emission) {
+      // Emission schedule (created on first use, restarted by restartEmission())
+      if (!emissionScheduler) emissionScheduler = createEmissionScheduler(emission)
+      const scheduler = emissionScheduler
+      scheduler.setConfig(emission)
+      const count = scaleEmitCount(scheduler.update(delta), emissionScale)
+      if (count > 0) spawn(px, py, pz, count)
+      return !scheduler.isFinished
+    }
+    if (!delay) {
+      // delay = 0 or undefined → emit every frame
+      spawn(px, py, pz, scaleEmitCount(emitCount, emissionScale))
+    } else {
+      // delay > 0 → emit every X seconds
+      emitAccumulator += delta
+      if (emitAccumulator >= delay) {
+        emitAccumulator -= delay
+        spawn(px, py, pz, scaleEmitCount(emitCount, emissionScale))
+      }
+    }
+    return true
+  }
+
+  return {
+    async update(input) {
+      const { renderer, delta, camera, object, uniforms, storage, props } = input
+      const isCurrent = input.isCurrent ?? (() => true)
+
+      // Follow the emitter mesh's transform (a moved / scaled mesh spawns where it is)
+      if (input.emitterMesh) {
+        const placed = writeMeshEmitterMatrix(
+          input.emitterMesh,
+          object,
+          uniforms.emitterMeshMatrix.value,
+          uniforms.emitterMeshNormalMatrix.value
+        )
+        uniforms.emitterMeshWorld.value = placed ? 1 : 0
+      }
+
+      // LOD: skip or throttle the update while culled, scale emission and size with distance
+      let emissionScale = QUALITY_SETTINGS[input.quality].emissionScale
+      let frameDelta = delta
+      if (props.lod && camera) {
+        _lodCenter.fromArray(props.position ?? [0, 0, 0]).applyMatrix4(object.matrixWorld)
+        const lodState = computeLOD(camera, _lodCenter, props.lod, input.quality)
+        emissionScale = lodState.emissionScale
+        uniforms.lodSizeScale.value = lodState.sizeScale
+
+        if (!lodState.visible) {
+          const interval = props.lod.culledUpdateInterval ?? 4
+          culledFrames++
+          if (interval <= 0 || culledFrames < interval) {
+            if (interval > 0) culledDelta += delta
+            // Particles keep expiring off-screen: burst promises and onComplete still resolve
+            lifecycle.update(delta, input.emitting)
+            simulatedDelta = 0
+            return
+          }
+        }
+        // Catch up the time skipped while throttled
+        frameDelta += culledDelta
+        culledDelta = 0
+        culledFrames = 0
+      } else {
+        uniforms.lodSizeScale.value = 1
+      }
+
+      // Update deltaTime uniform for framerate independence
+      uniforms.deltaTime.value = frameDelta
+      simulatedDelta = frameDelta
+
+      // Update turbulence time (animated noise field)
+      uniforms.turbulenceTime.value += frameDelta * (props.turbulence?.speed ?? 1)
+
+      // Advance the trail ring buffer (every frame, or every trail.interval seconds)
+      if (storage.trail) {
+        trailAccumulator += frameDelta
+        const interval = props.trail?.interval ?? 0
+        if (trailAccumulator >= interval) {
+          trailAccumulator = interval > 0 ? trailAccumulator % interval : 0
+          uniforms.trailHead.value = (uniforms.trailHead.value + 1) % storage.trail.length
+        }
+      }
+
+      // Moving colliders: refresh the collider buffer before simulating
+      const { collision } = props
+      const colliderStorage = storage.colliders
+      if (colliderStorage && typeof collision?.colliders === 'function') {
+        const colliders = resolveColliders(collision)
+        // The larger buffer is used from the next frame, this one keeps what fits
+        if (colliders.length > colliderStorage.maxColliders) {
+          input.growColliders(getColliderCapacity(colliders.length))
+        }
+        uniforms.colliderCount.value = writeColliders(colliderStorage, colliders, collision)
+      }
+
+      // Depth collision: use the camera the scene depth was last rendered with
+      const depth = input.sceneDepth
+      if (depth && collision?.depth) {
+        const image = depth.texture.image as { width: number; height: number }
+        uniforms.sceneDepthSize.value.set(image.width, image.height)
+        uniforms.sceneDepthView.value.copy(depth.viewMatrix)
+        uniforms.sceneDepthProjection.value.copy(depth.projectionMatrix)
+        uniforms.sceneDepthProjectionInverse.value.copy(depth.projectionMatrixInverse)
+        uniforms.sceneDepthCameraWorld.value.copy(depth.cameraMatrixWorld)
+      }
+
+      // Update particles
+      if (storage.aliveList && input.computeCompact) {
+        // Live particles only, then rebuild the alive list right away (no spawn in between)
+        renderer.computeAsync(input.computeUpdate, getAliveListDispatch(storage.aliveList))
+        await renderer.computeAsync(input.computeCompact)
+      } else {
+        await renderer.computeAsync(input.computeUpdate)
+      }
+      if (!isCurrent()) return
+
+      // Read back particle events, fire sub-emitters and the listener (one readback in flight at a time)
+      if (storage.events && input.computeEventReset && !eventReadPending) {
+        eventReadPending = true
+        readParticleEvents(renderer, storage.events, input.computeEventReset)
+          .then((events: ParticleEvent[]) => {
+            if (isCurrent()) dispatchParticleEvents(events, props)
+          })
+          .finally(() => {
+            eventReadPending = false
+          })
+      }
+
+      // Auto emit if enabled
+      let emitting = input.emitting
+      if (emitting && !emit(input, frameDelta, emissionScale)) {
+        emitting = false
+        input.stop()
+      }
+
+      // Estimated deaths: resolve finished bursts, fire onAllDead / onComplete
+      // (real time: skipped frames were already counted)
+      lifecycle.update(delta, emitting)
+
+      // Sort the draw order, including this frame's spawns
+      if (input.computeSort && camera) {
+        getSortCameraPosition(camera, object, uniforms.sortCameraPosition.value)
+        renderer.computeAsync(input.computeSort)
+      }
+    },
+    restartEmission() {
+      emitAccumulator = 0
+      emissionScheduler?.restart()
+    },
+    get simulatedDelta() {
+      return simulatedDelta
+    },
+  }
+}
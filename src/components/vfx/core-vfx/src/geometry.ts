@@ -0,0 +1,95 @@
+import * as THREE from 'three/webgpu'
+
+// Serializable description of a built-in three.js geometry (used by presets)
+export type GeometryDescriptor = {
+  type: GeometryDescriptorType
+  args?: Record<string, number>
+}
+
+export type GeometryDescriptorType = keyof typeof GEOMETRY_ARGS
+
+// Constructor argument names (in order) and defaults for each geometry type
+const GEOMETRY_ARGS = {
+  box: {
+    width: 1,
+    height: 1,
+    depth: 1,
+    widthSegments: 1,
+    heightSegments: 1,
+    depthSegments: 1,
+  },
+  sphere: { radius: 0.5, widthSegments: 16, heightSegments: 12 },
+  cylinder: {
+    radiusTop: 0.5,
+    radiusBottom: 0.5,
+    height: 1,
+    radialSegments: 16,
+    heightSegments: 1,
+  },
+  cone: { radius: 0.5, height: 1, radialSegments: 16, heightSegments: 1 },
+  torus: { radius: 0.5, tube: 0.2, radialSegments: 12, tubularSegments: 24 },
+  plane: { width: 1, height: 1, widthSegments: 1, heightSegments: 1 },
+  circle: { radius: 0.5, segments: 16 },
+  ring: { innerRadius: 0.25, outerRadius: 0.5, thetaSegments: 16 },
+  dodecahedron: { radius: 0.5, detail: 0 },
+  icosahedron: { radius: 0.5, detail: 0 },
+  octahedron: { radius: 0.5, detail: 0 },
+  tetrahedron: { radius: 0.5, detail: 0 },
+  capsule: { radius: 0.25, length: 0.5, capSegments: 4, radialSegments: 8 },
+} as const
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type GeometryConstructor = new (...args: any[]) => THREE.BufferGeometry
+
+const GEOMETRY_CONSTRUCTORS: Record<GeometryDescriptorType, GeometryConstructor> = {
+  box: THREE.BoxGeometry,
+  sphere: THREE.SphereGeometry,
+  cylinder: THREE.CylinderGeometry,
+  cone: THREE.ConeGeometry,
+  torus: THREE.TorusGeometry,
+  plane: THREE.PlaneGeometry,
+  circle: THREE.CircleGeometry,
+  ring: THREE.RingGeometry,
+  dodecahedron: THREE.DodecahedronGeometry,
+  icosahedron: THREE.IcosahedronGeometry,
+  octahedron: THREE.OctahedronGeometry,
+  tetrahedron: THREE.TetrahedronGeometry,
+  capsule: THREE.CapsuleGeometry,
+}
+
+export const GEOMETRY_DESCRIPTOR_TYPES = Object.keys(GEOMETRY_ARGS) as GeometryDescriptorType[]
+
+// Create a geometry from a descriptor (missing args use the type defaults)
+export const createGeometryFromDescriptor = (
+  descriptor: GeometryDescriptor
+): THREE.BufferGeometry => {
+  const defaults = GEOMETRY_ARGS[descriptor.type]
+  const Geometry = GEOMETRY_CONSTRUCTORS[descriptor.type]
+  if (!defaults || !Geometry) {
+    throw new Error(`Unknown geometry type: ${descriptor.type}`)
+  }
+
+  const args = Object.entries(defaults).map(([name, value]) => descriptor.args?.[name] ?? value)
+  return new Geometry(...args)
+}
+
+// Describe a built-in geometry, or return null for custom geometries
+export const geometryToDescriptor = (
+  geometry: THREE.BufferGeometry | null | undefined
+): GeometryDescriptor | null => {
+  if (!geometry) return null
+
+  // Match on the geometry type name (ConeGeometry extends CylinderGeometry, so no instanceof)
+  const type = GEOMETRY_DESCRIPTOR_TYPES.find((t) => geometry.type.toLowerCase() === `${t}geometry`)
+  if (!type) return null
+
+  // Built-in geometries keep their constructor arguments in `parameters`
+  const parameters = (geometry as THREE.BufferGeometry & { parameters?: Record<string, unknown> })
+    .parameters
+  const args: Record<string, number> = {}
+  for (const name of Object.keys(GEOMETRY_ARGS[type])) {
+    const value = parameters?.[name]
+    if (typeof value === 'number') args[name] = value
+  }
+  return { type, args }
+}
@@ -1,4 +1,10 @@
-export { type CoreState, coreStore } from './core-store'
+export {
+  type CoreState,
+  type EmitOptions,
+  type ParamEasing,
+  type ParticleSystemRef,
+  coreStore,
+} from './core-store'
 
 // Constants
 export {
@@ -6,10 +12,22 @@ export {
   Blending,
   EmitterShape,
   AttractorType,
+  AttractorFalloff,
+  ColliderType,
+  ParticleEventType,
   Easing,
   Lighting,
+  BillboardLighting,
+  FlipbookMode,
+  SortMode,
   MAX_ATTRACTORS,
+  MAX_COLLIDERS,
   CURVE_RESOLUTION,
+  MESH_EMITTER_LOOKUP_SIZE,
+  MAX_PARTICLE_EVENTS,
+  MAX_PARTICLE_EVENTS_PER_FRAME,
+  MAX_TRAIL_LENGTH,
+  QUALITY_SETTINGS,
 } from './constants'
 
 // Types
@@ -19,22 +37,49 @@ export type {
   Rotation3DInput,
   ParticleData,
   TurbulenceConfig,
+  VectorFieldData,
+  VectorFieldConfig,
   AttractorConfig,
   CollisionConfig,
+  ColliderConfig,
   FrictionConfig,
+  Size3DConfig,
+  VelocityOverLifetimeConfig,
+  GradientStop,
+  ColorGradientConfig,
   FlipbookConfig,
+  SixWayLightmapConfig,
   StretchConfig,
+  SubEmitterConfig,
+  SequenceAction,
+  SequenceEvent,
+  SequenceConfig,
+  SequenceTrigger,
+  ParticleEventName,
+  ParticleEventsConfig,
+  TrailConfig,
   BaseParticleProps,
+  SpawnMotionOverrides,
+  LODConfig,
+  QualityLevel,
+  EmissionBurst,
+  EmissionConfig,
 } from './types'
 
 // Utilities
 export {
   hexToRgb,
+  rgbToHex,
   toRange,
   easingToType,
+  applyEasing,
   axisToNumber,
   toRotation3D,
   lifetimeToFadeRate,
+  createSeededRandom,
+  toSpawnSeed,
+  rotateFromYUp,
+  getLinearVelocity,
 } from './utils'
 
 // Curve utilities
@@ -43,19 +88,185 @@ export {
   sampleCurveAtX,
   bakeCurveToArray,
   createCombinedCurveTexture,
+  createTrailCurveTexture,
   createDefaultCurveTexture,
+  bakeGradientToArray,
+  createGradientTexture,
+  writeGradientTexture,
+  createSize3DCurveTexture,
+  writeSize3DCurveTexture,
+  createVelocityCurveTexture,
+  writeVelocityCurveTexture,
   loadCurveTextureFromPath,
   DEFAULT_LINEAR_CURVE,
 } from './curves'
 
+// Mesh emitter utilities
+export {
+  bakeMeshEmitter,
+  getMeshEmitterTriangleCount,
+  writeMeshEmitterMatrix,
+  type MeshEmitterData,
+  type MeshEmitterSource,
+} from './mesh-emitter'
+
+// Geometry descriptors
+export {
+  createGeometryFromDescriptor,
+  geometryToDescriptor,
+  GEOMETRY_DESCRIPTOR_TYPES,
+  type GeometryDescriptor,
+  type GeometryDescriptorType,
+} from './geometry'
+
+// Presets (versioned JSON)
+export {
+  PRESET_VERSION,
+  PresetError,
+  createPreset,
+  serializePreset,
+  parsePreset,
+  migratePreset,
+  presetToProps,
+  loadPreset,
+  loadPresetTexture,
+  validateParticleProp,
+  type VFXPreset,
+  type PresetParticleProps,
+  type TextureReference,
+} from './preset'
+
+// Colliders
+export {
+  createColliderStorage,
+  getColliderCapacity,
+  packColliders,
+  writeColliders,
+  resolveColliders,
+  hasCollisionPlane,
+} from './colliders'
+
+// Attractors
+export {
+  createAttractorStorage,
+  getAttractorCapacity,
+  packAttractors,
+  writeAttractors,
+} from './attractors'
+
+// Vector fields
+export {
+  parseFGA,
+  parseVectorFieldJSON,
+  loadVectorField,
+  createVectorFieldTexture,
+} from './vector-field'
+
+// Scene depth (depth-buffer collision)
+export { createSceneDepth, updateSceneDepth, type SceneDepth } from './scene-depth'
+
+// Trails
+export { createTrailGeometry, getTrailLength } from './trail'
+
+// Alive list (compaction, indirect draw)
+export { createAliveListStorage, setAliveListDraw, getAliveListDispatch } from './alive-list'
+
+// Particle sorting (draw order for normal blending)
+export { createSortStorage, isSortEnabled, getSortCameraPosition } from './sort'
+
+// Particle events (GPU -> CPU readback)
+export {
+  createParticleEventStorage,
+  readParticleEvents,
+  getParticleEventTypes,
+  getParticleEventTriggers,
+  type ParticleEvent,
+} from './events'
+
+// Sub-emitters
+export {
+  triggerSubEmitters,
+  getSubEmitterTriggers,
+  getSubEmitterEmitOptions,
+  subEmitterTriggerToEventType,
+} from './sub-emitters'
+
+// Level of detail (frustum / distance culling, quality)
+export { computeLOD, type LODState } from './lod'
+
+// Sequences (timelines of emits, tweens and callbacks)
+export { createSequencePlayer, getSequenceDuration, type SequencePlayer } from './sequence'
+
+// Emission scheduling (duration, rate over time, bursts)
+export { createEmissionScheduler, type EmissionScheduler } from './emission'
+
+// Runtime params (coreStore.setParam / tweenParam)
+export {
+  RUNTIME_PARAMS,
+  REBUILD_PARAMS,
+  isRuntimeParam,
+  isRebuildParam,
+  lerpParam,
+  type ParticleParamKey,
+  type ParticleParams,
+} from './params'
+
+// Lifecycle (completion callbacks and promises)
+export {
+  createParticleLifecycle,
+  type LifecycleCallbacks,
+  type ParticleLifecycle,
+} from './lifecycle'
+
+// Per-frame orchestration shared by VFXParticles and the vanilla ParticleSystem
+export {
+  createParticleFrame,
+  type ParticleFrame,
+  type ParticleFrameInput,
+  type ParticleFrameProps,
+  type ParticleFrameUniforms,
+} from './frame'
+
+// CPU simulation (headless reference backend)
+export {
+  createCPUSimulation,
+  hash,
+  perlinNoiseVec3,
+  type CPUParticleBuffers,
+  type CPUParticleSimulation,
+  type CPUSimulationOptions,
+} from './cpu'
+
 // Shader factories
 export {
   createInitCompute,
   createSpawnCompute,
   createUpdateCompute,
   createParticleMaterial,
+  createTrailMaterial,
+  createEventResetCompute,
+  appendParticleEvent,
+  createCompactCompute,
+  createAliveListArgsCompute,
+  appendAliveParticle,
+  createSortCompute,
+  createFlipbookSampler,
   selectColor,
 } from './shaders'
 
 // Shader types
-export type { ParticleStorageArrays, ParticleUniforms, MaterialOptions, ShaderFeatures } from './shaders'
+export type {
+  ParticleStorageArrays,
+  ParticleUniforms,
+  MaterialOptions,
+  ShaderFeatures,
+  MeshEmitterStorage,
+  ParticleEventStorage,
+  TrailStorage,
+  ColliderStorage,
+  AttractorStorage,
+  AliveListStorage,
+  SortStorage,
+  FlipbookParticle,
+  UpdateComputeTextures,
+} from './shaders'
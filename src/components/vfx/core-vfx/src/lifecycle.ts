@@ -0,0 +1,88 @@
+export type LifecycleCallbacks = {
+  /** Every particle spawned so far has expired */
+  onAllDead?: (() => void) | null
+  /** Emission stopped and every particle has expired (fires once per run) */
+  onComplete?: (() => void) | null
+}
+
+export type ParticleLifecycle = {
+  /** Record a spawn living at most maxLifetime seconds, returns its expiry time */
+  track: (maxLifetime: number) => number
+  /** Promise resolved once the lifecycle time reaches `time` (a track() result) */
+  waitUntil: (time: number) => Promise<void>
+  /** Advance by the frame delta (also while culled), fires callbacks, resolves due promises */
+  update: (delta: number, emitting: boolean) => void
+  /** Every particle was removed: resolve all promises, callbacks fire on the next update */
+  clear: () => void
+  /** Resolve pending promises without callbacks (system unmounted) */
+  dispose: () => void
+  setCallbacks: (callbacks: LifecycleCallbacks) => void
+  /** Some tracked particle may still be alive */
+  readonly hasAlive: boolean
+}
+
+/**
+ * Creates the CPU-side lifecycle of a particle system: estimates when the last particle
+ * dies from the max lifetime of each spawn (no GPU readback), fires onAllDead / onComplete
+ * and resolves the promises returned for bursts. Advance it every frame with the real time,
+ * including frames where the GPU update is skipped.
+ */
+export const createParticleLifecycle = (
+  initialCallbacks: LifecycleCallbacks = {}
+): ParticleLifecycle => {
+  let callbacks = initialCallbacks
+  let time = 0
+  // Expiry time of the longest-living particle, -1 = none alive
+  let aliveUntil = -1
+  // Particles were spawned since the last onComplete
+  let active = false
+  let pending: { until: number; resolve: () => void }[] = []
+
+  const resolveDue = (all: boolean) => {
+    if (!pending.length) return
+    const due = all ? pending : pending.filter((entry) => entry.until <= time)
+    if (!due.length) return
+    pending = all ? [] : pending.filter((entry) => entry.until > time)
+    due.forEach((entry) => entry.resolve())
+  }
+
+  return {
+    track(maxLifetime) {
+      const until = time + Math.max(maxLifetime, 0)
+      aliveUntil = Math.max(aliveUntil, until)
+      active = true
+      return until
+    },
+    waitUntil(until) {
+      if (until <= time) return Promise.resolve()
+      return new Promise<void>((resolve) => {
+        pending.push({ until, resolve })
+      })
+    },
+    update(delta, emitting) {
+      time += delta
+      resolveDue(false)
+      if (aliveUntil >= 0 && time >= aliveUntil) {
+        aliveUntil = -1
+        callbacks.onAllDead?.()
+      }
+      if (active && !emitting && aliveUntil < 0) {
+        active = false
+        callbacks.onComplete?.()
+      }
+    },
+    clear() {
+      if (aliveUntil >= 0) aliveUntil = time
+      resolveDue(true)
+    },
+    dispose() {
+      resolveDue(true)
+    },
+    setCallbacks(next) {
+      callbacks = next
+    },
+    get hasAlive() {
+      return aliveUntil >= 0
+    },
+  }
+}
@@ -0,0 +1,54 @@
+import * as THREE from 'three/webgpu'
+import { QUALITY_SETTINGS } from './constants'
+import type { LODConfig, QualityLevel } from './types'
+
+export type LODState = {
+  /** False when the bounds are outside the camera frustum or past the cull distance */
+  visible: boolean
+  /** Camera distance to the bounds center */
+  distance: number
+  /** Emission multiplier (quality x distance) */
+  emissionScale: number
+  /** Particle size multiplier */
+  sizeScale: number
+}
+
+// Reusable temp objects (called every frame per system)
+const _frustum = new THREE.Frustum()
+const _viewProjection = new THREE.Matrix4()
+const _sphere = new THREE.Sphere()
+const _cameraPos = new THREE.Vector3()
+
+/**
+ * Level of detail of a particle system seen from a camera
+ * @param camera - Camera with up-to-date world and projection matrices
+ * @param center - World-space center of the system bounds
+ * @param lod - LOD settings (distances are scaled by the quality level)
+ * @param quality - Global quality level
+ */
+export const computeLOD = (
+  camera: THREE.Camera,
+  center: THREE.Vector3,
+  lod: LODConfig,
+  quality: QualityLevel = 'high'
+): LODState => {
+  const { emissionScale, distanceScale } = QUALITY_SETTINGS[quality]
+  const [near, far] = (lod.distance ?? [10, 50]).map((d) => d * distanceScale)
+  const cullDistance = (lod.cullDistance ?? Infinity) * distanceScale
+
+  const distance = _cameraPos.setFromMatrixPosition(camera.matrixWorld).distanceTo(center)
+  _viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+  _frustum.setFromProjectionMatrix(_viewProjection, camera.coordinateSystem)
+  const inFrustum = _frustum.intersectsSphere(_sphere.set(center, lod.radius ?? 5))
+
+  // 0 = full detail, 1 = lowest detail
+  const t =
+    far > near ? THREE.MathUtils.clamp((distance - near) / (far - near), 0, 1) : +(distance > near)
+
+  return {
+    visible: inFrustum && distance <= cullDistance,
+    distance,
+    emissionScale: emissionScale * THREE.MathUtils.lerp(1, lod.farEmission ?? 0.25, t),
+    sizeScale: THREE.MathUtils.lerp(1, lod.farSize ?? 1, t),
+  }
+}
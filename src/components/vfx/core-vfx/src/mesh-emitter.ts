@@ -0,0 +1,134 @@
+import * as THREE from 'three/webgpu'
+import { MESH_EMITTER_LOOKUP_SIZE } from './constants'
+
+// Baked triangle data for the MESH emitter shape
+// - triangles: 3 vertices per triangle (a, b, c), xyz each
+// - normals: 1 face normal per triangle, xyz
+// - lookup: triangle indices distributed proportionally to triangle area,
+//   so a uniform random pick in the lookup gives an area-weighted triangle
+export type MeshEmitterData = {
+  triangles: Float32Array
+  normals: Float32Array
+  lookup: Float32Array
+  triangleCount: number
+  totalArea: number
+}
+
+// Anything the MESH emitter can sample from
+// Meshes (including SkinnedMesh) are sampled in the pose they have when baked (getVertexPosition);
+// their world transform is applied every frame, but skinned / morph animation needs a re-bake
+export type MeshEmitterSource = THREE.BufferGeometry | THREE.Mesh
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _c = new THREE.Vector3()
+const _ab = new THREE.Vector3()
+const _ac = new THREE.Vector3()
+const _spaceInverse = new THREE.Matrix4()
+
+// Get the number of triangles described by a geometry (indexed or not)
+export const getMeshEmitterTriangleCount = (source: MeshEmitterSource): number => {
+  const geometry = (source as THREE.Mesh).isMesh ? (source as THREE.Mesh).geometry : source
+  const geo = geometry as THREE.BufferGeometry
+  const position = geo.getAttribute('position')
+  if (!position) return 0
+  return Math.floor((geo.index ? geo.index.count : position.count) / 3)
+}
+
+// Bake a geometry or mesh into triangle + area lookup arrays for GPU sampling
+// Pass `target` to refill existing arrays in place (e.g. re-sampling a skinned pose)
+export const bakeMeshEmitter = (
+  source: MeshEmitterSource,
+  lookupSize = MESH_EMITTER_LOOKUP_SIZE,
+  target?: MeshEmitterData
+): MeshEmitterData => {
+  const mesh = (source as THREE.Mesh).isMesh ? (source as THREE.Mesh) : null
+  const geometry = (mesh ? mesh.geometry : source) as THREE.BufferGeometry
+  const position = geometry.getAttribute('position')
+  const index = geometry.index
+  const triangleCount = getMeshEmitterTriangleCount(source)
+
+  if (target && target.triangleCount !== triangleCount) {
+    throw new Error(
+      `Mesh emitter triangle count mismatch: expected ${target.triangleCount}, got ${triangleCount}`
+    )
+  }
+
+  const triangles = target?.triangles ?? new Float32Array(triangleCount * 9)
+  const normals = target?.normals ?? new Float32Array(triangleCount * 3)
+  const lookup = target?.lookup ?? new Float32Array(lookupSize)
+  const areas = new Float32Array(triangleCount)
+
+  // Read a vertex, applying morphs/skinning when sampling from a mesh
+  const readVertex = (i: number, out: THREE.Vector3) => {
+    const vi = index ? index.getX(i) : i
+    if (mesh) return mesh.getVertexPosition(vi, out)
+    return out.fromBufferAttribute(position, vi)
+  }
+
+  let totalArea = 0
+  for (let t = 0; t < triangleCount; t++) {
+    readVertex(t * 3, _a)
+    readVertex(t * 3 + 1, _b)
+    readVertex(t * 3 + 2, _c)
+
+    _a.toArray(triangles, t * 9)
+    _b.toArray(triangles, t * 9 + 3)
+    _c.toArray(triangles, t * 9 + 6)
+
+    // Cross product gives both the face normal and twice the triangle area
+    _ab.subVectors(_b, _a)
+    _ac.subVectors(_c, _a)
+    _ab.cross(_ac)
+    const area = _ab.length() * 0.5
+    areas[t] = area
+    totalArea += area
+
+    if (area > 0) _ab.normalize()
+    else _ab.set(0, 1, 0)
+    _ab.toArray(normals, t * 3)
+  }
+
+  // Fill the lookup by walking the cumulative area distribution
+  // Entry i holds the triangle covering the (i + 0.5) / lookupSize quantile
+  let tri = 0
+  let cumulative = areas[0] ?? 0
+  for (let i = 0; i < lookup.length; i++) {
+    const threshold = ((i + 0.5) / lookup.length) * totalArea
+    while (cumulative < threshold && tri < triangleCount - 1) {
+      tri++
+      cumulative += areas[tri]
+    }
+    lookup[i] = tri
+  }
+
+  if (target) {
+    target.totalArea = totalArea
+    return target
+  }
+
+  return { triangles, normals, lookup, triangleCount, totalArea }
+}
+
+// Transform from the source's local space to `space` (the particle system's local space, world when null)
+// Geometries have no transform: writes identity and returns false, so samples stay relative to
+// the spawn position. Meshes return true: samples are placed where the mesh is, wherever the emit is
+export const writeMeshEmitterMatrix = (
+  source: MeshEmitterSource,
+  space: THREE.Object3D | null,
+  matrix: THREE.Matrix4,
+  normalMatrix: THREE.Matrix3
+): boolean => {
+  const mesh = (source as THREE.Mesh).isMesh ? (source as THREE.Mesh) : null
+  if (!mesh) {
+    matrix.identity()
+    normalMatrix.identity()
+    return false
+  }
+
+  mesh.updateWorldMatrix(true, false)
+  matrix.copy(mesh.matrixWorld)
+  if (space) matrix.premultiply(_spaceInverse.copy(space.matrixWorld).invert())
+  normalMatrix.getNormalMatrix(matrix)
+  return true
+}
@@ -0,0 +1,126 @@
+import type { BaseParticleProps } from './types'
+import { applyEasing, easingToType } from './utils'
+
+// Particle props a running system applies without new props (coreStore.setParam)
+export const RUNTIME_PARAMS = Object.freeze([
+  'size',
+  'colorStart',
+  'colorEnd',
+  'fadeSize',
+  'fadeSizeCurve',
+  'fadeOpacity',
+  'fadeOpacityCurve',
+  'velocityCurve',
+  'gravity',
+  'lifetime',
+  'direction',
+  'startPosition',
+  'startPositionAsDirection',
+  'speed',
+  'friction',
+  'appearance',
+  'rotation',
+  'rotationSpeed',
+  'rotationSpeedCurve',
+  'orientToDirection',
+  'orientAxis',
+  'stretchBySpeed',
+  'lighting',
+  'shadow',
+  'blending',
+  'intensity',
+  'position',
+  'autoStart',
+  'delay',
+  'emitCount',
+  'emission',
+  'emitterShape',
+  'emitterRadius',
+  'emitterAngle',
+  'emitterHeight',
+  'emitterSurfaceOnly',
+  'emitterDirection',
+  'emitterMeshNormal',
+  'turbulence',
+  'attractToCenter',
+  'softParticles',
+  'softDistance',
+  'collision',
+  'maxParticles',
+] as const)
+
+export type ParticleParamKey = (typeof RUNTIME_PARAMS)[number]
+export type ParticleParams = Partial<Pick<BaseParticleProps, ParticleParamKey>>
+
+export const isRuntimeParam = (key: string): key is ParticleParamKey =>
+  (RUNTIME_PARAMS as readonly string[]).includes(key)
+
+// Runtime params that rebuild the material or the particle buffers when set
+// They can be set but not tweened (a fractional maxParticles would rebuild every frame)
+export const REBUILD_PARAMS: readonly ParticleParamKey[] = Object.freeze([
+  'maxParticles',
+  'blending',
+  'appearance',
+  'lighting',
+  'shadow',
+  'emitterShape',
+])
+
+export const isRebuildParam = (key: string) => (REBUILD_PARAMS as readonly string[]).includes(key)
+
+// Numbers and (nested) number arrays - the values a tween can blend
+type NumericValue = number | NumericValue[]
+
+const fillLike = (array: unknown[], value: number) => array.map(() => value)
+
+// Blend two numeric values, or null when they can't be blended
+// A number blends with an array as [n, n, ...] (e.g. size 0.1 -> [0.2, 0.4])
+export const lerpParam = (from: unknown, to: unknown, t: number): NumericValue | null => {
+  if (typeof from === 'number' && typeof to === 'number') return from + (to - from) * t
+  if (typeof from === 'number' && Array.isArray(to)) return lerpParam(fillLike(to, from), to, t)
+  if (Array.isArray(from) && typeof to === 'number') return lerpParam(from, fillLike(from, to), t)
+  if (!Array.isArray(from) || !Array.isArray(to) || from.length !== to.length) return null
+
+  const result: NumericValue[] = []
+  for (let i = 0; i < from.length; i++) {
+    const value = lerpParam(from[i], to[i], t)
+    if (value === null) return null
+    result.push(value)
+  }
+  return result
+}
+
+// Running tween of a system param
+export type ParamTween = {
+  key: ParticleParamKey
+  from: unknown
+  to: unknown
+  duration: number
+  easing: number
+  time: number
+  resolve: () => void
+}
+
+// Value of a tween after advancing it by delta seconds (tween.time is updated)
+export const stepParamTween = (tween: ParamTween, delta: number): NumericValue | null => {
+  tween.time = Math.min(tween.time + delta, tween.duration)
+  const t = tween.duration > 0 ? tween.time / tween.duration : 1
+  return lerpParam(tween.from, tween.to, applyEasing(tween.easing, t))
+}
+
+export const createParamTween = (
+  key: ParticleParamKey,
+  from: unknown,
+  to: unknown,
+  duration: number,
+  easing: string | number = 'linear',
+  resolve: () => void = () => {}
+): ParamTween => ({
+  key,
+  from,
+  to,
+  duration: Math.max(duration, 0),
+  easing: easingToType(easing),
+  time: 0,
+  resolve,
+})
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest'
+import * as THREE from 'three/webgpu'
+import { Appearance, Blending, EmitterShape } from './constants'
+import {
+  PRESET_VERSION,
+  PresetError,
+  migratePreset,
+  parsePreset,
+  presetToProps,
+  serializePreset,
+} from './preset'
+import type { BaseParticleProps } from './types'
+
+const props: BaseParticleProps = {
+  maxParticles: 500,
+  size: [0.1, 0.4],
+  colorStart: ['#ff8800', '#ffcc00'],
+  colorEnd: ['#220000'],
+  fadeOpacityCurve: { points: [{ pos: [0, 1] }, { pos: [1, 0], handleIn: [-0.2, 0] }] },
+  gravity: [0, -9.8, 0],
+  lifetime: 2,
+  direction: [
+    [-1, 1],
+    [0, 1],
+    [-1, 1],
+  ],
+  appearance: Appearance.CIRCULAR,
+  blending: Blending.ADDITIVE,
+  emitterShape: EmitterShape.SPHERE,
+  emission: { duration: 1, rate: 40, bursts: [{ time: 0, count: [10, 20] }] },
+  collision: { plane: { y: 0 }, bounce: 0.4 },
+  seed: 7,
+}
+
+// Catch a thrown PresetError to inspect its issues
+const presetErrorOf = (run: () => unknown) => {
+  try {
+    run()
+  } catch (err) {
+    expect(err).toBeInstanceOf(PresetError)
+    return err as PresetError
+  }
+  throw new Error('expected a PresetError')
+}
+
+describe('serializePreset / parsePreset', () => {
+  it('round-trips particle props', () => {
+    const preset = parsePreset(serializePreset(props, 'embers'))
+
+    expect(preset.version).toBe(PRESET_VERSION)
+    expect(preset.name).toBe('embers')
+    expect(presetToProps(preset)).toEqual(props)
+  })
+
+  it('round-trips built-in geometries as descriptors', () => {
+    const geometry = new THREE.BoxGeometry(2, 1, 0.5)
+    const preset = parsePreset(serializePreset({ ...props, geometry }))
+
+    expect(preset.props.geometry).toEqual({
+      type: 'box',
+      args: {
+        width: 2,
+        height: 1,
+        depth: 0.5,
+        widthSegments: 1,
+        heightSegments: 1,
+        depthSegments: 1,
+      },
+    })
+    const restored = presetToProps(preset).geometry as THREE.BoxGeometry
+    expect(restored).toBeInstanceOf(THREE.BoxGeometry)
+    expect(restored.parameters).toEqual(geometry.parameters)
+  })
+
+  it('refuses function colliders', () => {
+    const error = presetErrorOf(() =>
+      serializePreset({ ...props, collision: { colliders: () => [] } })
+    )
+    expect(error.issues).toEqual(['preset.props.collision.colliders: expected an array'])
+  })
+
+  it('refuses inline vector field data', () => {
+    const field = {
+      resolution: [1, 1, 1] as [number, number, number],
+      bounds: {
+        min: [0, 0, 0] as [number, number, number],
+        max: [1, 1, 1] as [number, number, number],
+      },
+      vectors: new Float32Array(3),
+    }
+    const error = presetErrorOf(() => serializePreset({ ...props, vectorField: { field } }))
+    expect(error.issues).toEqual(['preset.props.vectorField.field: expected a string'])
+  })
+})
+
+describe('parsePreset', () => {
+  it('reports every invalid value with its path', () => {
+    const error = presetErrorOf(() =>
+      parsePreset({
+        version: 1,
+        props: { size: 'big', gravity: [0, -1], blending: 9, colour: '#fff' },
+      })
+    )
+    expect(error.issues).toEqual([
+      'preset.props.size: expected a number or [min, max]',
+      'preset.props.gravity: expected [x, y, z]',
+      `preset.props.blending: expected one of ${Object.values(Blending).join(', ')}`,
+      'preset.props.colour: unknown property',
+    ])
+  })
+
+  it('requires props', () => {
+    const error = presetErrorOf(() => parsePreset({ version: 1 }))
+    expect(error.issues).toEqual(['preset.props: is required'])
+  })
+
+  it('rejects invalid JSON and unsupported versions', () => {
+    expect(presetErrorOf(() => parsePreset('{ size: 1')).message).toMatch(/^Invalid preset JSON/)
+    expect(presetErrorOf(() => parsePreset('[]')).message).toBe('Preset must be a JSON object')
+    expect(presetErrorOf(() => parsePreset({ version: -1, props: {} })).message).toBe(
+      'Invalid preset version: -1'
+    )
+    expect(
+      presetErrorOf(() => parsePreset({ version: PRESET_VERSION + 1, props: {} })).message
+    ).toBe(
+      `Preset version ${PRESET_VERSION + 1} is newer than the supported version ${PRESET_VERSION}`
+    )
+  })
+})
+
+describe('migratePreset', () => {
+  it('upgrades the flat debug panel values (version 0)', () => {
+    const flat = {
+      name: 'sparks',
+      curveTexturePath: '/curves/sparks.bin',
+      geometryType: 'sphere',
+      geometryArgs: { radius: 0.2 },
+      size: [0.1, 0.2],
+      intensity: 2,
+    }
+
+    expect(migratePreset(flat)).toEqual({
+      version: 1,
+      name: 'sparks',
+      props: {
+        size: [0.1, 0.2],
+        intensity: 2,
+        geometry: { type: 'sphere', args: { radius: 0.2 } },
+      },
+    })
+    // The result is a valid current preset
+    expect(parsePreset(flat).props.geometry).toEqual({ type: 'sphere', args: { radius: 0.2 } })
+    expect(migratePreset({ geometryType: 'none' }).props).toEqual({ geometry: null })
+  })
+})
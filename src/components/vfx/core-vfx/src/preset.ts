@@ -0,0 +1,571 @@
+import * as THREE from 'three/webgpu'
+import {
+  Appearance,
+  BillboardLighting,
+  Blending,
+  EmitterShape,
+  FlipbookMode,
+  Lighting,
+  SortMode,
+} from './constants'
+import {
+  GEOMETRY_DESCRIPTOR_TYPES,
+  createGeometryFromDescriptor,
+  geometryToDescriptor,
+  type GeometryDescriptor,
+} from './geometry'
+import type { BaseParticleProps } from './types'
+
+// Current preset schema version - bump it and add a migration when the format changes
+export const PRESET_VERSION = 1
+
+// Texture file referenced by a preset, loaded when the preset is applied
+export type TextureReference = {
+  url: string
+  flipY?: boolean
+}
+
+// Particle props as stored in a preset (runtime objects replaced by descriptors)
+export type PresetParticleProps = Omit<
+  BaseParticleProps,
+  'geometry' | 'alphaMap' | 'normalMap' | 'sixWayLightmap' | 'motionVectorMap' | 'emitterMesh'
+> & {
+  geometry?: GeometryDescriptor | null
+  alphaMap?: TextureReference | null
+  normalMap?: TextureReference | null
+  motionVectorMap?: TextureReference | null
+  sixWayLightmap?: { positive: TextureReference; negative: TextureReference } | null
+}
+
+// Serialized particle system, as shipped in preset asset files
+export type VFXPreset = {
+  version: number
+  name?: string
+  props: PresetParticleProps
+}
+
+// Thrown when a preset can't be parsed, migrated or validated
+export class PresetError extends Error {
+  readonly issues: string[]
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length ? `${message}:\n  ${issues.join('\n  ')}` : message)
+    this.name = 'PresetError'
+    this.issues = issues
+  }
+}
+
+// Validators push readable issues ("preset.props.size: expected ...") instead of throwing,
+// so a single parse reports everything wrong with a file
+type Validator = (value: unknown, path: string, issues: string[]) => void
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+const isNumbers = (v: unknown, length: number) =>
+  Array.isArray(v) && v.length === length && v.every(isNumber)
+
+const check =
+  (test: (v: unknown) => boolean, expected: string): Validator =>
+  (value, path, issues) => {
+    if (!test(value)) issues.push(`${path}: expected ${expected}`)
+  }
+
+const number = check(isNumber, 'a number')
+const boolean = check((v) => typeof v === 'boolean', 'a boolean')
+const string = check((v) => typeof v === 'string', 'a string')
+const vec2 = check((v) => isNumbers(v, 2), '[x, y]')
+const vec3 = check((v) => isNumbers(v, 3), '[x, y, z]')
+const range = check((v) => isNumber(v) || isNumbers(v, 2), 'a number or [min, max]')
+const range3D = check(
+  (v) =>
+    v === null ||
+    isNumber(v) ||
+    isNumbers(v, 2) ||
+    (Array.isArray(v) && v.length === 3 && v.every((axis) => isNumbers(axis, 2))),
+  'a number, [min, max] or [[minX, maxX], [minY, maxY], [minZ, maxZ]]'
+)
+const oneOf = (values: readonly unknown[]) =>
+  check((v) => values.includes(v), `one of ${values.join(', ')}`)
+const anything: Validator = () => {}
+
+const nullable =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (value !== null) validator(value, path, issues)
+  }
+
+const arrayOf =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected an array`)
+      return
+    }
+    value.forEach((item, i) => validator(item, `${path}[${i}]`, issues))
+  }
+
+const record =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push(`${path}: expected an object`)
+      return
+    }
+    for (const [key, item] of Object.entries(value)) validator(item, `${path}.${key}`, issues)
+  }
+
+// Object with known fields - unknown fields are reported so typos don't go unnoticed
+const shape =
+  (fields: Record<string, Validator>, required: string[] = []): Validator =>
+  (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push(`${path}: expected an object`)
+      return
+    }
+    for (const key of required) {
+      if (value[key] === undefined) issues.push(`${path}.${key}: is required`)
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue
+      const validator = fields[key]
+      if (validator) validator(item, `${path}.${key}`, issues)
+      else issues.push(`${path}.${key}: unknown property`)
+    }
+  }
+
+const curve = nullable(
+  shape({ points: arrayOf(shape({ pos: vec2, handleIn: vec2, handleOut: vec2 }, ['pos'])) }, [
+    'points',
+  ])
+)
+
+const textureReference = shape({ url: string, flipY: boolean }, ['url'])
+
+const gradientStops = arrayOf(
+  shape({ pos: number, color: string, alpha: number }, ['pos', 'color'])
+)
+
+// Props holding runtime objects, replaced by descriptors / references in presets
+const RUNTIME_OBJECT_PROPS: string[] = [
+  'geometry',
+  'alphaMap',
+  'normalMap',
+  'motionVectorMap',
+  'sixWayLightmap',
+  'emitterMesh',
+]
+
+// One validator per preset prop (typed so new BaseParticleProps must be added here)
+const PROPS_SCHEMA: Record<keyof PresetParticleProps, Validator> = {
+  maxParticles: number,
+  size: range,
+  colorStart: arrayOf(string),
+  colorEnd: nullable(arrayOf(string)),
+  colorGradient: nullable(
+    shape({ stops: gradientStops, randomStops: nullable(gradientStops) }, ['stops'])
+  ),
+  fadeSize: range,
+  fadeSizeCurve: curve,
+  size3D: nullable(shape({ start: vec3, x: curve, y: curve, z: curve })),
+  fadeOpacity: range,
+  fadeOpacityCurve: curve,
+  velocityCurve: curve,
+  velocityOverLifetime: nullable(
+    shape({
+      linear: vec3,
+      space: oneOf(['world', 'local']),
+      orbital: vec3,
+      radial: number,
+      center: vec3,
+      linearCurve: curve,
+      orbitalCurve: curve,
+      radialCurve: curve,
+    })
+  ),
+  gravity: vec3,
+  lifetime: range,
+  direction: range3D,
+  startPosition: range3D,
+  speed: range,
+  friction: shape({ intensity: range, easing: string }),
+  appearance: oneOf(Object.values(Appearance)),
+  alphaMap: nullable(textureReference),
+  flipbook: nullable(
+    shape(
+      {
+        rows: number,
+        columns: number,
+        mode: oneOf(Object.values(FlipbookMode)),
+        fps: number,
+        speedRange: vec2,
+        randomStart: boolean,
+        loop: boolean,
+        frameRange: vec2,
+        blend: boolean,
+        motionVectorStrength: number,
+      },
+      ['rows', 'columns']
+    )
+  ),
+  motionVectorMap: nullable(textureReference),
+  rotation: range3D,
+  rotationSpeed: range3D,
+  rotationSpeedCurve: curve,
+  geometry: nullable(
+    shape({ type: oneOf(GEOMETRY_DESCRIPTOR_TYPES), args: record(number) }, ['type'])
+  ),
+  orientToDirection: boolean,
+  orientAxis: string,
+  stretchBySpeed: nullable(shape({ factor: number, maxStretch: number }, ['factor', 'maxStretch'])),
+  lighting: oneOf(Object.values(Lighting)),
+  billboardLighting: oneOf(Object.values(BillboardLighting)),
+  normalMap: nullable(textureReference),
+  sixWayLightmap: nullable(
+    shape({ positive: textureReference, negative: textureReference }, ['positive', 'negative'])
+  ),
+  shadow: boolean,
+  blending: oneOf(Object.values(Blending)),
+  intensity: number,
+  position: vec3,
+  autoStart: boolean,
+  seed: nullable(number),
+  lod: nullable(
+    shape({
+      radius: number,
+      distance: vec2,
+      cullDistance: number,
+      farEmission: number,
+      farSize: number,
+      culledUpdateInterval: number,
+    })
+  ),
+  compaction: boolean,
+  sortMode: oneOf(Object.values(SortMode)),
+  delay: number,
+  emitCount: number,
+  emission: nullable(
+    shape({
+      duration: number,
+      loop: boolean,
+      startDelay: number,
+      rate: number,
+      rateCurve: curve,
+      bursts: arrayOf(
+        shape(
+          { time: number, count: range, cycles: number, interval: number, probability: number },
+          ['time', 'count']
+        )
+      ),
+    })
+  ),
+  emitterShape: oneOf(Object.values(EmitterShape)),
+  emitterRadius: range,
+  emitterAngle: number,
+  emitterHeight: range,
+  emitterSurfaceOnly: boolean,
+  emitterDirection: vec3,
+  emitterMeshNormal: boolean,
+  turbulence: nullable(
+    shape({ intensity: number, frequency: number, speed: number }, ['intensity'])
+  ),
+  // Only file references - inline grids belong in .fga / JSON files
+  vectorField: nullable(
+    shape(
+      {
+        field: string,
+        bounds: shape({ min: vec3, max: vec3 }, ['min', 'max']),
+        intensity: number,
+        tightness: number,
+      },
+      ['field']
+    )
+  ),
+  attractors: nullable(
+    arrayOf(
+      shape({
+        position: vec3,
+        strength: number,
+        radius: number,
+        type: oneOf(['point', 'vortex', 'line', 'repulse']),
+        axis: vec3,
+        end: vec3,
+        falloff: oneOf(['linear', 'smooth', 'inverse-square', 'constant']),
+      })
+    )
+  ),
+  attractToCenter: boolean,
+  startPositionAsDirection: boolean,
+  softParticles: boolean,
+  softDistance: number,
+  collision: nullable(
+    shape({
+      plane: shape({ y: number }, ['y']),
+      colliders: nullable(
+        arrayOf(
+          shape(
+            {
+              type: oneOf(['plane', 'sphere', 'box', 'cylinder']),
+              position: vec3,
+              normal: vec3,
+              radius: number,
+              size: vec3,
+              height: number,
+              bounce: number,
+              friction: number,
+              die: boolean,
+            },
+            ['type']
+          )
+        )
+      ),
+      depth: boolean,
+      depthThickness: number,
+      bounce: number,
+      friction: number,
+      die: boolean,
+      sizeBasedGravity: number,
+    })
+  ),
+  trail: nullable(
+    shape(
+      {
+        length: number,
+        width: number,
+        widthCurve: curve,
+        opacityCurve: curve,
+        colorEnd: nullable(string),
+        interval: number,
+      },
+      ['length']
+    )
+  ),
+  particleEvents: nullable(
+    shape({
+      types: arrayOf(oneOf(['birth', 'death', 'collision', 'attractorEnter'])),
+      maxPerFrame: number,
+    })
+  ),
+  subEmitters: nullable(
+    arrayOf(
+      shape(
+        {
+          system: string,
+          trigger: oneOf(['birth', 'death', 'collision']),
+          count: range,
+          probability: number,
+          inheritVelocity: number,
+          inheritColor: boolean,
+          overrides: nullable(record(anything)),
+        },
+        ['system', 'trigger']
+      )
+    )
+  ),
+}
+
+const PRESET_SCHEMA = shape({ version: number, name: string, props: shape(PROPS_SCHEMA) }, [
+  'version',
+  'props',
+])
+
+// Check a single particle prop value against the preset schema, returns the issues found
+// Runtime objects (geometry, textures, emitter mesh) are stored as references in presets
+// and are not checked
+export const validateParticleProp = (key: string, value: unknown): string[] => {
+  const issues: string[] = []
+  if (RUNTIME_OBJECT_PROPS.includes(key)) return issues
+  const validator = PROPS_SCHEMA[key as keyof PresetParticleProps]
+  if (!validator) issues.push(`${key}: unknown property`)
+  else if (value !== undefined) validator(value, key, issues)
+  return issues
+}
+
+// Upgrades a preset from the keyed version to the next one
+// Version 0 is the flat values object edited by the debug panel (no version field)
+const MIGRATIONS: Record<number, (preset: Record<string, unknown>) => Record<string, unknown>> = {
+  0: ({ name, geometryType, geometryArgs, ...props }) => {
+    // curveTexturePath is a render option of the r3f component, not a particle prop
+    delete props.curveTexturePath
+    return {
+      version: 1,
+      ...(typeof name === 'string' && name ? { name } : {}),
+      props: {
+        ...props,
+        geometry:
+          typeof geometryType === 'string' && geometryType !== 'none'
+            ? { type: geometryType, ...(isObject(geometryArgs) && { args: geometryArgs }) }
+            : null,
+      },
+    }
+  },
+}
+
+// Upgrade raw preset data to the current schema version (not validated)
+export const migratePreset = (data: unknown): Record<string, unknown> => {
+  if (!isObject(data)) {
+    throw new PresetError('Preset must be a JSON object')
+  }
+
+  const version = data.version ?? 0
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new PresetError(`Invalid preset version: ${String(version)}`)
+  }
+  if (version > PRESET_VERSION) {
+    throw new PresetError(
+      `Preset version ${version} is newer than the supported version ${PRESET_VERSION}`
+    )
+  }
+
+  let preset = data
+  for (let v = version; v < PRESET_VERSION; v++) {
+    preset = MIGRATIONS[v](preset)
+  }
+  return preset
+}
+
+// Parse a preset from JSON text or already-decoded data, migrating older versions
+// Throws a PresetError listing every validation issue
+export const parsePreset = (input: string | unknown): VFXPreset => {
+  let data = input
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input)
+    } catch (err) {
+      throw new PresetError(`Invalid preset JSON: ${(err as Error).message}`)
+    }
+  }
+
+  const preset = migratePreset(data)
+  const issues: string[] = []
+  PRESET_SCHEMA(preset, 'preset', issues)
+  if (issues.length) {
+    throw new PresetError('Invalid preset', issues)
+  }
+  return preset as VFXPreset
+}
+
+// Texture URL for a preset reference: loaded presets keep it in userData.url,
+// otherwise fall back to the image source
+const getTextureUrl = (texture: THREE.Texture): string | null => {
+  const url = texture.userData.url ?? (texture.image as { src?: string } | null)?.src
+  return typeof url === 'string' && url ? url : null
+}
+
+// Build a preset from particle props
+// Built-in geometries become descriptors and textures become URL references;
+// anything that can't be stored (custom geometry, emitter mesh) is skipped with a warning
+export const createPreset = (props: BaseParticleProps, name?: string): VFXPreset => {
+  const presetProps: Record<string, unknown> = {}
+  for (const key of Object.keys(PROPS_SCHEMA) as (keyof PresetParticleProps)[]) {
+    const value = props[key]
+    if (value !== undefined) presetProps[key] = value
+  }
+
+  if (props.geometry) {
+    const descriptor = geometryToDescriptor(props.geometry)
+    if (descriptor) presetProps.geometry = descriptor
+    else {
+      delete presetProps.geometry
+      console.warn('createPreset: custom geometry is not stored in presets')
+    }
+  }
+
+  // Textures without a URL can't be referenced and are left out
+  const toReference = (texture: THREE.Texture, key: string): TextureReference | null => {
+    const url = getTextureUrl(texture)
+    if (!url) console.warn(`createPreset: ${key} has no URL and is not stored in the preset`)
+    return url ? { url, flipY: texture.flipY } : null
+  }
+
+  if (props.alphaMap) {
+    const reference = toReference(props.alphaMap, 'alphaMap')
+    if (reference) presetProps.alphaMap = reference
+    else delete presetProps.alphaMap
+  }
+
+  if (props.normalMap) {
+    const reference = toReference(props.normalMap, 'normalMap')
+    if (reference) presetProps.normalMap = reference
+    else delete presetProps.normalMap
+  }
+
+  if (props.motionVectorMap) {
+    const reference = toReference(props.motionVectorMap, 'motionVectorMap')
+    if (reference) presetProps.motionVectorMap = reference
+    else delete presetProps.motionVectorMap
+  }
+
+  if (props.sixWayLightmap) {
+    const positive = toReference(props.sixWayLightmap.positive, 'sixWayLightmap.positive')
+    const negative = toReference(props.sixWayLightmap.negative, 'sixWayLightmap.negative')
+    if (positive && negative) presetProps.sixWayLightmap = { positive, negative }
+    else delete presetProps.sixWayLightmap
+  }
+
+  if (props.emitterMesh) {
+    console.warn('createPreset: emitterMesh is not stored in presets')
+  }
+
+  return {
+    version: PRESET_VERSION,
+    ...(name && { name }),
+    props: presetProps as PresetParticleProps,
+  }
+}
+
+// Serialize particle props to preset JSON (validated, so it always parses back)
+export const serializePreset = (props: BaseParticleProps, name?: string, space = 2): string => {
+  const preset = createPreset(props, name)
+  const issues: string[] = []
+  PRESET_SCHEMA(preset, 'preset', issues)
+  if (issues.length) {
+    throw new PresetError('Cannot serialize preset', issues)
+  }
+  return JSON.stringify(preset, null, space)
+}
+
+// Default texture loader for preset texture references
+export const loadPresetTexture = (reference: TextureReference): THREE.Texture => {
+  const texture = new THREE.TextureLoader().load(reference.url)
+  if (reference.flipY !== undefined) texture.flipY = reference.flipY
+  texture.userData.url = reference.url
+  return texture
+}
+
+// Turn a parsed preset into particle props, creating geometries and loading textures
+// The caller owns (and disposes) the created geometry and texture
+export const presetToProps = (
+  preset: VFXPreset,
+  loadTexture: (reference: TextureReference) => THREE.Texture = loadPresetTexture
+): BaseParticleProps => {
+  const { geometry, alphaMap, normalMap, motionVectorMap, sixWayLightmap, ...props } = preset.props
+  return {
+    ...props,
+    ...(geometry !== undefined && {
+      geometry: geometry ? createGeometryFromDescriptor(geometry) : null,
+    }),
+    ...(alphaMap !== undefined && { alphaMap: alphaMap ? loadTexture(alphaMap) : null }),
+    ...(normalMap !== undefined && { normalMap: normalMap ? loadTexture(normalMap) : null }),
+    ...(motionVectorMap !== undefined && {
+      motionVectorMap: motionVectorMap ? loadTexture(motionVectorMap) : null,
+    }),
+    ...(sixWayLightmap !== undefined && {
+      sixWayLightmap: sixWayLightmap
+        ? {
+            positive: loadTexture(sixWayLightmap.positive),
+            negative: loadTexture(sixWayLightmap.negative),
+          }
+        : null,
+    }),
+  }
+}
+
+// Fetch and parse a preset file
+export const loadPreset = async (url: string): Promise<VFXPreset> => {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new PresetError(`Failed to load preset: HTTP ${response.status}`)
+  }
+  return parsePreset(await response.text())
+}
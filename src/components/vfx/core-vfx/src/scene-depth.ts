@@ -0,0 +1,29 @@
+import * as THREE from 'three/webgpu'
+
+// Scene depth buffer shared with particle systems for screen-space collision
+// The matrices are those of the camera the depth was rendered with (previous frame
+// from the particles' point of view, since simulation runs before rendering)
+export type SceneDepth = {
+  texture: THREE.Texture
+  viewMatrix: THREE.Matrix4
+  projectionMatrix: THREE.Matrix4
+  projectionMatrixInverse: THREE.Matrix4
+  cameraMatrixWorld: THREE.Matrix4
+}
+
+// Wrap a depth texture (e.g. pass(scene, camera).getTexture('depth'))
+export const createSceneDepth = (texture: THREE.Texture): SceneDepth => ({
+  texture,
+  viewMatrix: new THREE.Matrix4(),
+  projectionMatrix: new THREE.Matrix4(),
+  projectionMatrixInverse: new THREE.Matrix4(),
+  cameraMatrixWorld: new THREE.Matrix4(),
+})
+
+// Record the camera used for the depth texture - call right after rendering it
+export const updateSceneDepth = (depth: SceneDepth, camera: THREE.Camera) => {
+  depth.viewMatrix.copy(camera.matrixWorldInverse)
+  depth.projectionMatrix.copy(camera.projectionMatrix)
+  depth.projectionMatrixInverse.copy(camera.projectionMatrixInverse)
+  depth.cameraMatrixWorld.copy(camera.matrixWorld)
+}
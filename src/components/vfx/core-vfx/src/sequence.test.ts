@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import type { CoreState } from './core-store'
+import { createSequencePlayer } from './sequence'
+import type { SequenceConfig } from './types'
+
+// Store with one registered system exposing an intensity uniform
+const createStore = (value: number) => {
+  const intensity = { value }
+  const store = { getUniforms: () => ({ intensity }) } as unknown as CoreState
+  return { intensity, getStore: () => store }
+}
+
+const fadeOut: SequenceConfig = {
+  events: [{ time: 0, type: 'tween', system: 'smoke', uniform: 'intensity', to: 0, duration: 1 }],
+}
+
+describe('createSequencePlayer', () => {
+  it('tweens from the current value and restores it when the play ends', () => {
+    const { intensity, getStore } = createStore(2)
+    const player = createSequencePlayer(fadeOut, getStore)
+
+    player.play()
+    player.update(0.5)
+    expect(intensity.value).toBeCloseTo(1)
+
+    player.update(0.6)
+    expect(player.isPlaying).toBe(false)
+    expect(intensity.value).toBe(2)
+
+    // A later play starts from the original value again
+    player.play()
+    player.update(0.5)
+    expect(intensity.value).toBeCloseTo(1)
+  })
+
+  it('restores tweened uniforms on stop', () => {
+    const { intensity, getStore } = createStore(2)
+    const player = createSequencePlayer(fadeOut, getStore)
+
+    player.play()
+    player.update(0.75)
+    player.stop()
+    expect(intensity.value).toBe(2)
+  })
+
+  it('restarts tweens from the original value on each loop', () => {
+    const { intensity, getStore } = createStore(2)
+    const player = createSequencePlayer({ ...fadeOut, duration: 2, loop: true }, getStore)
+
+    player.play()
+    player.update(1.5)
+    expect(intensity.value).toBe(0)
+
+    player.update(1) // 0.5s into the second loop
+    expect(intensity.value).toBeCloseTo(1)
+  })
+})
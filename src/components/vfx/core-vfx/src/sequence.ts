@@ -0,0 +1,230 @@
+import { coreStore, type CoreState } from './core-store'
+import type { SequenceConfig, SequenceEvent, SequenceTrigger } from './types'
+import { applyEasing, easingToType } from './utils'
+
+type TweenEvent = Extract<SequenceEvent, { type: 'tween' }>
+
+// One running play of a sequence (several can overlap, e.g. two enemies dying at once)
+type Playback = {
+  time: number
+  // Index of the next instant event to fire
+  cursor: number
+  trigger: SequenceTrigger
+  // Start values of tweens without `from`, captured when they start
+  tweenFrom: Map<TweenEvent, number>
+}
+
+export type SequencePlayer = {
+  /** Start a new play from time 0 (overlaps plays already running) */
+  play: (trigger?: SequenceTrigger) => void
+  pause: () => void
+  resume: () => void
+  /** Stop all plays and restore the tweened uniforms */
+  stop: () => void
+  /** Jump all plays to a time, skipping the instant events in between */
+  seek: (time: number) => void
+  /** Advance by delta seconds (scaled by timeScale), call once per frame */
+  update: (delta: number) => void
+  setConfig: (config: SequenceConfig) => void
+  timeScale: number
+  loop: boolean
+  readonly duration: number
+  /** Time of the latest play */
+  readonly time: number
+  readonly isPlaying: boolean
+  readonly isPaused: boolean
+}
+
+// Sequence length: explicit duration, else the end of the last event or tween
+export const getSequenceDuration = (config: SequenceConfig): number => {
+  if (config.duration !== undefined) return config.duration
+  return config.events.reduce(
+    (end, event) => Math.max(end, event.time + (event.type === 'tween' ? event.duration : 0)),
+    0
+  )
+}
+
+// Numeric uniform of a registered system, or null
+const getNumberUniform = (
+  store: CoreState,
+  system: string,
+  name: string
+): { value: number } | null => {
+  const uniform = store.getUniforms(system)?.[name] as { value?: unknown } | undefined
+  return typeof uniform?.value === 'number' ? (uniform as { value: number }) : null
+}
+
+/**
+ * Creates a player for a sequence: emits, start/stop/clear calls, uniform tweens and
+ * callbacks on a time track, relative to what triggered the play.
+ * Systems are looked up by name in the VFX store when their event fires.
+ */
+export const createSequencePlayer = (
+  initialConfig: SequenceConfig,
+  getStore: () => CoreState = coreStore.getState
+): SequencePlayer => {
+  // Instant events sorted by time (stable, so same-time events keep their order)
+  let instants: SequenceEvent[] = []
+  let tweens: TweenEvent[] = []
+  let duration = 0
+  let playbacks: Playback[] = []
+  let paused = false
+  // Value of each tweened uniform before the sequence touched it, restored when the plays end
+  const originals = new Map<{ value: number }, number>()
+
+  const setConfig = (next: SequenceConfig) => {
+    instants = next.events.filter((event) => event.type !== 'tween').sort((a, b) => a.time - b.time)
+    tweens = next.events.filter((event): event is TweenEvent => event.type === 'tween')
+    duration = getSequenceDuration(next)
+    player.timeScale = next.timeScale ?? 1
+    player.loop = next.loop ?? false
+  }
+
+  const fire = (event: SequenceEvent, trigger: SequenceTrigger) => {
+    const store = getStore()
+    switch (event.type) {
+      case 'emit': {
+        const [tx, ty, tz] = trigger.position ?? [0, 0, 0]
+        const [x, y, z] = event.position ?? [0, 0, 0]
+        store.emit(event.system, {
+          x: tx + x,
+          y: ty + y,
+          z: tz + z,
+          count: event.count,
+          overrides: event.overrides,
+          seed: event.seed,
+        })
+        break
+      }
+      case 'start':
+        store.start(event.system)
+        break
+      case 'stop':
+        store.stop(event.system)
+        break
+      case 'clear':
+        store.clear(event.system)
+        break
+      case 'callback':
+        event.callback(trigger)
+        break
+    }
+  }
+
+  // Set tweened uniforms to their value at the playback time
+  // Tweens that have not started yet are left alone
+  const applyTweens = (playback: Playback, previousTime: number) => {
+    const store = getStore()
+    for (const tween of tweens) {
+      const end = tween.time + tween.duration
+      if (playback.time < tween.time || previousTime > end) continue
+
+      const uniform = getNumberUniform(store, tween.system, tween.uniform)
+      if (!uniform) continue
+
+      if (!originals.has(uniform)) originals.set(uniform, uniform.value)
+      if (!playback.tweenFrom.has(tween)) {
+        playback.tweenFrom.set(tween, tween.from ?? uniform.value)
+      }
+      const from = playback.tweenFrom.get(tween) as number
+      const t = tween.duration > 0 ? Math.min((playback.time - tween.time) / tween.duration, 1) : 1
+      uniform.value = from + (tween.to - from) * applyEasing(easingToType(tween.easing), t)
+    }
+  }
+
+  const restoreTweened = () => {
+    for (const [uniform, value] of originals) uniform.value = value
+  }
+
+  // Fire the instant events up to the playback time
+  const fireUntil = (playback: Playback) => {
+    while (playback.cursor < instants.length && instants[playback.cursor].time <= playback.time) {
+      fire(instants[playback.cursor], playback.trigger)
+      playback.cursor++
+    }
+  }
+
+  const advance = (playback: Playback, delta: number): boolean => {
+    const previousTime = playback.time
+    playback.time += delta
+    fireUntil(playback)
+    applyTweens(playback, previousTime)
+
+    if (playback.time < duration) return true
+    if (!player.loop || duration <= 0) return false
+
+    // Wrap around: events at the start of the next loop fire in the same frame
+    // and tweens without `from` start again from the original values
+    playback.time -= duration
+    playback.cursor = 0
+    playback.tweenFrom.clear()
+    restoreTweened()
+    fireUntil(playback)
+    applyTweens(playback, 0)
+    return true
+  }
+
+  // First event not fired yet after a seek (events at the seek time fire on the next update)
+  const findCursor = (time: number) => {
+    const index = instants.findIndex((event) => event.time >= time)
+    return index === -1 ? instants.length : index
+  }
+
+  const player: SequencePlayer = {
+    play(trigger = {}) {
+      paused = false
+      const playback: Playback = { time: 0, cursor: 0, trigger, tweenFrom: new Map() }
+      playbacks.push(playback)
+      // Events at time 0 fire right away
+      fireUntil(playback)
+      applyTweens(playback, 0)
+    },
+    pause() {
+      paused = true
+    },
+    resume() {
+      paused = false
+    },
+    stop() {
+      playbacks = []
+      paused = false
+      restoreTweened()
+      originals.clear()
+    },
+    seek(time) {
+      const clamped = Math.min(Math.max(time, 0), duration)
+      for (const playback of playbacks) {
+        playback.time = clamped
+        playback.cursor = findCursor(clamped)
+        applyTweens(playback, clamped)
+      }
+    },
+    update(delta) {
+      if (paused || !playbacks.length) return
+      const scaled = delta * player.timeScale
+      playbacks = playbacks.filter((playback) => advance(playback, scaled))
+      if (!playbacks.length) {
+        restoreTweened()
+        originals.clear()
+      }
+    },
+    setConfig,
+    timeScale: 1,
+    loop: false,
+    get duration() {
+      return duration
+    },
+    get time() {
+      return playbacks[playbacks.length - 1]?.time ?? 0
+    },
+    get isPlaying() {
+      return playbacks.length > 0 && !paused
+    },
+    get isPaused() {
+      return paused
+    },
+  }
+
+  setConfig(initialConfig)
+  return player
+}
@@ -0,0 +1,104 @@
+import * as THREE from 'three/webgpu'
+import { float, vec2, vec3, uv, cos, sin, diffuseColor, BRDF_Lambert } from 'three/tsl'
+import type {
+  Node,
+  NodeBuilder,
+  LightingModelDirectInput,
+  LightingModelReflectedLight,
+} from 'three/webgpu'
+
+// Rotate a 2D direction by `angle` (same direction as the sprite rotation)
+const rotate2D = (v: Node, angle: Node) =>
+  vec2(v.x.mul(cos(angle)).sub(v.y.mul(sin(angle))), v.x.mul(sin(angle)).add(v.y.mul(cos(angle))))
+
+// View-space normal of a sphere inscribed in the billboard quad
+export const sphereBillboardNormal = (): Node => {
+  const p = uv().mul(2).sub(1)
+  return vec3(p, float(1).sub(p.dot(p)).max(0).sqrt()).normalize()
+}
+
+// View-space normal from a tangent-space normal map sample, turned with the sprite rotation
+export const normalMapBillboardNormal = (sample: Node, rotation: Node): Node => {
+  const n = sample.xyz.mul(2).sub(1)
+  return vec3(rotate2D(n.xy, rotation), n.z).normalize()
+}
+
+/**
+ * Billboard shaded like MeshStandardNodeMaterial (scene lights, light probes, environment).
+ * Placed like SpriteNodeMaterial; set normalNode to a view-space billboard normal.
+ */
+export class LitSpriteNodeMaterial extends THREE.MeshStandardNodeMaterial {
+  rotationNode: Node | null = null
+  scaleNode: Node | null = null
+  sizeAttenuation = true
+
+  setupPositionView(builder: NodeBuilder) {
+    return THREE.SpriteNodeMaterial.prototype.setupPositionView.call(
+      this as unknown as THREE.SpriteNodeMaterial,
+      builder
+    )
+  }
+}
+
+// Diffuse lighting read from a six-way lightmap instead of a normal
+// The maps hold the light received from each axis of the billboard (X right, Y up, Z toward the camera)
+class SixWayLightingModel extends THREE.LightingModel {
+  positive: Node
+  negative: Node
+  rotation: Node
+
+  constructor(positive: Node, negative: Node, rotation: Node) {
+    super()
+    this.positive = positive
+    this.negative = negative
+    this.rotation = rotation
+  }
+
+  direct({ lightDirection, lightColor, reflectedLight }: LightingModelDirectInput) {
+    // Light direction in the billboard's (rotated) space
+    const l = vec3(rotate2D(lightDirection.xy, this.rotation.negate()), lightDirection.z)
+    const weight = this.positive.rgb.dot(l.max(0)).add(this.negative.rgb.dot(l.negate().max(0)))
+    reflectedLight.directDiffuse.addAssign(
+      lightColor.mul(weight).mul(BRDF_Lambert({ diffuseColor: diffuseColor.rgb }))
+    )
+  }
+
+  indirect(builder: NodeBuilder) {
+    const { irradiance, reflectedLight } = (
+      builder as unknown as {
+        context: { irradiance: Node; reflectedLight: LightingModelReflectedLight }
+      }
+    ).context
+    // Ambient light and probes reach every side: average of the six directions
+    const weight = this.positive.rgb.add(this.negative.rgb).dot(vec3(1 / 6))
+    reflectedLight.indirectDiffuse.addAssign(
+      irradiance.mul(weight).mul(BRDF_Lambert({ diffuseColor: diffuseColor.rgb }))
+    )
+  }
+}
+
+/**
+ * Billboard lit through a six-way lightmap (smoke): `positive` holds the light from +X, +Y, +Z
+ * in RGB, `negative` from -X, -Y, -Z. Both are samples of the maps at the particle's UV.
+ */
+export class SixWaySpriteNodeMaterial extends THREE.SpriteNodeMaterial {
+  sixWayPositiveNode: Node
+  sixWayNegativeNode: Node
+
+  constructor(positive: Node, negative: Node) {
+    super()
+    this.lights = true
+    // Facing the camera (shadows and other nodes reading the normal)
+    this.normalNode = vec3(0, 0, 1)
+    this.sixWayPositiveNode = positive
+    this.sixWayNegativeNode = negative
+  }
+
+  setupLightingModel() {
+    return new SixWayLightingModel(
+      this.sixWayPositiveNode,
+      this.sixWayNegativeNode,
+      this.rotationNode ?? float(0)
+    )
+  }
+}
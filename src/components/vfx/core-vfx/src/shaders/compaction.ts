@@ -0,0 +1,59 @@
+import { Fn, If, uint, instanceIndex, atomicAdd, atomicLoad, atomicStore } from 'three/tsl'
+import type * as THREE from 'three/webgpu'
+import type { Node } from 'three/webgpu'
+import type { AliveListStorage, ParticleStorageArrays } from './types'
+
+// Workgroup size of the compute shaders (three.js default), unit of the indirect dispatch size
+const WORKGROUP_SIZE = 64
+
+/**
+ * Appends a particle slot to the alive list from inside a compute shader.
+ * Each live slot must be appended once (the list holds maxParticles entries).
+ */
+export const appendAliveParticle = (aliveList: AliveListStorage, index: Node) => {
+  // atomicAdd returns the previous length, which is our entry
+  const entry = atomicAdd(aliveList.count.element(0), uint(1))
+  aliveList.indices.element(entry).assign(index)
+}
+
+/**
+ * Creates the compute shader that writes the indirect draw and dispatch arguments
+ * from the alive list length. Dispatch it after anything that changes the list.
+ */
+export const createAliveListArgsCompute = (aliveList: AliveListStorage) => {
+  return Fn(() => {
+    const count = atomicLoad(aliveList.count.element(0))
+    for (let i = 0; i < aliveList.drawCount; i++) {
+      aliveList.drawArgs.element(i * 5 + 1).assign(count)
+    }
+    aliveList.dispatchArgs.element(0).assign(count.add(WORKGROUP_SIZE - 1).div(WORKGROUP_SIZE))
+    aliveList.dispatchArgs.element(1).assign(uint(1))
+    aliveList.dispatchArgs.element(2).assign(uint(1))
+  })().compute(1)
+}
+
+/**
+ * Creates the compaction pass: empties the alive list, appends every live particle, then
+ * writes the indirect arguments. Dispatch the returned computes together after the update.
+ */
+export const createCompactCompute = (
+  storage: ParticleStorageArrays,
+  maxParticles: number
+): THREE.ComputeNode[] => {
+  const aliveList = storage.aliveList
+  if (!aliveList) {
+    throw new Error('createCompactCompute: storage has no alive list')
+  }
+
+  const reset = Fn(() => {
+    atomicStore(aliveList.count.element(0), uint(0))
+  })().compute(1)
+
+  const compact = Fn(() => {
+    If(storage.lifetimes.element(instanceIndex).greaterThan(0), () => {
+      appendAliveParticle(aliveList, instanceIndex)
+    })
+  })().compute(maxParticles)
+
+  return [reset, compact, createAliveListArgsCompute(aliveList)]
+}
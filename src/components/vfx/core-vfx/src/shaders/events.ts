@@ -0,0 +1,41 @@
+import { Fn, If, float, uint, vec4, atomicAdd, atomicStore } from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import type { ParticleEventStorage } from './types'
+
+/**
+ * Appends an event to the event buffer from inside a compute shader.
+ * Events past maxEvents are dropped until the buffer is reset.
+ * `target` is the collider / attractor index involved (-1 = none, plane or scene depth).
+ */
+export const appendParticleEvent = (
+  events: ParticleEventStorage,
+  type: number,
+  index: Node,
+  position: Node,
+  velocity: Node,
+  color: Node,
+  progress: Node,
+  target: Node | number = -1
+) => {
+  // atomicAdd returns the previous count, which is our slot
+  const slot = atomicAdd(events.count.element(0), uint(1))
+
+  If(slot.lessThan(uint(events.maxEvents)), () => {
+    const base = slot.mul(4)
+    events.data.element(base).assign(vec4(position, float(type)))
+    events.data.element(base.add(1)).assign(vec4(velocity, float(index)))
+    events.data.element(base.add(2)).assign(vec4(color, progress))
+    const targetIndex = typeof target === 'number' ? float(target) : target
+    events.data.element(base.add(3)).assign(vec4(targetIndex, 0, 0, 0))
+  })
+}
+
+/**
+ * Creates the compute shader that empties the event buffer.
+ * Dispatch it right after requesting a readback so no event is counted twice.
+ */
+export const createEventResetCompute = (events: ParticleEventStorage) => {
+  return Fn(() => {
+    atomicStore(events.count.element(0), uint(0))
+  })().compute(1)
+}
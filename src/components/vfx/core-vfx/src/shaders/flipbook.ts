@@ -0,0 +1,91 @@
+import * as THREE from 'three/webgpu'
+import { float, vec2, mix, floor, fract, mod, hash, texture, uv } from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import { FlipbookMode } from '../constants'
+import type { FlipbookConfig } from '../types'
+
+// Per-particle values the frame selection reads
+export type FlipbookParticle = {
+  progress: Node // Normalized age (0 = born, 1 = dead)
+  fadeRate: Node // 1 / lifetime in seconds
+  velocity: Node
+  index: Node // Particle slot (random start frame)
+}
+
+/**
+ * Creates the flipbook texture sampler of a particle: picks the frame (over the lifetime,
+ * at a fixed FPS or by speed) within the frame range, then samples the sheet at that frame,
+ * cross-fading to the next one when blending (warped by the motion vectors when set).
+ * Motion vector maps share the sheet layout: RG = UV motion to the next frame, 0.5 = still.
+ */
+export const createFlipbookSampler = (
+  flipbook: NonNullable<FlipbookConfig>,
+  particle: FlipbookParticle,
+  motionVectorMap: THREE.Texture | null = null
+): ((map: THREE.Texture) => Node) => {
+  const rows = Math.max(1, flipbook.rows || 1)
+  const columns = Math.max(1, flipbook.columns || 1)
+  const mode = flipbook.mode ?? FlipbookMode.LIFETIME
+  const loop = flipbook.loop ?? mode === FlipbookMode.FPS
+
+  // Frame range (inclusive), clamped to the sheet
+  const lastSheetFrame = rows * columns - 1
+  const [rangeStart, rangeEnd] = flipbook.frameRange ?? [0, lastSheetFrame]
+  const first = THREE.MathUtils.clamp(Math.floor(rangeStart), 0, lastSheetFrame)
+  const last = THREE.MathUtils.clamp(Math.floor(rangeEnd), first, lastSheetFrame)
+  const frameCount = float(last - first + 1)
+
+  // Continuous frame position within the range (the fraction is the blend to the next frame)
+  let position: Node
+  if (mode === FlipbookMode.SPEED) {
+    const [minSpeed, maxSpeed] = flipbook.speedRange ?? [0, 1]
+    position = particle.velocity
+      .length()
+      .sub(minSpeed)
+      .div(Math.max(maxSpeed - minSpeed, 0.0001))
+      .clamp(0, 1)
+      .mul(frameCount.sub(1))
+  } else {
+    position =
+      mode === FlipbookMode.FPS
+        ? particle.progress.div(particle.fadeRate).mul(flipbook.fps ?? 30)
+        : particle.progress.mul(frameCount)
+    if (flipbook.randomStart) {
+      position = position.add(floor(hash(particle.index.add(7331)).mul(frameCount)))
+    }
+    position = loop ? mod(position, frameCount) : position.min(frameCount.sub(1))
+  }
+
+  const frame = floor(position)
+  const nextFrame = loop ? mod(frame.add(1), frameCount) : frame.add(1).min(frameCount.sub(1))
+  const blend = fract(position)
+
+  // UV of a frame of the range on the sheet (first frame top-left, row by row)
+  const frameUV = (rangeFrame: Node) => {
+    const sheetFrame = rangeFrame.add(first)
+    const col = mod(sheetFrame, columns)
+    const row = floor(sheetFrame.div(columns))
+    const flippedRow = float(rows - 1).sub(row)
+    const offset = vec2(col.div(columns), flippedRow.div(rows))
+    return uv().div(vec2(columns, rows)).add(offset)
+  }
+
+  const uvA = frameUV(frame)
+  if (!flipbook.blend) {
+    return (map) => texture(map, uvA)
+  }
+
+  let uvB = frameUV(nextFrame)
+  let warpedA = uvA
+  if (motionVectorMap) {
+    // Move frame A forward and frame B backward along the motion, meeting at the blend
+    const strength = flipbook.motionVectorStrength ?? 0.1
+    const scale = vec2(strength / columns, strength / rows)
+    const motionA = texture(motionVectorMap, uvA).xy.mul(2).sub(1).mul(scale)
+    const motionB = texture(motionVectorMap, uvB).xy.mul(2).sub(1).mul(scale)
+    warpedA = uvA.sub(motionA.mul(blend))
+    uvB = uvB.add(motionB.mul(float(1).sub(blend)))
+  }
+
+  return (map) => mix(texture(map, warpedA), texture(map, uvB), blend)
+}
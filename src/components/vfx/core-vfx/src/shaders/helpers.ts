@@ -1,4 +1,14 @@
+import { instanceIndex } from 'three/tsl';
 import type { Node } from 'three/webgpu';
+import type { ParticleStorageArrays } from './types';
+
+// Particle slot drawn by the current instance: the sorted order when sorting, else the
+// alive list entries when compacted, else the instance itself
+export const getDrawnParticleIndex = (storage: ParticleStorageArrays): Node => {
+  if (storage.sort) return storage.sort.indices.element(instanceIndex);
+  if (storage.aliveList) return storage.aliveList.indices.element(instanceIndex);
+  return instanceIndex;
+};
 
 // Helper to select color from array based on index (up to 8 colors)
 export const selectColor = (
@@ -4,6 +4,14 @@ export type {
   ParticleUniforms,
   MaterialOptions,
   ShaderFeatures,
+  MeshEmitterStorage,
+  ParticleEventStorage,
+  TrailStorage,
+  ColliderStorage,
+  AttractorStorage,
+  AliveListStorage,
+  SortStorage,
+  UpdateComputeTextures,
 } from './types';
 
 // Helper functions
@@ -14,5 +22,20 @@ export { createInitCompute } from './init';
 export { createSpawnCompute } from './spawn';
 export { createUpdateCompute } from './update';
 
-// Material factory
+// Alive list compaction (indirect draw / dispatch)
+export {
+  appendAliveParticle,
+  createAliveListArgsCompute,
+  createCompactCompute,
+} from './compaction';
+
+// Particle sorting (bitonic sort of the draw order)
+export { createSortCompute } from './sort';
+
+// Particle event buffer helpers
+export { appendParticleEvent, createEventResetCompute } from './events';
+
+// Material factories
 export { createParticleMaterial } from './material';
+export { createFlipbookSampler, type FlipbookParticle } from './flipbook';
+export { createTrailMaterial } from './trail';
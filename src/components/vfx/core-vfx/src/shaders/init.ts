@@ -16,6 +16,7 @@ export const createInitCompute = (storage: ParticleStorageArrays, maxParticles:
     const particleRotation = storage.particleRotations?.element(instanceIndex)
     const colorStart = storage.particleColorStarts?.element(instanceIndex)
     const colorEnd = storage.particleColorEnds?.element(instanceIndex)
+    const origin = storage.particleOrigins?.element(instanceIndex)
 
     // Initialize all particles as dead (below visible range)
     position.assign(vec3(0, -1000, 0))
@@ -32,5 +33,8 @@ export const createInitCompute = (storage: ParticleStorageArrays, maxParticles:
       colorStart.assign(vec3(1, 1, 1))
       colorEnd.assign(vec3(1, 1, 1))
     }
+    if (origin) {
+      origin.assign(vec3(0, 0, 0))
+    }
   })().compute(maxParticles)
 }
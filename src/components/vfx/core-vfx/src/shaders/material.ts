@@ -5,11 +5,8 @@ import {
   vec3,
   vec4,
   mix,
-  floor,
-  mod,
   step,
   texture,
-  instanceIndex,
   positionLocal,
   cos,
   sin,
@@ -20,9 +17,18 @@ import {
   cameraNear,
   cameraFar,
   clamp,
+  hash,
 } from 'three/tsl'
-import { Appearance, Lighting } from '../constants'
+import { Appearance, BillboardLighting, Lighting } from '../constants'
 import type { Node } from 'three/webgpu'
+import { getDrawnParticleIndex } from './helpers'
+import { createFlipbookSampler } from './flipbook'
+import {
+  LitSpriteNodeMaterial,
+  SixWaySpriteNodeMaterial,
+  normalMapBillboardNormal,
+  sphereBillboardNormal,
+} from './billboard-lighting'
 import type { ParticleStorageArrays, ParticleUniforms, MaterialOptions } from './types'
 
 /**
@@ -36,18 +42,25 @@ export const createParticleMaterial = (
   options: MaterialOptions
 ):
   | THREE.SpriteNodeMaterial
+  | LitSpriteNodeMaterial
   | THREE.MeshBasicNodeMaterial
   | THREE.MeshStandardNodeMaterial
   | THREE.MeshPhysicalNodeMaterial => {
   const {
     alphaMap,
     flipbook,
+    motionVectorMap,
     appearance,
     lighting,
+    billboardLighting,
+    normalMap,
+    sixWayLightmap,
     softParticles,
     geometry,
     orientToDirection,
     blending,
+    colorGradient,
+    size3DCurve,
     opacityNode,
     colorNode,
     backdropNode,
@@ -55,21 +68,34 @@ export const createParticleMaterial = (
     castShadowNode,
   } = options
 
-  const lifetime = storage.lifetimes.element(instanceIndex)
-  const particleSize = storage.particleSizes.element(instanceIndex)
+  // Particle slot: drawn instances map to the sorted order or the alive list entries
+  const index = getDrawnParticleIndex(storage)
+  const lifetime = storage.lifetimes.element(index)
+  const particleSize = storage.particleSizes.element(index)
   // Optional arrays (null when feature unused) - use defaults
-  const particleRotation = storage.particleRotations?.element(instanceIndex) ?? vec3(0, 0, 0)
-  const pColorStart = storage.particleColorStarts?.element(instanceIndex)
-  const pColorEnd = storage.particleColorEnds?.element(instanceIndex)
-  const particlePos = storage.positions.element(instanceIndex)
-  const particleVel = storage.velocities.element(instanceIndex)
+  const particleRotation = storage.particleRotations?.element(index) ?? vec3(0, 0, 0)
+  const pColorStart = storage.particleColorStarts?.element(index)
+  const pColorEnd = storage.particleColorEnds?.element(index)
+  const particlePos = storage.positions.element(index)
+  const particleVel = storage.velocities.element(index)
 
   const progress = float(1).sub(lifetime)
 
+  // Color gradient: blend the two rows by a random amount per particle
+  // (both rows hold the same gradient when there is no random gradient)
+  const gradientSample = colorGradient
+    ? mix(
+        texture(colorGradient, vec2(progress, float(0.25))),
+        texture(colorGradient, vec2(progress, float(0.75))),
+        hash(index.add(4242))
+      )
+    : null
+
   // If per-particle colors exist, interpolate between them
   // Otherwise, use uniform colors (single color, no per-particle variation)
-  const currentColor =
-    pColorStart && pColorEnd
+  const currentColor = gradientSample
+    ? gradientSample.xyz
+    : pColorStart && pColorEnd
       ? mix(pColorStart, pColorEnd, progress)
       : mix(uniforms.colorStart0, uniforms.colorEnd0, progress)
   const intensifiedColor = currentColor.mul(uniforms.intensity)
@@ -77,44 +103,49 @@ export const createParticleMaterial = (
   // Sample combined curve texture (R=size, G=opacity, B=velocity, A=rotSpeed)
   const curveSample = texture(curveTexture, vec2(progress, float(0.5)))
 
-  // Size multiplier: use curve if enabled, otherwise interpolate fadeSize prop
+  // Size multiplier: use curve if enabled, otherwise interpolate fadeSize prop (x LOD size)
   const sizeMultiplier = uniforms.fadeSizeCurveEnabled
     .greaterThan(0.5)
     .select(curveSample.x, mix(uniforms.fadeSizeStart, uniforms.fadeSizeEnd, progress))
+    .mul(uniforms.lodSizeScale)
 
   // Opacity multiplier: use curve if enabled, otherwise interpolate fadeOpacity prop
   const opacityMultiplier = uniforms.fadeOpacityCurveEnabled
     .greaterThan(0.5)
     .select(curveSample.y, mix(uniforms.fadeOpacityStart, uniforms.fadeOpacityEnd, progress))
 
-  // Calculate UV - with flipbook support
-  let sampleUV = uv()
-
-  if (flipbook && alphaMap) {
-    const rows = float(flipbook.rows || 1)
-    const columns = float(flipbook.columns || 1)
-    const totalFrames = rows.mul(columns)
-
-    const frameIndex = floor(progress.mul(totalFrames).min(totalFrames.sub(1)))
-
-    const col = mod(frameIndex, columns)
-    const row = floor(frameIndex.div(columns))
-
-    const scaledUV = uv().div(vec2(columns, rows))
-    const offsetX = col.div(columns)
-    const offsetY = rows.sub(1).sub(row).div(rows)
-
-    // @ts-expect-error - TSL node type mismatch
-    sampleUV = scaledUV.add(vec2(offsetX, offsetY))
-  }
+  // Per-axis size: start size per axis x size curve per axis (null = uniform scale)
+  const axisScale = size3DCurve
+    ? uniforms.size3DStart.mul(texture(size3DCurve, vec2(progress, float(0.5))).xyz)
+    : null
+
+  // Billboard lighting, lit modes missing their texture fall back to the spherical normal
+  const billboardMode =
+    (billboardLighting === BillboardLighting.NORMAL_MAP && !normalMap) ||
+    (billboardLighting === BillboardLighting.SIX_WAY && !sixWayLightmap)
+      ? BillboardLighting.SPHERE
+      : billboardLighting
+
+  // Texture sampling - through the flipbook frames when set (alpha map and billboard lighting)
+  const sampleFlipbook = flipbook
+    ? createFlipbookSampler(
+        flipbook,
+        { progress, fadeRate: storage.fadeRates.element(index), velocity: particleVel, index },
+        motionVectorMap
+      )
+    : null
+  const sampleMap = (map: THREE.Texture) =>
+    sampleFlipbook ? sampleFlipbook(map) : texture(map, uv())
 
   let shapeMask: Node
 
   if (geometry) {
     shapeMask = float(1)
   } else if (alphaMap) {
-    const alphaSample = texture(alphaMap, sampleUV)
-    shapeMask = alphaSample.r
+    shapeMask = sampleMap(alphaMap).r
+  } else if (billboardMode === BillboardLighting.SIX_WAY && sixWayLightmap) {
+    // Six-way lightmaps carry the smoke alpha
+    shapeMask = sampleMap(sixWayLightmap.positive).a
   } else {
     const dist = uv().mul(2).sub(1).length()
     switch (appearance) {
@@ -132,6 +163,7 @@ export const createParticleMaterial = (
   }
 
   const baseOpacity = opacityMultiplier
+    .mul(gradientSample ? gradientSample.w : float(1))
     .mul(shapeMask)
     .mul(lifetime.greaterThan(0.001).select(float(1), float(0)))
 
@@ -148,7 +180,7 @@ export const createParticleMaterial = (
     color: currentColor,
     intensifiedColor,
     shapeMask,
-    index: instanceIndex,
+    index,
   }
 
   // Apply custom opacity node if provided
@@ -212,6 +244,9 @@ export const createParticleMaterial = (
     const axisSign = axisType.lessThan(3).select(float(1), float(-1))
     const axisIndex = axisType.mod(3)
 
+    // Per-axis size in LOCAL space, before stretch and rotation
+    const localPos = axisScale ? positionLocal.mul(axisScale) : positionLocal
+
     // Apply stretch along the chosen LOCAL axis BEFORE rotation
     const stretchedLocal = uniforms.stretchEnabled
       .greaterThan(0.5)
@@ -219,15 +254,15 @@ export const createParticleMaterial = (
         axisIndex
           .lessThan(0.5)
           .select(
-            vec3(positionLocal.x.mul(stretchAmount), positionLocal.y, positionLocal.z),
+            vec3(localPos.x.mul(stretchAmount), localPos.y, localPos.z),
             axisIndex
               .lessThan(1.5)
               .select(
-                vec3(positionLocal.x, positionLocal.y.mul(stretchAmount), positionLocal.z),
-                vec3(positionLocal.x, positionLocal.y, positionLocal.z.mul(stretchAmount))
+                vec3(localPos.x, localPos.y.mul(stretchAmount), localPos.z),
+                vec3(localPos.x, localPos.y, localPos.z.mul(stretchAmount))
               )
           ),
-        positionLocal
+        localPos
       )
 
     let rotatedPos: Node
@@ -339,8 +374,23 @@ export const createParticleMaterial = (
 
     return mat
   } else {
-    // Sprite mode (default)
-    const mat = new THREE.SpriteNodeMaterial()
+    // Sprite mode (default), unlit or lit by the scene lights
+    const rotation = particleRotation.y
+    let mat: THREE.SpriteNodeMaterial | LitSpriteNodeMaterial
+    if (billboardMode === BillboardLighting.SIX_WAY && sixWayLightmap) {
+      mat = new SixWaySpriteNodeMaterial(
+        sampleMap(sixWayLightmap.positive),
+        sampleMap(sixWayLightmap.negative)
+      )
+    } else if (billboardMode === BillboardLighting.NORMAL_MAP && normalMap) {
+      mat = new LitSpriteNodeMaterial()
+      mat.normalNode = normalMapBillboardNormal(sampleMap(normalMap), rotation)
+    } else if (billboardMode === BillboardLighting.SPHERE) {
+      mat = new LitSpriteNodeMaterial()
+      mat.normalNode = sphereBillboardNormal()
+    } else {
+      mat = new THREE.SpriteNodeMaterial()
+    }
 
     // Apply custom colorNode if provided, otherwise use default
     const defaultColor = vec4(intensifiedColor, finalOpacity)
@@ -350,9 +400,12 @@ export const createParticleMaterial = (
         : colorNode
       : defaultColor
 
-    mat.positionNode = storage.positions.toAttribute()
-    mat.scaleNode = particleSize.mul(sizeMultiplier)
-    mat.rotationNode = particleRotation.y
+    mat.positionNode =
+      storage.aliveList || storage.sort ? particlePos : storage.positions.toAttribute()
+    // Billboards use the X and Y axis sizes
+    const spriteScale = particleSize.mul(sizeMultiplier)
+    mat.scaleNode = axisScale ? vec2(axisScale.x, axisScale.y).mul(spriteScale) : spriteScale
+    mat.rotationNode = rotation
     mat.transparent = true
     mat.depthWrite = false
     mat.blending = blending
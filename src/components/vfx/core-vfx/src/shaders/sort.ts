@@ -0,0 +1,101 @@
+import { Fn, If, float, uint, instanceIndex, atomicLoad } from 'three/tsl'
+import type * as THREE from 'three/webgpu'
+import type { Node } from 'three/webgpu'
+import { SortMode } from '../constants'
+import type { ParticleStorageArrays, ParticleUniforms } from './types'
+
+// Keys of dead particles and of the padding entries (ascending: drawn last, padding after all)
+const DEAD_KEY = 1e30
+const PADDING_KEY = 2e30
+
+/**
+ * Creates the sort pass: writes one key per drawn entry, then bitonic-sorts the entries by
+ * key (ascending = drawn first). Dispatch the returned computes together, after the update
+ * (and the compaction, whose alive list is sorted instead of every slot).
+ * Uses uniforms.sortCameraPosition (camera in the system's local space) for BACK_TO_FRONT.
+ */
+export const createSortCompute = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  sortMode: string,
+  maxParticles: number
+): THREE.ComputeNode[] => {
+  const sort = storage.sort
+  if (!sort) {
+    throw new Error('createSortCompute: storage has no sort buffers')
+  }
+  const { keys, indices, step, size } = sort
+  const aliveList = storage.aliveList
+
+  const sortKey = (slot: Node, lifetime: Node): Node => {
+    if (sortMode === SortMode.YOUNGEST_FIRST) return lifetime.negate()
+    if (sortMode === SortMode.OLDEST_FIRST) return lifetime
+    // Back to front: farthest (largest squared distance) first
+    const toCamera = storage.positions.element(slot).sub(uniforms.sortCameraPosition)
+    return toCamera.dot(toCamera).negate()
+  }
+
+  // Entries are the alive list when compacted, every slot otherwise
+  const writeKeys = Fn(() => {
+    const count = aliveList ? atomicLoad(aliveList.count.element(0)) : uint(maxParticles)
+    const slot = instanceIndex.toVar()
+    const key = float(PADDING_KEY).toVar()
+    If(instanceIndex.lessThan(count), () => {
+      if (aliveList) slot.assign(aliveList.indices.element(instanceIndex))
+      const lifetime = storage.lifetimes.element(slot)
+      If(lifetime.greaterThan(0), () => {
+        key.assign(sortKey(slot, lifetime))
+      }).Else(() => {
+        key.assign(DEAD_KEY)
+      })
+    })
+    keys.element(instanceIndex).assign(key)
+    indices.element(instanceIndex).assign(slot)
+  })().compute(size)
+
+  const resetStep = Fn(() => {
+    step.element(0).assign(uint(2))
+    step.element(1).assign(uint(1))
+  })().compute(1)
+
+  // One bitonic pass: compare each entry with its partner `distance` away, the order
+  // alternates between blocks of `blockSize` entries
+  const compareAndSwap = Fn(() => {
+    const blockSize = step.element(0)
+    const distance = step.element(1)
+    const partner = instanceIndex.bitXor(distance)
+    If(partner.greaterThan(instanceIndex), () => {
+      const keyA = keys.element(instanceIndex).toVar()
+      const keyB = keys.element(partner).toVar()
+      const ascending = instanceIndex.bitAnd(blockSize).equal(uint(0))
+      If(ascending.select(keyA.greaterThan(keyB), keyA.lessThan(keyB)), () => {
+        const slotA = indices.element(instanceIndex).toVar()
+        keys.element(instanceIndex).assign(keyB)
+        keys.element(partner).assign(keyA)
+        indices.element(instanceIndex).assign(indices.element(partner))
+        indices.element(partner).assign(slotA)
+      })
+    })
+  })().compute(size)
+
+  // Halve the distance, or start the next (twice as large) block size
+  const nextStep = Fn(() => {
+    const blockSize = step.element(0)
+    const distance = step.element(1)
+    If(distance.greaterThan(uint(1)), () => {
+      distance.assign(distance.div(2))
+    }).Else(() => {
+      blockSize.assign(blockSize.mul(2))
+      distance.assign(blockSize.div(2))
+    })
+  })().compute(1)
+
+  // log2(size) * (log2(size) + 1) / 2 passes sort `size` entries
+  const log = Math.log2(size)
+  const passes: THREE.ComputeNode[] = []
+  for (let i = 0; i < (log * (log + 1)) / 2; i++) {
+    passes.push(compareAndSwap, nextStep)
+  }
+
+  return [writeKeys, resetStep, ...passes]
+}
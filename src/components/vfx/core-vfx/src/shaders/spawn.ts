@@ -1,31 +1,41 @@
 import {
   Fn,
   If,
+  Loop,
   float,
   vec3,
+  vec4,
   hash,
   mix,
   floor,
+  uint,
   instanceIndex,
   cos,
   sin,
   sqrt,
   acos,
   PI,
+  max,
 } from 'three/tsl'
 import type { Node } from 'three/webgpu'
-import type { ParticleStorageArrays, ParticleUniforms } from './types'
+import type { MeshEmitterStorage, ParticleStorageArrays, ParticleUniforms } from './types'
 import { selectColor } from './helpers'
+import { appendParticleEvent } from './events'
+import { appendAliveParticle } from './compaction'
+import { ParticleEventType } from '../constants'
 
 /**
  * Creates the spawn compute shader that initializes new particles.
  * This runs when particles need to be spawned, using spawnIndexStart/End uniforms
  * to determine which particle slots to initialize.
+ * Pass baked meshEmitter buffers to enable the MESH emitter shape.
+ * With an alive list, dispatch createAliveListArgsCompute after it so new particles are drawn.
  */
 export const createSpawnCompute = (
   storage: ParticleStorageArrays,
   uniforms: ParticleUniforms,
-  maxParticles: number
+  maxParticles: number,
+  meshEmitter: MeshEmitterStorage | null = null
 ) => {
   return Fn(() => {
     const idx = float(instanceIndex)
@@ -51,9 +61,23 @@ export const createSpawnCompute = (
       const particleRotation = storage.particleRotations?.element(instanceIndex)
       const pColorStart = storage.particleColorStarts?.element(instanceIndex)
       const pColorEnd = storage.particleColorEnds?.element(instanceIndex)
+      const particleOrigin = storage.particleOrigins?.element(instanceIndex)
+      // Slots still alive are already in the alive list (overwritten when the pool is full)
+      const aliveList = storage.aliveList
+      const wasDead = aliveList ? lifetime.lessThanEqual(0).toVar() : null
 
       // Unique random per particle using hash function
-      const particleSeed = idx.add(seed)
+      // Index within the burst (not the buffer slot): a seeded burst matches wherever it lands
+      const burstIdx = idx.sub(startIdx).add(maxParticles).mod(maxParticles)
+      const particleSeed = burstIdx.add(seed)
+
+      // Point along the emitter path for this particle (rate over distance)
+      // spawnFrom equals spawnPosition for a plain burst; start == end means a full ring
+      const burstCount = endIdx.sub(startIdx).add(maxParticles).mod(maxParticles)
+      const pathT = burstIdx.add(1).div(max(burstCount, float(1)))
+      const spawnPoint = burstCount
+        .lessThan(0.5)
+        .select(uniforms.spawnPosition, mix(uniforms.spawnFrom, uniforms.spawnPosition, pathT))
       const randDirX = hash(particleSeed.add(333))
       const randDirY = hash(particleSeed.add(444))
       const randDirZ = hash(particleSeed.add(555))
@@ -72,6 +96,9 @@ export const createSpawnCompute = (
       const randTheta = hash(particleSeed.add(9990))
       const randPhi = hash(particleSeed.add(10100))
       const randHeight = hash(particleSeed.add(11110))
+      const randTriangle = hash(particleSeed.add(12120))
+      const randBaryU = hash(particleSeed.add(13130))
+      const randBaryV = hash(particleSeed.add(14140))
 
       // Calculate position based on emitter shape
       const shapeType = uniforms.emitterShapeType
@@ -192,6 +219,31 @@ export const createSpawnCompute = (
       // POINT (shape 0): no offset
       const pointPos = vec3(0, 0, 0)
 
+      // MESH (shape 6): area-weighted triangle pick, then uniform point on that triangle
+      // Falls back to POINT when no mesh has been baked
+      let meshPos: Node = pointPos
+      let meshNormal: Node = vec3(0, 1, 0)
+      if (meshEmitter) {
+        const lookupIdx = uint(floor(randTriangle.mul(meshEmitter.lookupSize)))
+        const triIdx = uint(meshEmitter.lookup.element(lookupIdx))
+        const vA = meshEmitter.triangles.element(triIdx.mul(3))
+        const vB = meshEmitter.triangles.element(triIdx.mul(3).add(1))
+        const vC = meshEmitter.triangles.element(triIdx.mul(3).add(2))
+        // sqrt on the first barycentric keeps the distribution uniform over the triangle
+        const r1 = sqrt(randBaryU)
+        const localPos = vA
+          .mul(float(1).sub(r1))
+          .add(vB.mul(r1.mul(float(1).sub(randBaryV))))
+          .add(vC.mul(r1.mul(randBaryV)))
+        // Into the system's space; a mesh source is placed by its own transform, not the spawn point
+        meshPos = uniforms.emitterMeshMatrix
+          .mul(vec4(localPos, 1))
+          .xyz.sub(spawnPoint.mul(uniforms.emitterMeshWorld))
+        meshNormal = uniforms.emitterMeshNormalMatrix
+          .mul(meshEmitter.normals.element(triIdx))
+          .normalize()
+      }
+
       // Select position based on shape type
       const shapeOffset = shapeType.lessThan(0.5).select(
         pointPos, // 0: POINT
@@ -203,14 +255,22 @@ export const createSpawnCompute = (
               conePos, // 3: CONE
               shapeType.lessThan(4.5).select(
                 diskPos, // 4: DISK
-                edgePos // 5: EDGE
+                shapeType.lessThan(5.5).select(
+                  edgePos, // 5: EDGE
+                  meshPos // 6: MESH
+                )
               )
             )
           )
         )
       )
 
-      position.assign(uniforms.spawnPosition.add(shapeOffset))
+      position.assign(spawnPoint.add(shapeOffset))
+
+      // Spawn position, center of orbital / radial velocity
+      if (particleOrigin) {
+        particleOrigin.assign(spawnPoint)
+      }
 
       // Random fade rate (needed before velocity calc for attractToCenter)
       const randomFade = mix(uniforms.lifetimeMin, uniforms.lifetimeMax, randFade)
@@ -242,14 +302,24 @@ export const createSpawnCompute = (
         .greaterThan(0.001)
         .select(shapeOffset.div(startPosLength), vec3(0, 0, 0))
 
+      // Mesh normal as direction (MESH shape with emitterMeshNormal enabled)
+      const useMeshNormal = uniforms.emitterMeshNormal
+        .greaterThan(0.5)
+        .and(shapeType.greaterThan(5.5))
+
       // Select direction based on mode
-      const dir = useStartPosAsDir.select(startPosDir, randomDir)
+      const dir = useMeshNormal.select(
+        meshNormal,
+        useStartPosAsDir.select(startPosDir, randomDir)
+      )
 
       const randomSpeed = mix(uniforms.speedMin, uniforms.speedMax, randSpeed)
       const normalVelocity = dir.mul(randomSpeed)
 
-      // Select velocity mode
-      velocity.assign(useAttractToCenter.select(attractVelocity, normalVelocity))
+      // Select velocity mode, plus the inherited emitter velocity
+      velocity.assign(
+        useAttractToCenter.select(attractVelocity, normalVelocity).add(uniforms.spawnVelocity)
+      )
 
       // Random size between min and max
       const randomSize = mix(uniforms.sizeMin, uniforms.sizeMax, randSize)
@@ -264,6 +334,7 @@ export const createSpawnCompute = (
       }
 
       // Pick random start/end colors only if per-particle color arrays exist
+      let birthColor: Node = uniforms.colorStart0
       if (pColorStart && pColorEnd) {
         const startColorIdx = floor(randColorStart.mul(uniforms.colorStartCount))
         const selectedStartColor = selectColor(
@@ -292,9 +363,41 @@ export const createSpawnCompute = (
           uniforms.colorEnd7
         )
         pColorEnd.assign(selectedEndColor)
+        birthColor = selectedStartColor
       }
 
       lifetime.assign(float(1))
+
+      // Add the new particle to the alive list so it is updated and drawn before the next compaction
+      if (aliveList && wasDead) {
+        If(wasDead, () => {
+          appendAliveParticle(aliveList, instanceIndex)
+        })
+      }
+
+      // Collapse the whole trail onto the spawn point so no ribbon links to the previous particle
+      const trail = storage.trail
+      if (trail) {
+        Loop({ start: 0, end: trail.length, type: 'uint' }, ({ i }) => {
+          trail.positions.element(instanceIndex.mul(trail.length).add(i)).assign(position)
+        })
+      }
+
+      // Birth event (sub-emitters / readback)
+      const events = storage.events
+      if (events) {
+        If(uniforms.birthEventsEnabled.greaterThan(0.5), () => {
+          appendParticleEvent(
+            events,
+            ParticleEventType.BIRTH,
+            instanceIndex,
+            position,
+            velocity,
+            birthColor,
+            float(0)
+          )
+        })
+      }
     })
   })().compute(maxParticles)
 }
@@ -0,0 +1,88 @@
+import * as THREE from 'three/webgpu'
+import {
+  float,
+  uint,
+  vec2,
+  vec4,
+  mix,
+  round,
+  texture,
+  uv,
+  cameraPosition,
+} from 'three/tsl'
+import type { Node } from 'three/webgpu'
+import { getDrawnParticleIndex } from './helpers'
+import type { ParticleStorageArrays, ParticleUniforms } from './types'
+
+/**
+ * Creates the trail ribbon material, drawn with createTrailGeometry on an InstancedMesh
+ * (one instance per particle). Each ribbon goes through the particle's ring buffer of
+ * past positions and is expanded sideways to face the camera.
+ * The trail curve texture holds width (R) and opacity (G) along the trail.
+ */
+export const createTrailMaterial = (
+  storage: ParticleStorageArrays,
+  uniforms: ParticleUniforms,
+  trailCurveTexture: THREE.DataTexture,
+  blending: THREE.Blending
+): THREE.MeshBasicNodeMaterial => {
+  const trail = storage.trail
+  if (!trail) {
+    throw new Error('createTrailMaterial: storage has no trail buffer')
+  }
+
+  const length = trail.length
+  // Particle slot: drawn instances map to the sorted order or the alive list entries
+  const index = getDrawnParticleIndex(storage)
+  const lifetime = storage.lifetimes.element(index)
+  const pColorStart = storage.particleColorStarts?.element(index)
+  const pColorEnd = storage.particleColorEnds?.element(index)
+  const progress = float(1).sub(lifetime)
+
+  // Position along the trail (0 = head, 1 = tail) and ribbon side (-1 or 1)
+  const trailT = uv().x
+  const side = uv().y.mul(2).sub(1)
+
+  // Ring buffer slot for this point: newest at trailHead, older going backwards
+  const pointIndex = uint(round(trailT.mul(length - 1)))
+  const head = uint(uniforms.trailHead)
+  const slotAt = (i: Node) =>
+    index.mul(length).add(head.add(uint(length)).sub(i).mod(uint(length)))
+
+  const point = trail.positions.element(slotAt(pointIndex))
+  // Tangent toward the next older point (the tail uses the previous segment)
+  const isTail = pointIndex.greaterThanEqual(uint(length - 1))
+  const newer = trail.positions.element(slotAt(isTail.select(pointIndex.sub(1), pointIndex)))
+  const older = trail.positions.element(slotAt(isTail.select(pointIndex, pointIndex.add(1))))
+  const tangent = newer.sub(older)
+
+  // Camera-facing side vector (zero when the segment is degenerate)
+  const toCamera = cameraPosition.sub(point)
+  const sideDir = tangent.cross(toCamera)
+  const sideVec = sideDir.div(sideDir.length().max(0.0001))
+
+  const curveSample = texture(trailCurveTexture, vec2(trailT, float(0.5)))
+  const width = uniforms.trailWidth.mul(curveSample.x)
+
+  // Head uses the particle color, optionally fading to the tail color
+  const headColor =
+    pColorStart && pColorEnd
+      ? mix(pColorStart, pColorEnd, progress)
+      : mix(uniforms.colorStart0, uniforms.colorEnd0, progress)
+  const tailColor = uniforms.trailColorEndEnabled
+    .greaterThan(0.5)
+    .select(uniforms.trailColorEnd, headColor)
+  const color = mix(headColor, tailColor, trailT).mul(uniforms.intensity)
+
+  const alive = lifetime.greaterThan(0.001).select(float(1), float(0))
+  const opacity = curveSample.y.mul(alive)
+
+  const mat = new THREE.MeshBasicNodeMaterial()
+  mat.positionNode = point.add(sideVec.mul(width.mul(0.5)).mul(side))
+  mat.colorNode = vec4(color, opacity)
+  mat.transparent = true
+  mat.depthWrite = false
+  mat.blending = blending
+  mat.side = THREE.DoubleSide
+  return mat
+}
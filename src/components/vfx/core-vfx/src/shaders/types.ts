@@ -1,10 +1,18 @@
 import type * as THREE from 'three/webgpu'
 import type { Node, StorageBufferNode } from 'three/webgpu'
+import type { FlipbookConfig } from '../types'
 
 // Storage arrays for particle data (uses StorageBufferNode for proper .toAttribute() typing)
 // Optional arrays are null when feature is unused (saves GPU memory):
 // - particleRotations: null when rotation=[0,0] and rotationSpeed=[0,0]
 // - particleColorStarts/Ends: null when single color with no transition
+// - events: null when nothing reads particle events back (no sub-emitters)
+// - trail: null when no trail is drawn
+// - colliders: null when collision has no colliders list
+// - attractors: null when there is no attractors array
+// - particleOrigins: null without velocityOverLifetime (spawn positions for orbital / radial)
+// - aliveList: null without compaction (every slot is updated and drawn)
+// - sort: null without sortMode or with non-normal blending (drawn in slot order)
 export type ParticleStorageArrays = {
   positions: StorageBufferNode
   velocities: StorageBufferNode
@@ -14,6 +22,81 @@ export type ParticleStorageArrays = {
   particleRotations: StorageBufferNode | null
   particleColorStarts: StorageBufferNode | null
   particleColorEnds: StorageBufferNode | null
+  particleOrigins: StorageBufferNode | null
+  events: ParticleEventStorage | null
+  trail: TrailStorage | null
+  colliders: ColliderStorage | null
+  attractors: AttractorStorage | null
+  aliveList: AliveListStorage | null
+  sort: SortStorage | null
+}
+
+// Compacted list of live particle slots, rebuilt after each update and appended to by spawns
+// - indices: particle slot per entry, the first `count` entries are valid
+// - count: single atomic uint, list length
+// - drawArgs: indirect draw records (5 uint each, instanceCount = list length)
+// - dispatchArgs: indirect dispatch size of the update compute (workgroups of 64)
+export type AliveListStorage = {
+  indices: StorageBufferNode
+  count: StorageBufferNode
+  drawArgs: StorageBufferNode
+  dispatchArgs: StorageBufferNode
+  maxParticles: number
+  drawCount: number
+}
+
+// Draw order of the particles, bitonic-sorted on the GPU each frame
+// - keys: float sort key per entry (dead particles and padding sort last)
+// - indices: particle slot per entry, drawn in this order
+// - step: (block size, compare distance) of the current bitonic pass
+// - size: entry count, power of two >= maxParticles
+export type SortStorage = {
+  keys: StorageBufferNode
+  indices: StorageBufferNode
+  step: StorageBufferNode
+  size: number
+}
+
+// Attractors, `attractorCount` uniform of them are active
+// - data: 3 vec4 per attractor: (position, type), (axis / line end, strength), (radius, falloff, 0, 0)
+export type AttractorStorage = {
+  data: StorageBufferNode
+  maxAttractors: number
+}
+
+// Collider primitives, `colliderCount` uniform of them are active
+// - data: 3 vec4 per collider: (position, type), (normal / size / radius), (bounce, friction, die, 0)
+export type ColliderStorage = {
+  data: StorageBufferNode
+  maxColliders: number
+}
+
+// Ring buffer of past positions for trails
+// - positions: `length` vec3 per particle, slot `trailHead` uniform is the newest
+export type TrailStorage = {
+  positions: StorageBufferNode
+  length: number
+}
+
+// Event buffer appended to by the compute shaders and read back on the CPU
+// - data: 4 vec4 per event: (position, type), (velocity, particle index), (color, progress),
+//   (target collider / attractor index, 0, 0, 0)
+// - count: single atomic uint, number of events appended since the last reset
+export type ParticleEventStorage = {
+  data: StorageBufferNode
+  count: StorageBufferNode
+  maxEvents: number
+}
+
+// Baked triangle buffers for the MESH emitter shape (see bakeMeshEmitter)
+// - triangles: 3 vec3 per triangle (a, b, c)
+// - normals: 1 vec3 face normal per triangle
+// - lookup: area-weighted triangle indices, lookupSize entries
+export type MeshEmitterStorage = {
+  triangles: StorageBufferNode
+  normals: StorageBufferNode
+  lookup: StorageBufferNode
+  lookupSize: number
 }
 
 // All uniforms used by the particle system
@@ -24,23 +107,39 @@ export type ParticleUniforms = Record<string, Node>
 // When a feature is disabled, its uniforms and shader code are skipped entirely
 export type ShaderFeatures = {
   turbulence: boolean    // Curl noise turbulence
-  attractors: boolean    // Point/vortex attractors (up to 4)
-  collision: boolean     // Plane collision with bounce/die
+  attractors: boolean    // Attractor buffer (point/vortex/line/repulse)
+  collision: boolean     // Plane and collider collision with bounce/die
   rotation: boolean      // Per-particle rotation and rotation speed
   perParticleColor: boolean // Per-particle color arrays (vs single uniform color)
 }
 
+// Textures sampled by the update compute (each compiles in its feature when set)
+export type UpdateComputeTextures = {
+  sceneDepth?: THREE.Texture | null // Depth-buffer collision
+  vectorField?: THREE.Data3DTexture | null // Vector field force
+  velocityOverLifetime?: THREE.DataTexture | null // Linear / orbital / radial velocity curves
+}
+
 // Material creation options
 export type MaterialOptions = {
   alphaMap: THREE.Texture | null
-  flipbook: { rows: number; columns: number } | null
+  flipbook: FlipbookConfig
+  motionVectorMap: THREE.Texture | null
   appearance: string
   lighting: string
+  // Billboard lighting (BillboardLighting) and its textures
+  billboardLighting: string
+  normalMap: THREE.Texture | null
+  sixWayLightmap: { positive: THREE.Texture; negative: THREE.Texture } | null
   softParticles: boolean
   geometry: THREE.BufferGeometry | null
   orientToDirection: boolean
   shadow: boolean
   blending: THREE.Blending
+  // Color + alpha over lifetime (from createGradientTexture), replaces colorStart / colorEnd
+  colorGradient: THREE.DataTexture | null
+  // Per-axis size curves (from createSize3DCurveTexture), scaled by the size3DStart uniform
+  size3DCurve: THREE.DataTexture | null
   // Custom nodes
   opacityNode: Node | ((data: Record<string, Node>) => Node) | null
   colorNode: Node | ((data: Record<string, Node>, defaultColor: Node) => Node) | null
@@ -2,17 +2,33 @@ import * as THREE from 'three/webgpu';
 import {
   Fn,
   If,
+  Loop,
   float,
   vec2,
   vec3,
+  vec4,
+  ivec2,
+  cos,
+  sin,
   hash,
   mix,
+  uint,
   texture,
+  texture3D,
+  textureLoad,
   instanceIndex,
+  atomicLoad,
   mx_noise_vec3,
 } from 'three/tsl';
 import type { Node } from 'three/webgpu';
-import type { ParticleStorageArrays, ParticleUniforms, ShaderFeatures } from './types';
+import type {
+  ParticleStorageArrays,
+  ParticleUniforms,
+  ShaderFeatures,
+  UpdateComputeTextures,
+} from './types';
+import { appendParticleEvent } from './events';
+import { ParticleEventType } from '../constants';
 
 // Default features - all enabled (for backwards compatibility)
 const DEFAULT_FEATURES: ShaderFeatures = {
@@ -26,27 +42,52 @@ const DEFAULT_FEATURES: ShaderFeatures = {
 /**
  * Creates the update compute shader that simulates particle physics each frame.
  * Features can be disabled to generate a simpler/faster shader.
+ * Optional textures compile in depth-buffer collision and the vector field force.
+ * With an alive list, dispatch it indirectly (getAliveListDispatch) to only run live particles.
  */
 export const createUpdateCompute = (
   storage: ParticleStorageArrays,
   uniforms: ParticleUniforms,
   curveTexture: THREE.DataTexture,
   maxParticles: number,
-  features: Partial<ShaderFeatures> = {}
+  features: Partial<ShaderFeatures> = {},
+  textures: UpdateComputeTextures = {}
 ) => {
   const f = { ...DEFAULT_FEATURES, ...features };
+  const sceneDepthTexture = textures.sceneDepth ?? null;
+  const vectorFieldTexture = textures.vectorField ?? null;
+  const velocityOverLifetimeTexture = textures.velocityOverLifetime ?? null;
   
   return Fn(() => {
-    const position = storage.positions.element(instanceIndex);
-    const velocity = storage.velocities.element(instanceIndex);
-    const lifetime = storage.lifetimes.element(instanceIndex);
-    const fadeRate = storage.fadeRates.element(instanceIndex);
+    // Particle slot: an alive list entry when compacted (dispatched over live particles only)
+    const aliveList = storage.aliveList;
+    const index = aliveList ? aliveList.indices.element(instanceIndex) : instanceIndex;
+    const position = storage.positions.element(index);
+    const velocity = storage.velocities.element(index);
+    const lifetime = storage.lifetimes.element(index);
+    const fadeRate = storage.fadeRates.element(index);
     // Optional array (null when no rotation/rotationSpeed)
-    const particleRotation = f.rotation ? storage.particleRotations?.element(instanceIndex) : null;
-    const particleSize = storage.particleSizes.element(instanceIndex);
+    const particleRotation = f.rotation ? storage.particleRotations?.element(index) : null;
+    const particleSize = storage.particleSizes.element(index);
+    const events = storage.events;
     const dt = uniforms.deltaTime;
 
-    If(lifetime.greaterThan(0), () => {
+    // Current color for events (same interpolation as the material)
+    const eventColor = (progress: Node) =>
+      f.perParticleColor && storage.particleColorStarts && storage.particleColorEnds
+        ? mix(
+            storage.particleColorStarts.element(index),
+            storage.particleColorEnds.element(index),
+            progress
+          )
+        : mix(uniforms.colorStart0, uniforms.colorEnd0, progress);
+
+    // Alive list dispatches are rounded up to whole workgroups, skip the threads past its end
+    const isAlive = aliveList
+      ? instanceIndex.lessThan(atomicLoad(aliveList.count.element(0))).and(lifetime.greaterThan(0))
+      : lifetime.greaterThan(0);
+
+    If(isAlive, () => {
       // All operations use deltaTime for framerate independence
       // Size-based gravity: gravity * (1 + size * sizeBasedGravity)
       const gravityMultiplier = float(1).add(
@@ -152,86 +193,391 @@ export const createUpdateCompute = (
       }
 
       // === ATTRACTORS (conditional) ===
-      if (f.attractors) {
-        const attractorCount = uniforms.attractorCount;
-
-        const applyAttractor = (
-          aPos: Node,
-          aStrength: Node,
-          aRadius: Node,
-          aType: Node,
-          aAxis: Node
-        ) => {
-          If(aStrength.abs().greaterThan(0.001), () => {
-            const toAttractor = aPos.sub(position);
-            const dist = toAttractor.length();
-            const safeDist = dist.max(0.01);
-            const direction = toAttractor.div(safeDist);
-
-            const falloff = aRadius.greaterThan(0.001).select(
-              float(1).sub(dist.div(aRadius)).max(0),
-              float(1).div(safeDist.mul(safeDist).add(1))
-            );
+      if (f.attractors && storage.attractors) {
+        const attractors = storage.attractors.data;
+
+        Loop({ start: 0, end: uint(uniforms.attractorCount), type: 'uint' }, ({ i }) => {
+          const a0 = attractors.element(i.mul(3));
+          const a1 = attractors.element(i.mul(3).add(1));
+          const a2 = attractors.element(i.mul(3).add(2));
+          const attractorType = a0.w;
+          const strength = a1.w;
+          const radius = a2.x;
+          const falloffType = a2.y;
+          const isLine = attractorType.greaterThan(1.5).and(attractorType.lessThan(2.5));
+
+          // Point the particle is pulled toward (closest point of the segment for lines)
+          const target = a0.xyz.toVar();
+          If(isLine, () => {
+            const segment = a1.xyz.sub(a0.xyz);
+            const t = position
+              .sub(a0.xyz)
+              .dot(segment)
+              .div(segment.dot(segment).max(0.0001))
+              .clamp(0, 1);
+            target.assign(a0.xyz.add(segment.mul(t)));
+          });
+
+          const toAttractor = target.sub(position);
+          const dist = toAttractor.length();
+          const safeDist = dist.max(0.01);
+          const direction = toAttractor.div(safeDist);
+          const hasRadius = radius.greaterThan(0.001);
 
-            const force = aType.lessThan(0.5).select(
-              direction.mul(aStrength).mul(falloff),
-              (() => {
-                const tangent = vec3(
-                  aAxis.y.mul(toAttractor.z).sub(aAxis.z.mul(toAttractor.y)),
-                  aAxis.z.mul(toAttractor.x).sub(aAxis.x.mul(toAttractor.z)),
-                  aAxis.x.mul(toAttractor.y).sub(aAxis.y.mul(toAttractor.x))
+          // Enter event when last step's position was outside the radius
+          if (events) {
+            const previousDist = target.sub(position.sub(velocity.mul(dt))).length();
+            If(
+              uniforms.attractorEventsEnabled
+                .greaterThan(0.5)
+                .and(hasRadius)
+                .and(dist.lessThan(radius))
+                .and(previousDist.greaterThanEqual(radius)),
+              () => {
+                appendParticleEvent(
+                  events,
+                  ParticleEventType.ATTRACTOR_ENTER,
+                  index,
+                  position,
+                  velocity,
+                  eventColor(progress),
+                  progress,
+                  float(i)
                 );
-                const tangentLen = tangent.length().max(0.001);
-                return tangent.div(tangentLen).mul(aStrength).mul(falloff);
-              })()
+              }
             );
+          }
 
+          // Falloff with distance, zero outside the radius (radius 0 = infinite)
+          const linear = hasRadius.select(float(1).sub(dist.div(radius)).max(0), float(1));
+          const inRange = hasRadius.not().or(dist.lessThan(radius)).select(float(1), float(0));
+          const falloff = float(0).toVar();
+          If(falloffType.lessThan(0.5), () => {
+            falloff.assign(linear);
+          })
+            .ElseIf(falloffType.lessThan(1.5), () => {
+              falloff.assign(linear.mul(linear).mul(float(3).sub(linear.mul(2))));
+            })
+            .ElseIf(falloffType.lessThan(2.5), () => {
+              falloff.assign(float(1).div(safeDist.mul(safeDist).add(1)).mul(inRange));
+            })
+            .Else(() => {
+              falloff.assign(inRange);
+            });
+
+          const force = vec3(0).toVar();
+          If(attractorType.lessThan(0.5).or(isLine), () => {
+            // Point / line: pull toward the target
+            force.assign(direction.mul(strength).mul(falloff));
+          })
+            .ElseIf(attractorType.lessThan(1.5), () => {
+              // Vortex: a1.xyz = axis, swirl around it
+              const tangent = a1.xyz.cross(toAttractor);
+              const tangentLen = tangent.length().max(0.001);
+              force.assign(tangent.div(tangentLen).mul(strength).mul(falloff));
+            })
+            .Else(() => {
+              // Repulse: push radially away
+              force.assign(direction.negate().mul(strength).mul(falloff));
+            });
+
+          // Zero-strength attractors only act as event triggers
+          If(strength.abs().greaterThan(0.001), () => {
             velocity.addAssign(force.mul(uniforms.deltaTime));
           });
-        };
-
-        If(attractorCount.greaterThan(0), () => {
-          applyAttractor(uniforms.attractor0Pos, uniforms.attractor0Strength, uniforms.attractor0Radius, uniforms.attractor0Type, uniforms.attractor0Axis);
-        });
-        If(attractorCount.greaterThan(1), () => {
-          applyAttractor(uniforms.attractor1Pos, uniforms.attractor1Strength, uniforms.attractor1Radius, uniforms.attractor1Type, uniforms.attractor1Axis);
-        });
-        If(attractorCount.greaterThan(2), () => {
-          applyAttractor(uniforms.attractor2Pos, uniforms.attractor2Strength, uniforms.attractor2Radius, uniforms.attractor2Type, uniforms.attractor2Axis);
         });
-        If(attractorCount.greaterThan(3), () => {
-          applyAttractor(uniforms.attractor3Pos, uniforms.attractor3Strength, uniforms.attractor3Radius, uniforms.attractor3Type, uniforms.attractor3Axis);
+      }
+
+      // === VECTOR FIELD (conditional) ===
+      if (vectorFieldTexture) {
+        // Position inside the field bounds (0-1 on each axis)
+        const local = position.sub(uniforms.vectorFieldMin).div(uniforms.vectorFieldSize);
+        const inside = local.x
+          .min(local.y)
+          .min(local.z)
+          .greaterThanEqual(0)
+          .and(local.x.max(local.y).max(local.z).lessThanEqual(1));
+
+        If(uniforms.vectorFieldEnabled.greaterThan(0.5).and(inside), () => {
+          const fieldVelocity = texture3D(vectorFieldTexture, local).xyz.mul(
+            uniforms.vectorFieldIntensity
+          );
+          // Tightness is per 1/60s step, converted to this frame's deltaTime
+          const blend = float(1).sub(
+            float(1).sub(uniforms.vectorFieldTightness).pow(dt.mul(60))
+          );
+          velocity.assign(mix(velocity.add(fieldVelocity.mul(dt)), fieldVelocity, blend));
         });
       }
 
       // Apply velocity to position, scaled by speedScale (friction/curve)
       position.addAssign(velocity.mul(dt).mul(speedScale));
 
+      // === VELOCITY OVER LIFETIME (conditional) ===
+      // Moves the particle without changing its stored velocity
+      if (velocityOverLifetimeTexture) {
+        // R = linear, G = orbital, B = radial curve multipliers
+        const curves = texture(velocityOverLifetimeTexture, vec2(progress, float(0.5)));
+        position.addAssign(uniforms.velocityLinear.mul(curves.x).mul(dt));
+
+        const origin = storage.particleOrigins?.element(index);
+        if (origin) {
+          const center = origin.add(uniforms.velocityCenter);
+          const offset = position.sub(center).toVar();
+
+          // Orbital: rotate the offset by |omega| * dt around omega (exact, no outward drift)
+          const omega = uniforms.velocityOrbital.mul(curves.y);
+          const angle = omega.length().mul(dt);
+          If(angle.greaterThan(0.000001), () => {
+            const axis = omega.normalize();
+            const cosA = cos(angle);
+            const rotated = offset
+              .mul(cosA)
+              .add(axis.cross(offset).mul(sin(angle)))
+              .add(axis.mul(axis.dot(offset)).mul(float(1).sub(cosA)));
+            position.assign(center.add(rotated));
+            offset.assign(rotated);
+          });
+
+          // Radial: away from the center, stopping at the center when moving inward
+          const distance = offset.length();
+          If(distance.greaterThan(0.0001), () => {
+            const step = uniforms.velocityRadial.mul(curves.z).mul(dt).max(distance.negate());
+            position.addAssign(offset.div(distance).mul(step));
+          });
+        }
+      }
+
       // === COLLISION (conditional) ===
       if (f.collision) {
         If(uniforms.collisionEnabled.greaterThan(0.5), () => {
-          const planeY = uniforms.collisionPlaneY;
-          const bounce = uniforms.collisionBounce;
-          const friction = uniforms.collisionFriction;
-          const shouldDie = uniforms.collisionDie;
-
-          If(position.y.lessThan(planeY), () => {
-            If(shouldDie.greaterThan(0.5), () => {
-              lifetime.assign(float(0));
-              position.y.assign(float(-1000));
+          // Collision event, skipping resting contacts (less than two frames of gravity)
+          const collisionEvent = (hitPoint: Node, normalSpeed: Node, target: Node | number) => {
+            if (!events) return;
+            const restingSpeed = uniforms.gravity.length().mul(dt).mul(2);
+            If(
+              uniforms.collisionEventsEnabled
+                .greaterThan(0.5)
+                .and(normalSpeed.abs().greaterThan(restingSpeed)),
+              () => {
+                appendParticleEvent(
+                  events,
+                  ParticleEventType.COLLISION,
+                  index,
+                  hitPoint,
+                  velocity,
+                  eventColor(progress),
+                  progress,
+                  target
+                );
+              }
+            );
+          };
+
+          const killOnCollision = (hitPoint: Node) => {
+            if (events) {
+              If(uniforms.deathEventsEnabled.greaterThan(0.5), () => {
+                appendParticleEvent(
+                  events,
+                  ParticleEventType.DEATH,
+                  index,
+                  hitPoint,
+                  velocity,
+                  eventColor(progress),
+                  float(1)
+                );
+              });
+            }
+            lifetime.assign(float(0));
+            position.y.assign(float(-1000));
+          };
+
+          // Move the particle onto the surface, then bounce (reflect the incoming normal
+          // velocity, damp the tangential part) or die
+          const resolveContact = (
+            hitPoint: Node,
+            normal: Node,
+            bounce: Node,
+            friction: Node,
+            die: Node,
+            target: Node | number
+          ) => {
+            const normalSpeed = velocity.dot(normal);
+            collisionEvent(hitPoint, normalSpeed, target);
+
+            If(die.greaterThan(0.5), () => {
+              killOnCollision(hitPoint);
             }).Else(() => {
-              position.y.assign(planeY);
-              velocity.y.assign(velocity.y.abs().mul(bounce));
-              velocity.x.mulAssign(friction);
-              velocity.z.mulAssign(friction);
+              position.assign(hitPoint);
+              If(normalSpeed.lessThan(0), () => {
+                const tangent = velocity.sub(normal.mul(normalSpeed));
+                velocity.assign(tangent.mul(friction).sub(normal.mul(normalSpeed.mul(bounce))));
+              });
             });
-          });
+          };
+
+          // Horizontal plane (default collider when no colliders list is given)
+          const planeY = uniforms.collisionPlaneY;
+          If(
+            uniforms.collisionPlaneEnabled.greaterThan(0.5).and(position.y.lessThan(planeY)),
+            () => {
+              const hitPoint = vec3(position.x, planeY, position.z);
+              collisionEvent(hitPoint, velocity.y, -1);
+
+              If(uniforms.collisionDie.greaterThan(0.5), () => {
+                killOnCollision(hitPoint);
+              }).Else(() => {
+                position.y.assign(planeY);
+                velocity.y.assign(velocity.y.abs().mul(uniforms.collisionBounce));
+                velocity.x.mulAssign(uniforms.collisionFriction);
+                velocity.z.mulAssign(uniforms.collisionFriction);
+              });
+            }
+          );
+
+          // Collider primitives, each with its own bounce (c2.x), friction (c2.y) and die (c2.z)
+          if (storage.colliders) {
+            const colliders = storage.colliders.data;
+
+            Loop({ start: 0, end: uint(uniforms.colliderCount), type: 'uint' }, ({ i }) => {
+              const c0 = colliders.element(i.mul(3));
+              const c1 = colliders.element(i.mul(3).add(1));
+              const c2 = colliders.element(i.mul(3).add(2));
+              const colliderType = c0.w;
+              const offset = position.sub(c0.xyz);
+
+              // Signed distance to the surface (negative = penetrating) and push-out normal
+              const dist = float(1).toVar();
+              const normal = vec3(0, 1, 0).toVar();
+
+              If(colliderType.lessThan(0.5), () => {
+                // Plane: c1.xyz = normal
+                dist.assign(offset.dot(c1.xyz));
+                normal.assign(c1.xyz);
+              })
+                .ElseIf(colliderType.lessThan(1.5), () => {
+                  // Sphere: c1.x = radius
+                  const len = offset.length();
+                  dist.assign(len.sub(c1.x));
+                  normal.assign(offset.div(len.max(0.0001)));
+                })
+                .ElseIf(colliderType.lessThan(2.5), () => {
+                  // Box: c1.xyz = half size, pushed out through the nearest face
+                  const q = offset.abs().sub(c1.xyz);
+                  dist.assign(q.x.max(q.y).max(q.z));
+                  If(q.x.greaterThanEqual(q.y).and(q.x.greaterThanEqual(q.z)), () => {
+                    normal.assign(vec3(offset.x.sign(), 0, 0));
+                  })
+                    .ElseIf(q.y.greaterThanEqual(q.z), () => {
+                      normal.assign(vec3(0, offset.y.sign(), 0));
+                    })
+                    .Else(() => {
+                      normal.assign(vec3(0, 0, offset.z.sign()));
+                    });
+                })
+                .Else(() => {
+                  // Vertical cylinder: c1.x = radius, c1.y = half height
+                  const radialLen = vec2(offset.x, offset.z).length();
+                  const side = radialLen.sub(c1.x);
+                  const cap = offset.y.abs().sub(c1.y);
+                  dist.assign(side.max(cap));
+                  If(side.greaterThan(cap), () => {
+                    normal.assign(vec3(offset.x, 0, offset.z).div(radialLen.max(0.0001)));
+                  }).Else(() => {
+                    normal.assign(vec3(0, offset.y.sign(), 0));
+                  });
+                });
+
+              If(dist.lessThan(0).and(lifetime.greaterThan(0)), () => {
+                resolveContact(
+                  position.sub(normal.mul(dist)),
+                  normal,
+                  c2.x,
+                  c2.y,
+                  c2.z,
+                  float(i)
+                );
+              });
+            });
+          }
+
+          // Screen-space collision against the scene depth buffer (rendered last frame)
+          if (sceneDepthTexture) {
+            const depthSize = uniforms.sceneDepthSize;
+            const maxPixel = ivec2(depthSize).sub(1);
+
+            // View-space position of the scene surface at a depth pixel
+            const surfaceAt = (pixel: Node) => {
+              const depth = textureLoad(sceneDepthTexture, pixel).x;
+              const pixelUv = vec2(pixel).add(0.5).div(depthSize);
+              const ndc = vec4(pixelUv.x.mul(2).sub(1), pixelUv.y.mul(-2).add(1), depth, 1);
+              const view = uniforms.sceneDepthProjectionInverse.mul(ndc);
+              return view.xyz.div(view.w);
+            };
+
+            If(
+              uniforms.depthCollisionEnabled.greaterThan(0.5).and(lifetime.greaterThan(0)),
+              () => {
+                const viewPos = uniforms.sceneDepthView.mul(vec4(position, 1));
+                const clip = uniforms.sceneDepthProjection.mul(viewPos);
+                const ndc = clip.xy.div(clip.w);
+                const screenUv = vec2(ndc.x.mul(0.5).add(0.5), ndc.y.mul(-0.5).add(0.5));
+                const onScreen = clip.w
+                  .greaterThan(0)
+                  .and(screenUv.x.greaterThanEqual(0))
+                  .and(screenUv.x.lessThanEqual(1))
+                  .and(screenUv.y.greaterThanEqual(0))
+                  .and(screenUv.y.lessThanEqual(1));
+
+                If(onScreen, () => {
+                  const pixel = ivec2(screenUv.mul(depthSize)).min(maxPixel);
+                  const surface = surfaceAt(pixel);
+                  // Positive when the particle is behind the surface (view z looks down -z)
+                  const penetration = surface.z.sub(viewPos.z);
+
+                  If(
+                    penetration
+                      .greaterThan(0)
+                      .and(penetration.lessThan(uniforms.depthCollisionThickness)),
+                    () => {
+                      // Surface normal from the neighbouring depth pixels, facing the camera
+                      const dx = surfaceAt(pixel.add(ivec2(1, 0)).min(maxPixel)).sub(surface);
+                      const dy = surfaceAt(pixel.add(ivec2(0, 1)).min(maxPixel)).sub(surface);
+                      const viewNormal = dy.cross(dx).normalize().toVar();
+                      If(viewNormal.dot(surface).greaterThan(0), () => {
+                        viewNormal.assign(viewNormal.negate());
+                      });
+
+                      const cameraWorld = uniforms.sceneDepthCameraWorld;
+                      resolveContact(
+                        cameraWorld.mul(vec4(surface, 1)).xyz,
+                        cameraWorld.mul(vec4(viewNormal, 0)).xyz.normalize(),
+                        uniforms.collisionBounce,
+                        uniforms.collisionFriction,
+                        uniforms.collisionDie,
+                        -1
+                      );
+                    }
+                  );
+                });
+              }
+            );
+          }
         });
       }
 
+      // === TRAIL (conditional) ===
+      // Keep the newest ring slot on the particle; the CPU advances trailHead at the trail interval
+      if (storage.trail) {
+        const trailLength = storage.trail.length;
+        storage.trail.positions
+          .element(index.mul(trailLength).add(uint(uniforms.trailHead)))
+          .assign(position);
+      }
+
       // === ROTATION (conditional) ===
       if (particleRotation) {
-        const idx = float(instanceIndex);
+        const idx = float(index);
         const rotSpeedX = mix(uniforms.rotationSpeedMinX, uniforms.rotationSpeedMaxX, hash(idx.add(8888)));
         const rotSpeedY = mix(uniforms.rotationSpeedMinY, uniforms.rotationSpeedMaxY, hash(idx.add(9999)));
         const rotSpeedZ = mix(uniforms.rotationSpeedMinZ, uniforms.rotationSpeedMaxZ, hash(idx.add(10101)));
@@ -252,6 +598,22 @@ export const createUpdateCompute = (
       lifetime.subAssign(fadeRate.mul(uniforms.deltaTime));
 
       If(lifetime.lessThanEqual(0), () => {
+        // Death event (sub-emitters / readback)
+        // Particles killed by collision already sent theirs (lifetime was 0 before this step)
+        if (events) {
+          const diedThisStep = lifetime.add(fadeRate.mul(dt)).greaterThan(0);
+          If(uniforms.deathEventsEnabled.greaterThan(0.5).and(diedThisStep), () => {
+            appendParticleEvent(
+              events,
+              ParticleEventType.DEATH,
+              index,
+              position,
+              velocity,
+              eventColor(float(1)),
+              float(1)
+            );
+          });
+        }
         lifetime.assign(float(0));
         position.y.assign(float(-1000));
       });
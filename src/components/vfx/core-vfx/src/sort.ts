@@ -0,0 +1,29 @@
+import * as THREE from 'three/webgpu'
+import { instancedArray } from 'three/tsl'
+import { Blending, SortMode } from './constants'
+import type { SortStorage } from './shaders/types'
+
+// Smallest sort size: a full workgroup of 64, so the sort computes need no bounds checks
+const MIN_SORT_SIZE = 64
+
+// Create the sort buffers (entry count rounded up to a power of two for the bitonic sort)
+export const createSortStorage = (maxParticles: number): SortStorage => {
+  const size = Math.max(MIN_SORT_SIZE, THREE.MathUtils.ceilPowerOfTwo(maxParticles))
+  return {
+    keys: instancedArray(size, 'float'),
+    indices: instancedArray(size, 'uint'),
+    step: instancedArray(new Uint32Array([2, 1]), 'uint'),
+    size,
+  }
+}
+
+// Sorting only fixes the order of normal-blended particles (other blendings are order independent)
+export const isSortEnabled = (sortMode: string | undefined, blending: THREE.Blending) =>
+  !!sortMode && sortMode !== SortMode.NONE && blending === Blending.NORMAL
+
+// Camera position in the local space of the object the particles are drawn with
+export const getSortCameraPosition = (
+  camera: THREE.Camera,
+  object: THREE.Object3D,
+  target: THREE.Vector3
+) => object.worldToLocal(target.setFromMatrixPosition(camera.matrixWorld))
@@ -0,0 +1,81 @@
+import { coreStore, type EmitOptions } from './core-store'
+import { ParticleEventType } from './constants'
+import type { ParticleEvent } from './events'
+import type { SubEmitterConfig } from './types'
+import { rgbToHex, toRange } from './utils'
+
+// Convert a sub-emitter trigger to the matching particle event type
+export const subEmitterTriggerToEventType = (trigger: SubEmitterConfig['trigger']): number => {
+  switch (trigger) {
+    case 'birth':
+      return ParticleEventType.BIRTH
+    case 'collision':
+      return ParticleEventType.COLLISION
+    case 'death':
+    default:
+      return ParticleEventType.DEATH
+  }
+}
+
+// Check which event types a list of sub-emitters listens to
+export const getSubEmitterTriggers = (subEmitters: SubEmitterConfig[] | null | undefined) => {
+  const list = subEmitters ?? []
+  return {
+    birth: list.some((s) => s.trigger === 'birth'),
+    death: list.some((s) => s.trigger === 'death'),
+    collision: list.some((s) => s.trigger === 'collision'),
+  }
+}
+
+// Build the emit options a sub-emitter sends for a single particle event
+export const getSubEmitterEmitOptions = (
+  event: ParticleEvent,
+  subEmitter: SubEmitterConfig
+): EmitOptions => {
+  const [countMin, countMax] = toRange(subEmitter.count, [1, 1])
+  const count = Math.round(countMin + Math.random() * (countMax - countMin))
+  const overrides: Record<string, unknown> = { ...subEmitter.overrides }
+
+  // Inherit velocity: aim the child burst along the parent velocity, scaled
+  const inherit = subEmitter.inheritVelocity ?? 0
+  if (inherit > 0) {
+    const [vx, vy, vz] = event.velocity
+    const speed = Math.sqrt(vx * vx + vy * vy + vz * vz)
+    if (speed > 0.0001) {
+      const dir = [vx / speed, vy / speed, vz / speed]
+      overrides.direction = [
+        [dir[0], dir[0]],
+        [dir[1], dir[1]],
+        [dir[2], dir[2]],
+      ]
+      overrides.speed = speed * inherit
+    }
+  }
+
+  if (subEmitter.inheritColor) {
+    overrides.colorStart = [rgbToHex(event.color)]
+  }
+
+  const [x, y, z] = event.position
+  return { x, y, z, count, overrides }
+}
+
+// Fire sub-emitters for a batch of particle events read back from the GPU
+export const triggerSubEmitters = (
+  events: ParticleEvent[],
+  subEmitters: SubEmitterConfig[],
+  emit: (name: string, options?: EmitOptions) => boolean = coreStore.getState().emit
+) => {
+  if (!events.length || !subEmitters.length) return
+
+  for (const subEmitter of subEmitters) {
+    const eventType = subEmitterTriggerToEventType(subEmitter.trigger)
+    const probability = subEmitter.probability ?? 1
+
+    for (const event of events) {
+      if (event.type !== eventType) continue
+      if (probability < 1 && Math.random() >= probability) continue
+      emit(subEmitter.system, getSubEmitterEmitOptions(event, subEmitter))
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import * as THREE from 'three/webgpu'
+import { MAX_TRAIL_LENGTH } from './constants'
+import type { TrailConfig } from './types'
+
+// Clamp a trail config length to the supported range (at least 2 points for a segment)
+export const getTrailLength = (trail: TrailConfig | undefined): number => {
+  if (!trail) return 0
+  return Math.min(Math.max(Math.floor(trail.length), 2), MAX_TRAIL_LENGTH)
+}
+
+// Create the ribbon strip drawn once per particle (instanced)
+// Vertex positions are computed in the shader; uv.x = position along the trail
+// (0 = head, 1 = tail), uv.y = ribbon side (0 or 1)
+export const createTrailGeometry = (length: number): THREE.BufferGeometry => {
+  const vertexCount = length * 2
+  const positions = new Float32Array(vertexCount * 3)
+  const uvs = new Float32Array(vertexCount * 2)
+  const indices: number[] = []
+
+  for (let i = 0; i < length; i++) {
+    const t = i / (length - 1)
+    uvs.set([t, 0, t, 1], i * 4)
+
+    if (i < length - 1) {
+      const a = i * 2
+      indices.push(a, a + 1, a + 2, a + 1, a + 3, a + 2)
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2))
+  geometry.setIndex(indices)
+  return geometry
+}
@@ -1,5 +1,13 @@
 import type * as THREE from 'three/webgpu';
-import type { Appearance, Blending, EmitterShape, Lighting } from './constants';
+import type {
+  Appearance,
+  BillboardLighting,
+  Blending,
+  EmitterShape,
+  FlipbookMode,
+  Lighting,
+  SortMode,
+} from './constants';
 
 // Curve point for Bezier splines
 export type CurvePoint = {
@@ -31,24 +39,207 @@ export type TurbulenceConfig = {
   speed?: number;
 } | null;
 
+// Vector field grid (see parseFGA / parseVectorFieldJSON)
+// vectors: x, y, z per cell, x varying fastest, then y, then z
+export type VectorFieldData = {
+  resolution: [number, number, number];
+  bounds: { min: [number, number, number]; max: [number, number, number] };
+  vectors: Float32Array;
+};
+
+// Vector field force configuration
+export type VectorFieldConfig = {
+  /** Field data, or URL of a .fga / JSON file */
+  field: VectorFieldData | string;
+  /** World-space box the field covers (default: the field's own bounds) */
+  bounds?: { min: [number, number, number]; max: [number, number, number] };
+  /** Multiplier applied to the field vectors */
+  intensity?: number;
+  /** 0 = field accelerates particles, 1 = particles move exactly with the field */
+  tightness?: number;
+} | null;
+
 // Attractor configuration
 export type AttractorConfig = {
+  /** Point position, or segment start for 'line' */
   position?: [number, number, number];
+  /** Negative values push away (point/line) or reverse the swirl (vortex) */
   strength?: number;
+  /** Range of the attractor, 0 = infinite */
   radius?: number;
-  type?: 'point' | 'vortex';
+  type?: 'point' | 'vortex' | 'line' | 'repulse';
+  /** Vortex swirl axis */
   axis?: [number, number, number];
+  /** Segment end for 'line' */
+  end?: [number, number, number];
+  /** Strength over distance (default: 'linear' with a radius, 'inverse-square' without) */
+  falloff?: 'linear' | 'smooth' | 'inverse-square' | 'constant';
+};
+
+// Collider primitive (world space)
+// bounce/friction/die default to the values of the collision config
+export type ColliderConfig = {
+  type: 'plane' | 'sphere' | 'box' | 'cylinder';
+  /** Plane point, or sphere/box/cylinder center */
+  position?: [number, number, number];
+  /** Plane normal (normalized on upload) */
+  normal?: [number, number, number];
+  /** Sphere/cylinder radius */
+  radius?: number;
+  /** Box size [x, y, z] */
+  size?: [number, number, number];
+  /** Cylinder height */
+  height?: number;
+  bounce?: number;
+  friction?: number;
+  die?: boolean;
 };
 
 // Collision configuration
+// Without colliders, particles collide with a horizontal plane (plane.y, 0 by default)
 export type CollisionConfig = {
   plane?: { y: number };
+  /** Colliders, or a function called every frame for moving colliders */
+  colliders?: ColliderConfig[] | (() => ColliderConfig[]) | null;
+  /** Collide with the scene depth buffer (needs coreStore.setSceneDepth) */
+  depth?: boolean;
+  /** How far behind the depth surface a particle still collides (view units) */
+  depthThickness?: number;
   bounce?: number;
   friction?: number;
   die?: boolean;
   sizeBasedGravity?: number;
 } | null;
 
+// Sub-emitter configuration - triggers another registered system from particle events
+// The triggered system receives the event position (its own position prop is still added)
+// Particle event names (see ParticleEventType)
+export type ParticleEventName = 'birth' | 'death' | 'collision' | 'attractorEnter';
+
+// Particle events delivered to an onParticleEvent listener
+export type ParticleEventsConfig = {
+  /** Event types read back (default: death, collision, attractorEnter) */
+  types?: ParticleEventName[];
+  /** Max onParticleEvent calls per frame, extra events are dropped (default 64) */
+  maxPerFrame?: number;
+};
+
+export type SubEmitterConfig = {
+  system: string;
+  trigger: 'birth' | 'death' | 'collision';
+  count?: number | [number, number];
+  probability?: number;
+  inheritVelocity?: number;
+  inheritColor?: boolean;
+  overrides?: Record<string, unknown> | null;
+};
+
+// Sequence (timeline) configuration
+// What triggered a sequence play: emit positions are relative to `position`
+export type SequenceTrigger = {
+  position?: [number, number, number];
+  data?: unknown;
+};
+
+export type SequenceAction =
+  | {
+      type: 'emit';
+      system: string;
+      /** Offset from the trigger position */
+      position?: [number, number, number];
+      count?: number;
+      overrides?: Record<string, unknown> | null;
+      seed?: number | null;
+    }
+  | { type: 'start' | 'stop' | 'clear'; system: string }
+  | {
+      /** Animate a numeric uniform of a registered system (restored when the plays end or stop) */
+      type: 'tween';
+      system: string;
+      uniform: string;
+      /** Start value (default: the uniform value when the tween starts) */
+      from?: number;
+      to: number;
+      duration: number;
+      easing?: 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+    }
+  | { type: 'callback'; callback: (trigger: SequenceTrigger) => void };
+
+/** An action at a time (seconds from the trigger) */
+export type SequenceEvent = SequenceAction & { time: number };
+
+export type SequenceConfig = {
+  events: SequenceEvent[];
+  /** Length in seconds (default: end of the last event or tween) */
+  duration?: number;
+  loop?: boolean;
+  timeScale?: number;
+};
+
+// Per-axis size configuration (billboards use X and Y, geometry uses X, Y and Z)
+export type Size3DConfig = {
+  /** Start size multiplier per axis (default [1, 1, 1]) */
+  start?: [number, number, number];
+  /** Size multiplier curves over lifetime per axis (unset = constant 1) */
+  x?: CurveData;
+  y?: CurveData;
+  z?: CurveData;
+};
+
+// Velocity over lifetime configuration
+// Added to the particle movement each frame (not accumulated into the particle velocity)
+// Orbital and radial velocity are around the particle's spawn position + center
+export type VelocityOverLifetimeConfig = {
+  /** Linear velocity [x, y, z] in units/s */
+  linear?: [number, number, number];
+  /** 'local' rotates linear velocity from Y-up to emitterDirection (default 'world') */
+  space?: 'world' | 'local';
+  /** Angular speed around the X, Y and Z axes in radians/s */
+  orbital?: [number, number, number];
+  /** Speed away from the center in units/s (negative = toward it) */
+  radial?: number;
+  /** Orbit / radial center offset from the spawn position */
+  center?: [number, number, number];
+  /** Multiplier curves over lifetime (unset = constant 1) */
+  linearCurve?: CurveData;
+  orbitalCurve?: CurveData;
+  radialCurve?: CurveData;
+};
+
+// Global quality level (coreStore.setQuality)
+export type QualityLevel = 'low' | 'medium' | 'high';
+
+// Level of detail by camera distance
+// Bounds are a sphere of `radius` around the system position
+export type LODConfig = {
+  /** Bounds radius for frustum culling (default 5) */
+  radius?: number;
+  /** Full detail up to the first distance, lowest detail from the second (default [10, 50]) */
+  distance?: [number, number];
+  /** No update or emission past this distance (default: never) */
+  cullDistance?: number;
+  /** Emission multiplier at the far distance (default 0.25) */
+  farEmission?: number;
+  /** Size multiplier at the far distance (default 1, > 1 keeps fewer particles readable) */
+  farSize?: number;
+  /** Frames between updates while culled, skipped time is caught up (0 = freeze, default 4) */
+  culledUpdateInterval?: number;
+};
+
+// Color gradient configuration
+// pos is the lifetime progress (0 = birth, 1 = death)
+export type GradientStop = {
+  pos: number;
+  color: string;
+  alpha?: number;
+};
+
+export type ColorGradientConfig = {
+  stops: GradientStop[];
+  /** Second gradient: each particle uses a random blend between the two */
+  randomStops?: GradientStop[] | null;
+};
+
 // Friction configuration
 export type FrictionConfig = {
   intensity?: number | [number, number];
@@ -59,14 +250,81 @@ export type FrictionConfig = {
 export type FlipbookConfig = {
   rows: number;
   columns: number;
+  /** Frame selection: over the lifetime (default), at `fps` or by speed within `speedRange` */
+  mode?: (typeof FlipbookMode)[keyof typeof FlipbookMode];
+  /** Frames per second (FPS mode, default 30) */
+  fps?: number;
+  /** Speed [min, max] mapped to the first / last frame (SPEED mode) */
+  speedRange?: [number, number];
+  /** Start each particle on a random frame */
+  randomStart?: boolean;
+  /** Loop the range (default in FPS mode), otherwise hold the last frame */
+  loop?: boolean;
+  /** First and last frame played (inclusive, default the whole sheet) */
+  frameRange?: [number, number];
+  /** Cross-fade to the next frame (warped by motionVectorMap when set) */
+  blend?: boolean;
+  /** Motion vector distortion, in frames (default 0.1) */
+  motionVectorStrength?: number;
 } | null;
 
+// Six-way lightmap for BillboardLighting.SIX_WAY, in the billboard's space
+// (X right, Y up, Z toward the camera), laid out like the alpha map / flipbook
+export type SixWayLightmapConfig = {
+  /** Light received from +X, +Y, +Z in RGB, alpha in A */
+  positive: THREE.Texture;
+  /** Light received from -X, -Y, -Z in RGB */
+  negative: THREE.Texture;
+};
+
 // Stretch by speed configuration
 export type StretchConfig = {
   factor: number;
   maxStretch: number;
 } | null;
 
+// Trail (ribbon) configuration
+// Each particle records its last `length` positions and draws a camera-facing ribbon through them
+export type TrailConfig = {
+  length: number;
+  width?: number;
+  widthCurve?: CurveData;
+  opacityCurve?: CurveData;
+  colorEnd?: string | null;
+  interval?: number;
+} | null;
+
+// Timed burst of an emission schedule
+export type EmissionBurst = {
+  /** Time of the first burst in the cycle, in seconds */
+  time: number;
+  /** Particles per burst, [min, max] for a random count */
+  count: number | [number, number];
+  /** Number of bursts (default 1, 0 = repeat until the end of the cycle) */
+  cycles?: number;
+  /** Seconds between repeated bursts (default 0.1) */
+  interval?: number;
+  /** Chance of each burst firing (0-1, default 1) */
+  probability?: number;
+};
+
+// Emission schedule over cycles of `duration` seconds
+// Replaces emitCount / delay when set
+export type EmissionConfig = {
+  /** Cycle length in seconds (default 5) */
+  duration?: number;
+  /** Repeat the cycle, else stop emitting at its end (default false with a duration, true without) */
+  loop?: boolean;
+  /** Seconds before the first cycle starts */
+  startDelay?: number;
+  /** Particles per second (default 0) */
+  rate?: number;
+  /** Rate multiplier over the cycle (x = cycle progress 0-1) */
+  rateCurve?: CurveData;
+  /** Timed bursts within each cycle */
+  bursts?: EmissionBurst[];
+};
+
 // Base particle system props (framework-agnostic)
 export type BaseParticleProps = {
   /** Maximum number of particles */
@@ -77,16 +335,22 @@ export type BaseParticleProps = {
   colorStart?: string[];
   /** Array of hex color strings for end color (null = use colorStart) */
   colorEnd?: string[] | null;
+  /** Color + alpha gradient over lifetime (replaces colorStart / colorEnd) */
+  colorGradient?: ColorGradientConfig | null;
   /** Fade size [start, end] multiplier over lifetime */
   fadeSize?: number | [number, number];
   /** Curve data for size over lifetime */
   fadeSizeCurve?: CurveData;
+  /** Per-axis start size and size curves (on top of size / fadeSize) */
+  size3D?: Size3DConfig | null;
   /** Fade opacity [start, end] multiplier over lifetime */
   fadeOpacity?: number | [number, number];
   /** Curve data for opacity over lifetime */
   fadeOpacityCurve?: CurveData;
   /** Curve data for velocity over lifetime */
   velocityCurve?: CurveData;
+  /** Extra linear, orbital and radial velocity over lifetime */
+  velocityOverLifetime?: VelocityOverLifetimeConfig | null;
   /** Gravity vector [x, y, z] */
   gravity?: [number, number, number];
   /** Particle lifetime in seconds [min, max] or single value */
@@ -105,6 +369,8 @@ export type BaseParticleProps = {
   alphaMap?: THREE.Texture | null;
   /** Flipbook animation settings */
   flipbook?: FlipbookConfig;
+  /** Flipbook motion vectors (RG, same layout as the sheet) for smooth frame blending */
+  motionVectorMap?: THREE.Texture | null;
   /** Rotation [min, max] in radians or 3D rotation ranges */
   rotation?: Rotation3DInput;
   /** Rotation speed [min, max] in radians/second or 3D ranges */
@@ -121,6 +387,12 @@ export type BaseParticleProps = {
   stretchBySpeed?: StretchConfig;
   /** Material lighting type for geometry mode */
   lighting?: (typeof Lighting)[keyof typeof Lighting];
+  /** Lighting of billboards (sprite mode) */
+  billboardLighting?: (typeof BillboardLighting)[keyof typeof BillboardLighting];
+  /** Tangent-space normal map for BillboardLighting.NORMAL_MAP */
+  normalMap?: THREE.Texture | null;
+  /** Six-way lightmap for BillboardLighting.SIX_WAY */
+  sixWayLightmap?: SixWayLightmapConfig | null;
   /** Enable shadows on geometry instances */
   shadow?: boolean;
   /** Blending mode */
@@ -131,10 +403,14 @@ export type BaseParticleProps = {
   position?: [number, number, number];
   /** Start emitting automatically */
   autoStart?: boolean;
+  /** Seed for deterministic spawns (same seed + same spawn order = same particles), null = random */
+  seed?: number | null;
   /** Delay between emissions in seconds */
   delay?: number;
   /** Number of particles to emit per frame */
   emitCount?: number;
+  /** Emission schedule (duration, looping, rate over time, bursts), null = emitCount per frame */
+  emission?: EmissionConfig | null;
   /** Emitter shape type */
   emitterShape?: (typeof EmitterShape)[keyof typeof EmitterShape];
   /** Emitter radius [inner, outer] */
@@ -147,9 +423,20 @@ export type BaseParticleProps = {
   emitterSurfaceOnly?: boolean;
   /** Direction for cone/disk normal */
   emitterDirection?: [number, number, number];
+  /**
+   * Geometry or mesh to emit from when emitterShape is MESH.
+   * A geometry is sampled relative to the spawn position. A mesh is sampled where it is in the world
+   * (its world matrix is followed every frame), in the pose it had when baked: call
+   * updateEmitterMesh() whenever a skinned or morphed mesh changes pose to re-bake it.
+   */
+  emitterMesh?: THREE.BufferGeometry | THREE.Mesh | null;
+  /** Emit along the mesh surface normal instead of direction (MESH shape only) */
+  emitterMeshNormal?: boolean;
   /** Turbulence settings */
   turbulence?: TurbulenceConfig;
-  /** Array of attractors (max 4) */
+  /** 3D vector field force */
+  vectorField?: VectorFieldConfig;
+  /** Array of attractors ([] reserves the buffer for runtime ones, it grows past MAX_ATTRACTORS) */
   attractors?: AttractorConfig[] | null;
   /** Particles move from spawn position to center over lifetime */
   attractToCenter?: boolean;
@@ -161,4 +448,26 @@ export type BaseParticleProps = {
   softDistance?: number;
   /** Plane collision settings */
   collision?: CollisionConfig;
+  /** Ribbon trail drawn behind each particle */
+  trail?: TrailConfig;
+  /** Systems to trigger on particle birth, death or collision */
+  subEmitters?: SubEmitterConfig[] | null;
+  /** Which particle events are read back for onParticleEvent, and how many per frame */
+  particleEvents?: ParticleEventsConfig | null;
+  /** Frustum / distance culling and distance-based emission and size */
+  lod?: LODConfig | null;
+  /** Update and draw only live particles (alive list + indirect draw, WebGPU only) */
+  compaction?: boolean;
+  /** Draw order, sorted on the GPU each frame (Blending.NORMAL only) */
+  sortMode?: (typeof SortMode)[keyof typeof SortMode];
+};
+
+// Spawn overrides describing the emitter motion (passed with the other per-spawn overrides)
+export type SpawnMotionOverrides = {
+  /** World-space emitter velocity in units/s */
+  emitterVelocity?: [number, number, number];
+  /** Fraction of emitterVelocity added to each particle's velocity (default 1) */
+  inheritVelocity?: number;
+  /** Spread the burst evenly from this point to the spawn position (rate over distance) */
+  emitFrom?: [number, number, number];
 };
@@ -1,3 +1,5 @@
+import type { VelocityOverLifetimeConfig } from './types';
+
 // Convert hex color string to RGB array [0-1]
 export const hexToRgb = (hex: string): [number, number, number] => {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
@@ -10,6 +12,15 @@ export const hexToRgb = (hex: string): [number, number, number] => {
     : [1, 1, 1];
 };
 
+// Convert RGB array [0-1] to hex color string
+export const rgbToHex = (rgb: [number, number, number]): string => {
+  const toHex = (c: number) =>
+    Math.round(Math.min(Math.max(c, 0), 1) * 255)
+      .toString(16)
+      .padStart(2, '0');
+  return `#${toHex(rgb[0])}${toHex(rgb[1])}${toHex(rgb[2])}`;
+};
+
 // Normalize a prop to [min, max] array - if single value, use same for both
 export const toRange = (
   value: number | [number, number] | null | undefined,
@@ -36,6 +47,20 @@ export const easingToType = (easing: string | number | undefined): number => {
   }
 };
 
+// Apply an easing type (see easingToType) to t in [0, 1]
+export const applyEasing = (type: number, t: number): number => {
+  switch (type) {
+    case 1:
+      return t * t;
+    case 2:
+      return 1 - (1 - t) * (1 - t);
+    case 3:
+      return t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+    default:
+      return t;
+  }
+};
+
 // Convert axis string to number: 0=+X, 1=+Y, 2=+Z, 3=-X, 4=-Y, 5=-Z
 export const axisToNumber = (axis: string): number => {
   switch (axis) {
@@ -111,3 +136,54 @@ export const toRotation3D = (
 
 // Convert lifetime in seconds to fade rate per second (framerate independent)
 export const lifetimeToFadeRate = (seconds: number): number => 1 / seconds;
+
+// Seeded random generator (mulberry32), uniform in [0, 1)
+// Integer seeds; the same seed always gives the same sequence
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Per-spawn shader seed (kept small so idx + seed stays exact in 32-bit float)
+export const toSpawnSeed = (random: () => number = Math.random): number =>
+  Math.fround(random() * 10000);
+
+// Rotate a Y-up vector to point along a unit direction (same rotation as the CONE / DISK emitters)
+export const rotateFromYUp = (
+  v: [number, number, number],
+  direction: [number, number, number]
+): [number, number, number] => {
+  const [dx, dy, dz] = direction;
+  if (dy > 0.999) return [v[0], v[1], v[2]];
+  if (dy < -0.999) return [v[0], -v[1], v[2]];
+
+  // Rodrigues rotation around (0, 1, 0) x direction
+  const axisLen = Math.sqrt(Math.max(dz * dz + dx * dx, 0.0001));
+  const kx = -dz / axisLen;
+  const kz = dx / axisLen;
+  const kDotV = kx * v[0] + kz * v[2];
+  return [
+    v[0] * dy - kz * v[1] * axisLen + kx * kDotV * (1 - dy),
+    v[1] * dy + (kz * v[0] - kx * v[2]) * axisLen,
+    v[2] * dy + kx * v[1] * axisLen + kz * kDotV * (1 - dy),
+  ];
+};
+
+// World-space linear velocity over lifetime ('local' follows the emitter direction)
+export const getLinearVelocity = (
+  velocity: VelocityOverLifetimeConfig,
+  emitterDirection: [number, number, number]
+): [number, number, number] => {
+  const linear = velocity.linear ?? [0, 0, 0];
+  if (velocity.space !== 'local') return linear;
+  const length = Math.hypot(...emitterDirection) || 1;
+  return rotateFromYUp(
+    linear,
+    emitterDirection.map((v) => v / length) as [number, number, number]
+  );
+};
@@ -0,0 +1,94 @@
+import * as THREE from 'three/webgpu'
+import type { VectorFieldData } from './types'
+
+const DEFAULT_BOUNDS: VectorFieldData['bounds'] = {
+  min: [-0.5, -0.5, -0.5],
+  max: [0.5, 0.5, 0.5],
+}
+
+const checkVectorCount = (resolution: [number, number, number], count: number) => {
+  const [x, y, z] = resolution
+  if (!(x > 0 && y > 0 && z > 0) || x * y * z * 3 !== count) {
+    throw new Error(
+      `Invalid vector field: resolution ${x}x${y}x${z} needs ${x * y * z * 3} values, got ${count}`
+    )
+  }
+}
+
+// Parse an FGA vector field (comma separated: resolution, bounds min, bounds max,
+// then one x,y,z vector per cell, x varying fastest)
+export const parseFGA = (text: string): VectorFieldData => {
+  const values = text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+
+  if (values.length < 9 || values.some((v) => Number.isNaN(v))) {
+    throw new Error('Invalid FGA file: expected comma separated numbers')
+  }
+
+  const resolution: [number, number, number] = [values[0], values[1], values[2]]
+  const vectors = new Float32Array(values.slice(9))
+  checkVectorCount(resolution, vectors.length)
+
+  return {
+    resolution,
+    bounds: {
+      min: [values[3], values[4], values[5]],
+      max: [values[6], values[7], values[8]],
+    },
+    vectors,
+  }
+}
+
+// Parse a JSON vector field: { resolution: [x, y, z], bounds?: { min, max }, vectors: [...] }
+export const parseVectorFieldJSON = (json: string | Record<string, unknown>): VectorFieldData => {
+  const data = typeof json === 'string' ? JSON.parse(json) : json
+  const resolution = data.resolution as [number, number, number]
+  if (!Array.isArray(resolution) || resolution.length !== 3 || !Array.isArray(data.vectors)) {
+    throw new Error('Invalid vector field JSON: expected resolution [x, y, z] and vectors')
+  }
+
+  const vectors = new Float32Array(data.vectors as number[])
+  checkVectorCount(resolution, vectors.length)
+
+  const bounds = data.bounds as VectorFieldData['bounds'] | undefined
+  return { resolution, bounds: bounds ?? DEFAULT_BOUNDS, vectors }
+}
+
+// Load a vector field file (.fga, otherwise JSON)
+export const loadVectorField = async (url: string): Promise<VectorFieldData> => {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load vector field: HTTP ${response.status}`)
+  }
+
+  const text = await response.text()
+  return /\.fga(\?|#|$)/i.test(url) ? parseFGA(text) : parseVectorFieldJSON(text)
+}
+
+// Upload a vector field as a 3D texture (RGB = vector, linearly interpolated)
+export const createVectorFieldTexture = (field: VectorFieldData): THREE.Data3DTexture => {
+  const [x, y, z] = field.resolution
+  const cells = x * y * z
+
+  // RGBA - WebGPU has no 3-channel float format
+  const rgba = new Float32Array(cells * 4)
+  for (let i = 0; i < cells; i++) {
+    rgba[i * 4] = field.vectors[i * 3]
+    rgba[i * 4 + 1] = field.vectors[i * 3 + 1]
+    rgba[i * 4 + 2] = field.vectors[i * 3 + 2]
+  }
+
+  const tex = new THREE.Data3DTexture(rgba, x, y, z)
+  tex.format = THREE.RGBAFormat
+  tex.type = THREE.FloatType
+  tex.minFilter = THREE.LinearFilter
+  tex.magFilter = THREE.LinearFilter
+  tex.wrapS = THREE.ClampToEdgeWrapping
+  tex.wrapT = THREE.ClampToEdgeWrapping
+  tex.wrapR = THREE.ClampToEdgeWrapping
+  tex.unpackAlignment = 1
+  tex.needsUpdate = true
+  return tex
+}
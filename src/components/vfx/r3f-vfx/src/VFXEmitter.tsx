@@ -10,6 +10,7 @@ import {
 import { useFrame } from '@react-three/fiber'
 import { Vector3, Quaternion, Group } from 'three/webgpu'
 import type { Quaternion as QuaternionType } from 'three'
+import { createEmissionScheduler, type EmissionConfig, type EmissionScheduler } from 'core-vfx'
 import { useVFXStore } from './react-store'
 
 export interface VFXEmitterProps {
@@ -28,6 +29,8 @@ export interface VFXEmitterProps {
   autoStart?: boolean
   /** Keep emitting (false = emit once) */
   loop?: boolean
+  /** Emission schedule (duration, looping, rate over time, bursts), replaces emitCount / delay / loop */
+  emission?: EmissionConfig | null
   /** Transform direction by parent's world rotation */
   localDirection?: boolean
   /** Direction override [[minX,maxX],[minY,maxY],[minZ,maxZ]] */
@@ -35,6 +38,10 @@ export interface VFXEmitterProps {
   /** Per-spawn overrides (size, speed, colors, etc.) */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   overrides?: Record<string, any> | null
+  /** Fraction of the emitter's world velocity added to particles (0 = none, 1 = all) */
+  inheritVelocity?: number
+  /** Particles per unit moved, spread along the path (on top of emitCount / delay) */
+  rateOverDistance?: number
   /** Callback fired after each emission */
   onEmit?: (params: {
     position: [number, number, number] | number[]
@@ -75,6 +82,22 @@ const _tempVec = new Vector3()
  *   />
  * </group>
  *
+ * // One-shot effect: a burst then a fading trickle, stops by itself after 2s
+ * // (a schedule with a duration only repeats with loop: true)
+ * <VFXEmitter
+ *   name="sparks"
+ *   emission={{
+ *     duration: 2,
+ *     rate: 40,
+ *     rateCurve: { points: [{ pos: [0, 1] }, { pos: [1, 0] }] },
+ *     bursts: [{ time: 0, count: [20, 30] }],
+ *   }}
+ * />
+ *
+ * // Moving emitters: particles keep some of the parent's motion, and a trail
+ * // stays continuous at any frame rate (emitCount={0} = distance only)
+ * <VFXEmitter name="dust" emitCount={0} rateOverDistance={20} inheritVelocity={0.5} />
+ *
  * // Use localDirection to emit relative to parent's rotation
  * <VFXEmitter
  *   name="sparks"
@@ -90,9 +113,12 @@ const _tempVec = new Vector3()
  * @param {number} [props.delay=0] - Seconds between emissions (0 = every frame)
  * @param {boolean} [props.autoStart=true] - Start emitting automatically
  * @param {boolean} [props.loop=true] - Keep emitting (false = emit once)
+ * @param {object} [props.emission] - Emission schedule (duration, looping, rate over time, bursts)
  * @param {boolean} [props.localDirection=false] - Transform direction by parent's world rotation
  * @param {array} [props.direction] - Direction override [[minX,maxX],[minY,maxY],[minZ,maxZ]]
  * @param {object} [props.overrides] - Per-spawn overrides (size, speed, colors, etc.)
+ * @param {number} [props.inheritVelocity=0] - Fraction of the emitter's world velocity added to particles
+ * @param {number} [props.rateOverDistance=0] - Particles per unit moved, spread along the path
  * @param {function} [props.onEmit] - Callback fired after each emission
  */
 export const VFXEmitter = forwardRef(function VFXEmitter(
@@ -104,9 +130,12 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
     delay = 0,
     autoStart = true,
     loop = true,
+    emission = null,
     localDirection = false,
     direction,
     overrides = null,
+    inheritVelocity = 0,
+    rateOverDistance = 0,
     onEmit,
     children,
   }: VFXEmitterProps,
@@ -116,6 +145,11 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
   const emitAccumulator = useRef(0)
   const emitting = useRef(autoStart)
   const hasEmittedOnce = useRef(false)
+  // World-space motion, tracked every frame
+  const lastWorldPos = useRef<Vector3 | null>(null)
+  const velocity = useRef(new Vector3())
+  const distanceAccumulator = useRef(0)
+  const emissionScheduler = useRef<EmissionScheduler | null>(null)
 
   // Get particle system from store or direct ref
   const getParticleSystem = useCallback(() => {
@@ -171,9 +205,18 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
     return { position: emitPos, direction: emitDir }
   }, [localDirection, direction, position, transformDirectionByQuat])
 
+  // Emitter velocity passed with the spawn overrides (only when inheriting)
+  const getMotionOverrides = useCallback(
+    () =>
+      inheritVelocity !== 0
+        ? { emitterVelocity: velocity.current.toArray(), inheritVelocity }
+        : null,
+    [inheritVelocity]
+  )
+
   // Emit function - accepts optional overrides that merge with component overrides
   const emit = useCallback(
-    (emitOverrides: Record<string, unknown> | null = null) => {
+    (emitOverrides: Record<string, unknown> | null = null, count = emitCount) => {
       const particles = getParticleSystem()
       if (!particles?.spawn) {
         if (name) {
@@ -200,17 +243,17 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
         finalDir = emitTimeDirection
       }
 
-      // Merge: component overrides -> emit-time overrides (without direction) -> final direction
+      // Merge: component overrides -> emitter motion -> emit-time (without direction) -> direction
       const { direction: _, ...emitOverridesWithoutDir } = emitOverrides || {}
-      const mergedOverrides = { ...overrides, ...emitOverridesWithoutDir }
+      const mergedOverrides = { ...overrides, ...getMotionOverrides(), ...emitOverridesWithoutDir }
       const finalOverrides = finalDir
         ? { ...mergedOverrides, direction: finalDir }
         : mergedOverrides
 
-      particles.spawn(x, y, z, emitCount, finalOverrides)
+      particles.spawn(x, y, z, count, finalOverrides)
 
       if (onEmit) {
-        onEmit({ position: emitPos, count: emitCount, direction: finalDir })
+        onEmit({ position: emitPos, count, direction: finalDir })
       }
 
       return true
@@ -218,6 +261,7 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
     [
       getParticleSystem,
       getEmitParams,
+      getMotionOverrides,
       name,
       emitCount,
       overrides,
@@ -229,8 +273,56 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
 
   // Auto-emission logic
   useFrame((_, delta) => {
+    // Track world velocity and the path moved this frame (also while stopped, for burst)
+    let pathStart: [number, number, number] | null = null
+    let moved = 0
+    if (groupRef.current) {
+      groupRef.current.getWorldPosition(_worldPos)
+      const last = lastWorldPos.current
+      if (last) {
+        if (delta > 0) velocity.current.subVectors(_worldPos, last).divideScalar(delta)
+        pathStart = [last.x, last.y, last.z]
+        moved = _worldPos.distanceTo(last)
+        last.copy(_worldPos)
+      } else {
+        lastWorldPos.current = _worldPos.clone()
+      }
+    }
+
     if (!emitting.current) return
 
+    // Rate over distance: emit per unit moved, spread from the last position to the current one
+    if (rateOverDistance > 0 && pathStart) {
+      distanceAccumulator.current += moved
+      const count = Math.floor(distanceAccumulator.current * rateOverDistance)
+      if (count > 0) {
+        distanceAccumulator.current -= count / rateOverDistance
+        emit({ emitFrom: pathStart }, count)
+      }
+    }
+
+    // Time-based emission follows the target system: paused while LOD skips its update,
+    // caught up with it after a throttled one (plain frame delta for other targets)
+    const systemDelta = getParticleSystem()?.simulatedDelta
+    const step = typeof systemDelta === 'number' ? systemDelta : delta
+    if (step <= 0) return
+
+    // Emission schedule: emit what it yields this frame, stop at the end of a one-shot
+    if (emission) {
+      if (!emissionScheduler.current) {
+        emissionScheduler.current = createEmissionScheduler(emission)
+      }
+      const scheduler = emissionScheduler.current
+      scheduler.setConfig(emission)
+      const count = scheduler.update(step)
+      if (count > 0) emit(null, count)
+      if (scheduler.isFinished) emitting.current = false
+      return
+    }
+
+    // emitCount 0 = distance-only emitter
+    if (emitCount <= 0) return
+
     // If not looping and already emitted, stop
     if (!loop && hasEmittedOnce.current) {
       return
@@ -242,7 +334,7 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
       if (success) hasEmittedOnce.current = true
     } else {
       // Emit on interval
-      emitAccumulator.current += delta
+      emitAccumulator.current += step
 
       if (emitAccumulator.current >= delay) {
         emitAccumulator.current -= delay
@@ -257,6 +349,8 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
     emitting.current = true
     hasEmittedOnce.current = false
     emitAccumulator.current = 0
+    distanceAccumulator.current = 0
+    emissionScheduler.current?.restart()
   }, [])
 
   const stop = useCallback(() => {
@@ -272,7 +366,9 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
       const { position: emitPos, direction: emitDir } = getEmitParams()
       const [x, y, z] = emitPos
 
-      const finalOverrides = emitDir ? { ...overrides, direction: emitDir } : overrides
+      const motionOverrides = getMotionOverrides()
+      const baseOverrides = motionOverrides ? { ...overrides, ...motionOverrides } : overrides
+      const finalOverrides = emitDir ? { ...baseOverrides, direction: emitDir } : baseOverrides
 
       particles.spawn(x, y, z, count ?? emitCount, finalOverrides)
 
@@ -286,7 +382,7 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
 
       return true
     },
-    [getParticleSystem, getEmitParams, emitCount, overrides, onEmit]
+    [getParticleSystem, getEmitParams, getMotionOverrides, emitCount, overrides, onEmit]
   )
 
   // Update emitting state when autoStart changes
@@ -295,6 +391,7 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
     if (autoStart) {
       hasEmittedOnce.current = false
       emitAccumulator.current = 0
+      emissionScheduler.current?.restart()
     }
   }, [autoStart])
 
@@ -338,17 +435,21 @@ export const VFXEmitter = forwardRef(function VFXEmitter(
  * Higher-order hook for programmatic emitter control
  *
  * Usage:
- * const { emit, burst, start, stop } = useVFXEmitter("sparks");
+ * const { emit, emitAsync, burst, start, stop } = useVFXEmitter("sparks");
  *
  * // Emit at a position
  * emit([1, 2, 3], 50);
  *
  * // Burst with overrides
  * burst([0, 0, 0], 100, { colorStart: ["#ff0000"] });
+ *
+ * // Release pooled resources once the burst has faded (false = no system registered)
+ * if (await emitAsync([x, y, z], 50)) releaseToPool(entry);
  */
 export function useVFXEmitter(name: string) {
   const getParticles = useVFXStore((s) => s.getParticles)
   const storeEmit = useVFXStore((s) => s.emit)
+  const storeEmitAsync = useVFXStore((s) => s.emitAsync)
   const storeStart = useVFXStore((s) => s.start)
   const storeStop = useVFXStore((s) => s.stop)
   const storeClear = useVFXStore((s) => s.clear)
@@ -361,6 +462,15 @@ export function useVFXEmitter(name: string) {
     [name, storeEmit]
   )
 
+  // Same as emit, resolved once the emitted particles have expired
+  const emitAsync = useCallback(
+    (position = [0, 0, 0], count = 20, overrides = null) => {
+      const [x, y, z] = position
+      return storeEmitAsync(name, { x, y, z, count, overrides })
+    },
+    [name, storeEmitAsync]
+  )
+
   const burst = useCallback(
     (position = [0, 0, 0], count = 50, overrides = null) => {
       const [x, y, z] = position
@@ -385,6 +495,7 @@ export function useVFXEmitter(name: string) {
 
   return {
     emit,
+    emitAsync,
     burst,
     start,
     stop,
@@ -11,6 +11,7 @@ import { useFrame, useThree } from '@react-three/fiber'
 import * as THREE from 'three/webgpu'
 import { useVFXStore } from './react-store'
 import { useCurveTextureAsync } from './useCurveTextureAsync'
+import { useVectorFieldTexture } from './useVectorFieldTexture'
 import { uniform, instancedArray } from 'three/tsl'
 import {
   Appearance,
@@ -19,22 +20,84 @@ import {
   AttractorType,
   Easing,
   Lighting,
-  MAX_ATTRACTORS,
+  BillboardLighting,
+  SortMode,
   hexToRgb,
   toRange,
   easingToType,
   axisToNumber,
   toRotation3D,
   lifetimeToFadeRate,
+  createSeededRandom,
+  toSpawnSeed,
   createCombinedCurveTexture,
   createInitCompute,
   createSpawnCompute,
   createUpdateCompute,
   createParticleMaterial,
+  createCompactCompute,
+  createAliveListArgsCompute,
+  createAliveListStorage,
+  setAliveListDraw,
+  createSortStorage,
+  createSortCompute,
+  isSortEnabled,
+  bakeMeshEmitter,
+  getMeshEmitterTriangleCount,
+  createParticleEventStorage,
+  createEventResetCompute,
+  getParticleEventTypes,
+  getParticleEventTriggers,
+  MAX_ATTRACTORS,
+  MAX_COLLIDERS,
+  QUALITY_SETTINGS,
+  createTrailCurveTexture,
+  createTrailGeometry,
+  createTrailMaterial,
+  getTrailLength,
+  createColliderStorage,
+  getColliderCapacity,
+  writeColliders,
+  resolveColliders,
+  hasCollisionPlane,
+  createAttractorStorage,
+  getAttractorCapacity,
+  writeAttractors,
+  createGradientTexture,
+  writeGradientTexture,
+  createSize3DCurveTexture,
+  writeSize3DCurveTexture,
+  createVelocityCurveTexture,
+  writeVelocityCurveTexture,
+  getLinearVelocity,
+  createParticleLifecycle,
+  createParticleFrame,
+  parsePreset,
+  presetToProps,
   type CurveData,
   type Rotation3DInput,
   type ParticleData,
   type ParticleStorageArrays,
+  type MeshEmitterData,
+  type MeshEmitterSource,
+  type MeshEmitterStorage,
+  type SubEmitterConfig,
+  type ParticleEventsConfig,
+  type ParticleEvent,
+  type TrailConfig,
+  type ColliderConfig,
+  type AttractorConfig,
+  type VectorFieldConfig,
+  type ColorGradientConfig,
+  type Size3DConfig,
+  type VelocityOverLifetimeConfig,
+  type LODConfig,
+  type SixWayLightmapConfig,
+  type FlipbookConfig,
+  type EmissionConfig,
+  type ParticleParamKey,
+  type ParticleParams,
+  type VFXPreset,
 } from 'core-vfx'
 
 // Re-export constants and utilities for backwards compatibility
@@ -43,8 +106,12 @@ export {
   Blending,
   EmitterShape,
   AttractorType,
+  AttractorFalloff,
+  ParticleEventType,
   Easing,
   Lighting,
+  BillboardLighting,
+  SortMode,
   bakeCurveToArray,
   createCombinedCurveTexture,
 } from 'core-vfx'
@@ -52,6 +119,8 @@ export {
 export type VFXParticlesProps = {
   /** Optional name for registering with useVFXStore (enables VFXEmitter linking) */
   name?: string
+  /** Preset (object or JSON text) providing defaults - explicitly passed props override it */
+  preset?: VFXPreset | string | null
   /** Maximum number of particles */
   maxParticles?: number
   /** Particle size [min, max] or single value */
@@ -60,16 +129,22 @@ export type VFXParticlesProps = {
   colorStart?: string[]
   /** Array of hex color strings for end color (null = use colorStart) */
   colorEnd?: string[] | null
+  /** Color + alpha gradient over lifetime (replaces colorStart / colorEnd) */
+  colorGradient?: ColorGradientConfig | null
   /** Fade size [start, end] multiplier over lifetime */
   fadeSize?: number | [number, number]
   /** Curve data for size over lifetime */
   fadeSizeCurve?: CurveData
+  /** Per-axis start size and size curves (on top of size / fadeSize) */
+  size3D?: Size3DConfig | null
   /** Fade opacity [start, end] multiplier over lifetime */
   fadeOpacity?: number | [number, number]
   /** Curve data for opacity over lifetime */
   fadeOpacityCurve?: CurveData
   /** Curve data for velocity over lifetime */
   velocityCurve?: CurveData
+  /** Extra linear, orbital and radial velocity over lifetime */
+  velocityOverLifetime?: VelocityOverLifetimeConfig | null
   /** Gravity vector [x, y, z] */
   gravity?: [number, number, number]
   /** Particle lifetime in seconds [min, max] or single value */
@@ -86,8 +161,10 @@ export type VFXParticlesProps = {
   appearance?: (typeof Appearance)[keyof typeof Appearance]
   /** Alpha map texture */
   alphaMap?: THREE.Texture | null
-  /** Flipbook animation settings */
-  flipbook?: { rows: number; columns: number } | null
+  /** Flipbook animation settings (frame selection mode, range, random start, blending) */
+  flipbook?: FlipbookConfig
+  /** Flipbook motion vectors (RG, same layout as the sheet) for smooth frame blending */
+  motionVectorMap?: THREE.Texture | null
   /** Rotation [min, max] in radians or 3D rotation ranges */
   rotation?: Rotation3DInput
   /** Rotation speed [min, max] in radians/second or 3D ranges */
@@ -104,6 +181,12 @@ export type VFXParticlesProps = {
   stretchBySpeed?: { factor: number; maxStretch: number } | null
   /** Material lighting type for geometry mode */
   lighting?: (typeof Lighting)[keyof typeof Lighting]
+  /** Lighting of billboards (sprite mode): unlit, spherical normal, normal map or six-way */
+  billboardLighting?: (typeof BillboardLighting)[keyof typeof BillboardLighting]
+  /** Tangent-space normal map for BillboardLighting.NORMAL_MAP (follows the flipbook) */
+  normalMap?: THREE.Texture | null
+  /** Six-way lightmap for BillboardLighting.SIX_WAY (follows the flipbook) */
+  sixWayLightmap?: SixWayLightmapConfig | null
   /** Enable shadows on geometry instances */
   shadow?: boolean
   /** Blending mode */
@@ -114,6 +197,8 @@ export type VFXParticlesProps = {
   position?: [number, number, number]
   /** Start emitting automatically */
   autoStart?: boolean
+  /** Seed for deterministic spawns (same seed + same spawn order = same particles), null = random */
+  seed?: number | null
   /** Delay between emissions in seconds */
   delay?: number
   /** TSL node or function for backdrop sampling */
@@ -133,6 +218,8 @@ export type VFXParticlesProps = {
   castShadowNode?: any | ((data: ParticleData) => any) | null
   /** Number of particles to emit per frame */
   emitCount?: number
+  /** Emission schedule (duration, looping, rate over time, bursts), null = emitCount per frame */
+  emission?: EmissionConfig | null
   /** Emitter shape type */
   emitterShape?: (typeof EmitterShape)[keyof typeof EmitterShape]
   /** Emitter radius [inner, outer] */
@@ -145,16 +232,16 @@ export type VFXParticlesProps = {
   emitterSurfaceOnly?: boolean
   /** Direction for cone/disk normal */
   emitterDirection?: [number, number, number]
+  /** Geometry or mesh to emit from when emitterShape is MESH (skinned meshes use their current pose) */
+  emitterMesh?: THREE.BufferGeometry | THREE.Mesh | null
+  /** Emit along the mesh surface normal instead of direction (MESH shape only) */
+  emitterMeshNormal?: boolean
   /** Turbulence settings */
   turbulence?: { intensity: number; frequency?: number; speed?: number } | null
-  /** Array of attractors (max 4) */
-  attractors?: Array<{
-    position?: [number, number, number]
-    strength?: number
-    radius?: number
-    type?: 'point' | 'vortex'
-    axis?: [number, number, number]
-  }> | null
+  /** 3D vector field force (data or .fga / JSON URL) */
+  vectorField?: VectorFieldConfig
+  /** Array of attractors ([] reserves the buffer so attractors can be added at runtime) */
+  attractors?: AttractorConfig[] | null
   /** Particles move from spawn position to center over lifetime */
   attractToCenter?: boolean
   /** Use start position offset as direction */
@@ -163,14 +250,35 @@ export type VFXParticlesProps = {
   softParticles?: boolean
   /** Distance over which to fade soft particles */
   softDistance?: number
-  /** Plane collision settings */
+  /** Plane and collider collision settings */
   collision?: {
     plane?: { y: number }
+    colliders?: ColliderConfig[] | (() => ColliderConfig[]) | null
+    depth?: boolean
+    depthThickness?: number
     bounce?: number
     friction?: number
     die?: boolean
     sizeBasedGravity?: number
   } | null
+  /** Systems to trigger on particle birth, death or collision */
+  subEmitters?: SubEmitterConfig[] | null
+  /** Called with particle events read back from the GPU (a frame or two late) */
+  onParticleEvent?: ((event: ParticleEvent) => void) | null
+  /** Event types delivered to onParticleEvent and the per-frame limit */
+  particleEvents?: ParticleEventsConfig | null
+  /** Called when emission has stopped and every particle has expired */
+  onComplete?: (() => void) | null
+  /** Called whenever the last alive particle expires */
+  onAllDead?: (() => void) | null
+  /** Ribbon trail drawn behind each particle */
+  trail?: TrailConfig
+  /** Frustum / distance culling, distance-based emission and size */
+  lod?: LODConfig | null
+  /** Update and draw only live particles (alive list + indirect draw, WebGPU only) */
+  compaction?: boolean
+  /** Draw order, sorted on the GPU each frame (Blending.NORMAL only) */
+  sortMode?: (typeof SortMode)[keyof typeof SortMode]
   /** Show debug control panel */
   debug?: boolean
   /** Path to pre-baked curve texture (skips runtime baking for faster load) */
@@ -182,17 +290,55 @@ export type VFXParticlesProps = {
 }
 
 export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXParticles(
+  { preset = null, ...props },
+  ref
+) {
+  // Parse once per preset - keep object presets stable (module import or useMemo)
+  const presetProps = useMemo(() => (preset ? presetToProps(parsePreset(preset)) : null), [preset])
+
+  // Geometry and textures created from the preset belong to us
+  useEffect(() => {
+    return () => {
+      presetProps?.geometry?.dispose()
+      presetProps?.alphaMap?.dispose()
+      presetProps?.normalMap?.dispose()
+      presetProps?.motionVectorMap?.dispose()
+      presetProps?.sixWayLightmap?.positive.dispose()
+      presetProps?.sixWayLightmap?.negative.dispose()
+    }
+  }, [presetProps])
+
+  // Props left undefined fall back to the preset value
+  const definedProps = Object.fromEntries(
+    Object.entries(props).filter(([, value]) => value !== undefined)
+  )
+
+  return <VFXParticlesBase ref={ref} {...presetProps} {...definedProps} />
+})
+
+type VFXParticlesBaseProps = Omit<VFXParticlesProps, 'preset'>
+
+const VFXParticlesBase = forwardRef<unknown, VFXParticlesBaseProps>(function VFXParticlesBase(
   {
     name, // Optional name for registering with useVFXStore (enables VFXEmitter linking)
     maxParticles = 10000,
     size = [0.1, 0.3],
     colorStart = ['#ffffff'],
     colorEnd = null, // If null, uses colorStart (no color transition)
+    // Color + alpha stops over lifetime, optionally a random blend with a second gradient
+    // { stops: [{ pos: 0, color: '#ff8800' }, { pos: 0.5, color: '#ffffff' }, { pos: 1, color: '#ffffff', alpha: 0 }], randomStops }
+    colorGradient = null,
     fadeSize = [1, 0],
     fadeSizeCurve = null, // Curve data { points: [...] } - controls fadeSize over lifetime (overrides fadeSize if set)
+    // Per-axis size - shockwave rings, stretched debris (billboards use X and Y)
+    // { start: [2, 0.2, 2], x: curve, y: curve, z: curve } - axes without a curve stay constant
+    size3D = null,
     fadeOpacity = [1, 0],
     fadeOpacityCurve = null, // Curve data { points: [...] } - controls fadeOpacity over lifetime (overrides fadeOpacity if set)
     velocityCurve = null, // Curve data { points: [...] } - controls velocity/speed over lifetime (overrides friction if set)
+    // Extra movement over lifetime - spirals, swirling energy pulled into a point
+    // { linear: [0, 1, 0], space: 'local', orbital: [0, 4, 0], radial: -2, radialCurve: curve }
+    velocityOverLifetime = null,
     gravity = [0, 0, 0],
     lifetime = [1, 2],
     direction = [
@@ -210,7 +356,8 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     // intensity: 1 = max friction (almost stopped), 0 = no friction (normal), negative = boost/acceleration
     appearance = Appearance.GRADIENT,
     alphaMap = null,
-    flipbook = null, // { rows: 4, columns: 8 }
+    flipbook = null, // { rows: 4, columns: 8, mode: 'fps', fps: 24, randomStart: true, blend: true }
+    motionVectorMap = null,
     rotation = [0, 0], // [min, max] in radians
     rotationSpeed = [0, 0], // [min, max] rotation speed in radians/second
     rotationSpeedCurve = null, // Curve data { points: [...] } - controls rotation speed over lifetime
@@ -219,11 +366,18 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     orientAxis = 'z', // Which local axis aligns with velocity: "x", "y", "z", "-x", "-y", "-z"
     stretchBySpeed = null, // { factor: 2, maxStretch: 5 } - stretch particles in velocity direction based on effective speed
     lighting = Lighting.STANDARD, // 'basic' | 'standard' | 'physical' - material type for geometry mode
+    // Billboard lighting - 'unlit' | 'sphere' | 'normalMap' | 'sixWay', lit modes use standard
+    // shading against the scene lights (six-way reads the light from sixWayLightmap)
+    billboardLighting = BillboardLighting.UNLIT,
+    normalMap = null,
+    sixWayLightmap = null,
     shadow = false, // Enable both castShadow and receiveShadow on geometry instances
     blending = Blending.NORMAL,
     intensity = 1,
     position = [0, 0, 0],
     autoStart = true,
+    // Seed for deterministic spawns: same seed + same spawn order = same particles (null = random)
+    seed = null,
     delay = 0,
     backdropNode = null, // TSL node or function for backdrop sampling
     opacityNode = null, // TSL node or function for custom opacity control
@@ -231,6 +385,9 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     alphaTestNode = null, // TSL node or function for custom alpha test/discard (return true to discard fragment)
     castShadowNode = null, // TSL node or function for shadow map output (what shadow the particle casts)
     emitCount = 1,
+    // Emission schedule: { duration, loop, startDelay, rate, rateCurve, bursts }, replaces emitCount / delay
+    // A schedule with a duration stops emitting at its end unless loop: true
+    emission = null,
     // Emitter shape props
     emitterShape = EmitterShape.BOX, // Emission shape type
     emitterRadius = [0, 1], // [inner, outer] radius for sphere/cone/disk (inner=0 for solid)
@@ -238,10 +395,16 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     emitterHeight = [0, 1], // [min, max] height for cone
     emitterSurfaceOnly = false, // Emit from surface only (sphere/disk)
     emitterDirection = [0, 1, 0], // Direction for cone/disk normal
+    emitterMesh = null, // Geometry or mesh sampled by the MESH shape (area-weighted)
+    emitterMeshNormal = false, // MESH shape: emit along the surface normal instead of direction
     // Turbulence (curl noise)
     turbulence = null, // { intensity: 0.5, frequency: 1, speed: 1 }
-    // Attractors - array of up to 4 attractors
-    // { position: [x,y,z], strength: 1, radius: 3, type: 'point'|'vortex', axis?: [x,y,z] }
+    // Vector field - 3D grid of velocities sampled inside a world-space box
+    // { field: '/vfx/wind.fga' | VectorFieldData, bounds?: { min, max }, intensity: 1, tightness: 0 }
+    vectorField = null,
+    // Attractors - stored in a GPU buffer (grows past MAX_ATTRACTORS), editable through the API
+    // { position: [x,y,z], strength: 1, radius: 3, type: 'point'|'vortex'|'line'|'repulse',
+    //   axis?: [x,y,z], end?: [x,y,z], falloff?: 'linear'|'smooth'|'inverse-square'|'constant' }
     attractors = null,
     // Simple attract to center - particles move from spawn position to center over lifetime
     // Overrides speed/direction - lifetime controls how long it takes to reach center
@@ -253,7 +416,34 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     softDistance = 0.5, // Distance in world units over which to fade
     // Plane collision - particles bounce or die when hitting a plane
     // { plane: { y: 0 }, bounce: 0.3, friction: 0.8, die: false, sizeBasedGravity: 0 }
+    // colliders: [{ type: 'sphere' | 'box' | 'plane' | 'cylinder', position, radius, size, normal, height, bounce, friction, die }]
+    // or a function returning them, called every frame (moving colliders)
+    // depth: true also collides with the scene depth buffer shared via useVFXStore setSceneDepth
     collision = null,
+    // Sub-emitters - trigger other registered systems from particle events
+    // [{ system: 'sparks', trigger: 'death' | 'birth' | 'collision', count: [2, 5], inheritVelocity: 0.5, inheritColor: true }]
+    subEmitters = null,
+    // Particle events - gameplay callback for particle deaths, collisions and attractor entries
+    // event.target is the collider / attractor index (-1 for the plane and scene depth)
+    onParticleEvent = null,
+    // { types: ['death', 'collision', 'attractorEnter'], maxPerFrame: 64 }
+    particleEvents = null,
+    // Lifecycle - particle deaths are estimated on the CPU from the max lifetime of each spawn
+    // onComplete: emission stopped (stop() or a finished one-shot emission) and all particles expired
+    onComplete = null,
+    onAllDead = null, // The last alive particle expired (also between bursts)
+    // Trail - camera-facing ribbon through each particle's last positions
+    // { length: 16, width: 0.1, widthCurve, opacityCurve, colorEnd: '#ff0000', interval: 0.02 }
+    trail = null,
+    // LOD - skip or throttle the update off-screen, emit less (and bigger) far away
+    // { radius: 5, distance: [10, 50], cullDistance: 100, farEmission: 0.25, farSize: 1.5 }
+    lod = null,
+    // Compaction - rebuild a list of live particles after each update, then update and draw
+    // only those (indirect dispatch / draw): large pools cost what is alive, not maxParticles
+    compaction = false,
+    // Sort mode - GPU bitonic sort of the draw order each frame, fixes the popping of
+    // overlapping normal-blended particles (ignored with other blendings)
+    sortMode = SortMode.NONE,
     // Debug mode - shows tweakable control panel
     debug = false,
     // Path to pre-baked curve texture (skips runtime baking for faster load)
@@ -270,12 +460,34 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
   const initialized = useRef(false)
   const nextIndex = useRef(0)
   const [emitting, setEmitting] = useState(autoStart)
-  const emitAccumulator = useRef(0)
+  // Read by the ref API so start/stop don't recreate it (and re-register the system)
+  const emittingRef = useRef(autoStart)
 
   // Refs for runtime values that can be updated by debug panel
   const delayRef = useRef(delay)
   const emitCountRef = useRef(emitCount)
+  const emissionRef = useRef(emission)
   const turbulenceRef = useRef(turbulence)
+  const subEmittersRef = useRef(subEmitters)
+  const onParticleEventRef = useRef(onParticleEvent)
+  const particleEventsRef = useRef(particleEvents)
+  const trailRef = useRef(trail)
+  const collisionRef = useRef(collision)
+  const lodRef = useRef(lod)
+  // Runtime params: values set through setParams (coreStore.setParam) over the prop values
+  const paramOverrides = useRef<ParticleParams>({})
+  const propParams = useRef<ParticleParams>({})
+  // Serialized prop value of each overridden key when it was overridden
+  const overriddenProps = useRef<Record<string, string>>({})
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const applyParamsRef = useRef<((values: any) => void) | null>(null)
+  // Values the debug panel (or setParams) last applied, fallbacks for related keys
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const debugValuesRef = useRef<any>(null)
+  // Estimated particle deaths: onComplete / onAllDead and the promises returned by spawn
+  const lifecycle = useMemo(() => createParticleLifecycle(), [])
+  // Per-frame orchestration shared with the vanilla ParticleSystem (LOD, emission, event readback...)
+  const frame = useMemo(() => createParticleFrame(lifecycle), [lifecycle])
 
   // State for "remount-required" values - changing these recreates GPU resources
   const [activeMaxParticles, setActiveMaxParticles] = useState(maxParticles)
@@ -309,12 +521,108 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     isNonDefaultRotation(rotation) || isNonDefaultRotation(rotationSpeed)
   )
 
+  useEffect(() => {
+    emittingRef.current = emitting
+  }, [emitting])
+
   // Keep refs in sync with props (when not in debug mode)
   useEffect(() => {
     delayRef.current = delay
     emitCountRef.current = emitCount
+    emissionRef.current = emission
+    lifecycle.setCallbacks({ onComplete, onAllDead })
     turbulenceRef.current = turbulence
-  }, [delay, emitCount, turbulence])
+    subEmittersRef.current = subEmitters
+    onParticleEventRef.current = onParticleEvent
+    particleEventsRef.current = particleEvents
+    trailRef.current = trail
+    collisionRef.current = collision
+    lodRef.current = lod
+  }, [
+    delay,
+    emitCount,
+    emission,
+    lifecycle,
+    onComplete,
+    onAllDead,
+    turbulence,
+    subEmitters,
+    onParticleEvent,
+    particleEvents,
+    trail,
+    collision,
+    lod,
+  ])
+
+  // Prop values of the runtime params (getParams reports them when not overridden)
+  useEffect(() => {
+    propParams.current = {
+      size,
+      colorStart,
+      colorEnd,
+      fadeSize,
+      fadeSizeCurve,
+      fadeOpacity,
+      fadeOpacityCurve,
+      velocityCurve,
+      gravity,
+      lifetime,
+      direction,
+      startPosition,
+      startPositionAsDirection,
+      speed,
+      friction,
+      appearance,
+      rotation,
+      rotationSpeed,
+      rotationSpeedCurve,
+      orientToDirection,
+      orientAxis,
+      stretchBySpeed,
+      lighting,
+      shadow,
+      blending,
+      intensity,
+      position,
+      autoStart,
+      delay,
+      emitCount,
+      emission,
+      emitterShape,
+      emitterRadius,
+      emitterAngle,
+      emitterHeight,
+      emitterSurfaceOnly,
+      emitterDirection,
+      emitterMeshNormal,
+      turbulence,
+      attractToCenter,
+      softParticles,
+      softDistance,
+      collision,
+      maxParticles,
+    }
+
+    // Props win over values set through setParams once their content changes
+    // (compared serialized: inline arrays and objects are new every render)
+    const overrides: Record<string, unknown> = { ...paramOverrides.current }
+    for (const key of Object.keys(overrides)) {
+      const value = propParams.current[key as ParticleParamKey]
+      if (JSON.stringify(value ?? null) !== overriddenProps.current[key]) {
+        delete overrides[key]
+        delete overriddenProps.current[key]
+      }
+    }
+    paramOverrides.current = overrides as ParticleParams
+  })
+
+  // Apply the setParams values still in effect over the props just written
+  const reapplyParamOverrides = useCallback(() => {
+    const overrides = paramOverrides.current
+    if (!Object.keys(overrides).length) return
+    debugValuesRef.current = { ...propParams.current, ...overrides }
+    applyParamsRef.current?.(overrides)
+  }, [])
 
   // Keep remount-required state in sync with props (when not in debug mode)
   useEffect(() => {
@@ -331,9 +639,11 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       setActiveRotationSpeedCurve(rotationSpeedCurve)
       setActiveNeedsPerParticleColor(colorStart.length > 1 || colorEnd !== null)
       setActiveNeedsRotation(isNonDefaultRotation(rotation) || isNonDefaultRotation(rotationSpeed))
+      reapplyParamOverrides()
     }
   }, [
     debug,
+    reapplyParamOverrides,
     maxParticles,
     lighting,
     appearance,
@@ -368,6 +678,79 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     curveTexturePath
   )
 
+  // Color gradient texture: created when a gradient is set, rewritten in place when the stops
+  // change (keyed by content so inline gradients don't re-upload every render)
+  const hasColorGradient = colorGradient !== null
+  const colorGradientKey = useMemo(() => JSON.stringify(colorGradient), [colorGradient])
+  const gradientTexture = useMemo(
+    () => (colorGradient ? createGradientTexture(colorGradient) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [hasColorGradient]
+  )
+  useEffect(() => {
+    if (gradientTexture && colorGradient) writeGradientTexture(gradientTexture, colorGradient)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gradientTexture, colorGradientKey])
+  useEffect(() => {
+    return () => {
+      gradientTexture?.dispose()
+    }
+  }, [gradientTexture])
+
+  // Per-axis size curve texture (same in-place update as the gradient texture)
+  const hasSize3D = size3D !== null
+  const size3DKey = useMemo(
+    () => JSON.stringify(size3D && { x: size3D.x, y: size3D.y, z: size3D.z }),
+    [size3D]
+  )
+  const size3DTexture = useMemo(
+    () => (size3D ? createSize3DCurveTexture(size3D) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [hasSize3D]
+  )
+  useEffect(() => {
+    if (size3DTexture && size3D) writeSize3DCurveTexture(size3DTexture, size3D)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [size3DTexture, size3DKey])
+  useEffect(() => {
+    return () => {
+      size3DTexture?.dispose()
+    }
+  }, [size3DTexture])
+
+  // Velocity over lifetime curve texture (same in-place update as the gradient texture)
+  const hasVelocityOverLifetime = velocityOverLifetime !== null
+  const velocityCurvesKey = useMemo(
+    () =>
+      JSON.stringify(
+        velocityOverLifetime && [
+          velocityOverLifetime.linearCurve,
+          velocityOverLifetime.orbitalCurve,
+          velocityOverLifetime.radialCurve,
+        ]
+      ),
+    [velocityOverLifetime]
+  )
+  const velocityOverLifetimeTexture = useMemo(
+    () => (velocityOverLifetime ? createVelocityCurveTexture(velocityOverLifetime) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [hasVelocityOverLifetime]
+  )
+  useEffect(() => {
+    if (velocityOverLifetimeTexture && velocityOverLifetime) {
+      writeVelocityCurveTexture(velocityOverLifetimeTexture, velocityOverLifetime)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [velocityOverLifetimeTexture, velocityCurvesKey])
+  useEffect(() => {
+    return () => {
+      velocityOverLifetimeTexture?.dispose()
+    }
+  }, [velocityOverLifetimeTexture])
+
+  // Vector field 3D texture (null until loaded)
+  const vectorFieldTexture = useVectorFieldTexture(vectorField?.field)
+
   // Note: curveTexture is managed by useCurveTextureAsync hook, no manual disposal needed here
   const prevCurveTextureRef = useRef<THREE.DataTexture | null>(null)
   useEffect(() => {
@@ -387,6 +770,9 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
   const emitterRadiusRange = useMemo(() => toRange(emitterRadius, [0, 1]), [emitterRadius])
   const emitterHeightRange = useMemo(() => toRange(emitterHeight, [0, 1]), [emitterHeight])
 
+  // Only whether a listener is set matters for GPU resources (inline callbacks change every render)
+  const hasEventListener = !!onParticleEvent
+
   // Determine which features are active (affects storage arrays and shader generation)
   // Uses state so debug panel can trigger storage array recreation
   const activeFeatures = useMemo(
@@ -396,12 +782,47 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       needsRotation: activeNeedsRotation,
       // Shader features (skip code entirely when disabled)
       turbulence: turbulence !== null && (turbulence?.intensity ?? 0) > 0,
-      attractors: attractors !== null && attractors.length > 0,
+      attractors: attractors !== null,
+      velocityOverLifetime: hasVelocityOverLifetime,
       collision: collision !== null,
+      colliders: !!collision?.colliders,
+      depthCollision: !!collision?.depth,
       rotation: activeNeedsRotation,
       perParticleColor: activeNeedsPerParticleColor,
+      // Event buffer (GPU -> CPU readback) only when something listens to events
+      events: (subEmitters !== null && subEmitters.length > 0) || hasEventListener,
     }),
-    [activeNeedsPerParticleColor, activeNeedsRotation, turbulence, attractors, collision]
+    [
+      activeNeedsPerParticleColor,
+      activeNeedsRotation,
+      turbulence,
+      attractors,
+      hasVelocityOverLifetime,
+      collision,
+      subEmitters,
+      hasEventListener,
+    ]
+  )
+
+  // Scene depth buffer for depth collision (shared by the render pipeline through the store)
+  const sceneDepth = useVFXStore((s) => s.sceneDepth)
+  const sceneDepthRef = useRef(sceneDepth)
+  useEffect(() => {
+    sceneDepthRef.current = sceneDepth
+  }, [sceneDepth])
+  const depthTexture = sceneDepth?.texture ?? null
+
+  // Number of positions kept per particle for the trail (0 = no trail)
+  const trailLength = useMemo(() => getTrailLength(trail), [trail])
+
+  // Which particle events the compute shaders append (sub-emitters + onParticleEvent)
+  const listenerEventTypes = useMemo(
+    () => (hasEventListener ? getParticleEventTypes(particleEvents) : []),
+    [hasEventListener, particleEvents]
+  )
+  const eventTriggers = useMemo(
+    () => getParticleEventTriggers(subEmitters, listenerEventTypes),
+    [subEmitters, listenerEventTypes]
   )
 
   // Parse friction object: { intensity: [start, end] or single value, easing: string }
@@ -467,6 +888,9 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       startPosMinZ: uniform(startPosition3D[2][0]),
       startPosMaxZ: uniform(startPosition3D[2][1]),
       spawnPosition: uniform(new THREE.Vector3(...position)),
+      // Emitter motion: burst spread from spawnFrom to spawnPosition, inherited velocity
+      spawnFrom: uniform(new THREE.Vector3(...position)),
+      spawnVelocity: uniform(new THREE.Vector3()),
       spawnIndexStart: uniform(0),
       spawnIndexEnd: uniform(0),
       spawnSeed: uniform(0),
@@ -513,33 +937,18 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       emitterHeightMax: uniform(emitterHeightRange[1]),
       emitterSurfaceOnly: uniform(emitterSurfaceOnly ? 1 : 0),
       emitterDir: uniform(new THREE.Vector3(...emitterDirection).normalize()),
+      emitterMeshNormal: uniform(emitterMeshNormal ? 1 : 0),
+      // Emitter mesh transform into the system's space (written each frame)
+      emitterMeshMatrix: uniform(new THREE.Matrix4()),
+      emitterMeshNormalMatrix: uniform(new THREE.Matrix3()),
+      emitterMeshWorld: uniform(0),
       // Turbulence uniforms
       turbulenceIntensity: uniform(turbulence?.intensity ?? 0),
       turbulenceFrequency: uniform(turbulence?.frequency ?? 1),
       turbulenceSpeed: uniform(turbulence?.speed ?? 1),
       turbulenceTime: uniform(0), // Updated each frame
-      // Attractor uniforms (up to 4)
-      attractorCount: uniform(0),
-      attractor0Pos: uniform(new THREE.Vector3(0, 0, 0)),
-      attractor0Strength: uniform(0),
-      attractor0Radius: uniform(1),
-      attractor0Type: uniform(0),
-      attractor0Axis: uniform(new THREE.Vector3(0, 1, 0)),
-      attractor1Pos: uniform(new THREE.Vector3(0, 0, 0)),
-      attractor1Strength: uniform(0),
-      attractor1Radius: uniform(1),
-      attractor1Type: uniform(0),
-      attractor1Axis: uniform(new THREE.Vector3(0, 1, 0)),
-      attractor2Pos: uniform(new THREE.Vector3(0, 0, 0)),
-      attractor2Strength: uniform(0),
-      attractor2Radius: uniform(1),
-      attractor2Type: uniform(0),
-      attractor2Axis: uniform(new THREE.Vector3(0, 1, 0)),
-      attractor3Pos: uniform(new THREE.Vector3(0, 0, 0)),
-      attractor3Strength: uniform(0),
-      attractor3Radius: uniform(1),
-      attractor3Type: uniform(0),
-      attractor3Axis: uniform(new THREE.Vector3(0, 1, 0)),
+      // Attractors
+      attractorCount: uniform(0), // Written with the attractor buffer
       // Simple attract to center
       attractToCenter: uniform(attractToCenter ? 1 : 0),
       // Use start position as direction
@@ -547,13 +956,34 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       // Soft particles
       softParticlesEnabled: uniform(softParticles ? 1 : 0),
       softDistance: uniform(softDistance),
+      // LOD size multiplier (set every frame from the camera distance)
+      lodSizeScale: uniform(1),
+      // Camera position in local space (set every frame when sorting back to front)
+      sortCameraPosition: uniform(new THREE.Vector3()),
       // Velocity curve (replaces friction when enabled)
       // Enable if velocityCurve prop is set OR curveTexturePath is provided
       velocityCurveEnabled: uniform(velocityCurve || curveTexturePath ? 1 : 0),
+      // Velocity over lifetime (world-space linear, angular speed per axis, radial speed)
+      velocityLinear: uniform(
+        new THREE.Vector3().fromArray(
+          velocityOverLifetime
+            ? getLinearVelocity(velocityOverLifetime, emitterDirection)
+            : [0, 0, 0]
+        )
+      ),
+      velocityOrbital: uniform(
+        new THREE.Vector3().fromArray(velocityOverLifetime?.orbital ?? [0, 0, 0])
+      ),
+      velocityRadial: uniform(velocityOverLifetime?.radial ?? 0),
+      velocityCenter: uniform(
+        new THREE.Vector3().fromArray(velocityOverLifetime?.center ?? [0, 0, 0])
+      ),
       // Rotation speed curve (modulates rotation speed over lifetime)
       rotationSpeedCurveEnabled: uniform(rotationSpeedCurve || curveTexturePath ? 1 : 0),
       // Fade size curve (when disabled, uses fadeSize prop interpolation)
       fadeSizeCurveEnabled: uniform(fadeSizeCurve || curveTexturePath ? 1 : 0),
+      // Per-axis start size (size3D)
+      size3DStart: uniform(new THREE.Vector3().fromArray(size3D?.start ?? [1, 1, 1])),
       // Fade opacity curve (when disabled, uses fadeOpacity prop interpolation)
       fadeOpacityCurveEnabled: uniform(fadeOpacityCurve || curveTexturePath ? 1 : 0),
       // Orient axis: 0=+X, 1=+Y, 2=+Z, 3=-X, 4=-Y, 5=-Z
@@ -564,12 +994,38 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       stretchMax: uniform(stretchBySpeed?.maxStretch ?? 5),
       // Collision uniforms
       collisionEnabled: uniform(collision ? 1 : 0),
+      collisionPlaneEnabled: uniform(hasCollisionPlane(collision) ? 1 : 0),
+      colliderCount: uniform(0), // Written with the collider buffer
+      // Depth-buffer collision (matrices of the camera that rendered the depth)
+      depthCollisionEnabled: uniform(collision?.depth ? 1 : 0),
+      depthCollisionThickness: uniform(collision?.depthThickness ?? 0.5),
+      sceneDepthSize: uniform(new THREE.Vector2(1, 1)),
+      sceneDepthView: uniform(new THREE.Matrix4()),
+      sceneDepthProjection: uniform(new THREE.Matrix4()),
+      sceneDepthProjectionInverse: uniform(new THREE.Matrix4()),
+      sceneDepthCameraWorld: uniform(new THREE.Matrix4()),
+      // Vector field (bounds written once the field is loaded)
+      vectorFieldEnabled: uniform(vectorField ? 1 : 0),
+      vectorFieldMin: uniform(new THREE.Vector3(-0.5, -0.5, -0.5)),
+      vectorFieldSize: uniform(new THREE.Vector3(1, 1, 1)),
+      vectorFieldIntensity: uniform(vectorField?.intensity ?? 1),
+      vectorFieldTightness: uniform(vectorField?.tightness ?? 0),
       collisionPlaneY: uniform(collision?.plane?.y ?? 0),
       collisionBounce: uniform(collision?.bounce ?? 0.3),
       collisionFriction: uniform(collision?.friction ?? 0.8),
       collisionDie: uniform(collision?.die ? 1 : 0),
       // Size-based gravity (inside collision object)
       sizeBasedGravity: uniform(collision?.sizeBasedGravity ?? 0),
+      // Particle events appended for CPU readback (sub-emitters, onParticleEvent)
+      birthEventsEnabled: uniform(eventTriggers.birth ? 1 : 0),
+      deathEventsEnabled: uniform(eventTriggers.death ? 1 : 0),
+      collisionEventsEnabled: uniform(eventTriggers.collision ? 1 : 0),
+      attractorEventsEnabled: uniform(eventTriggers.attractorEnter ? 1 : 0),
+      // Trail uniforms
+      trailHead: uniform(0), // Newest ring buffer slot, advanced each trail interval
+      trailWidth: uniform(trail?.width ?? 0.1),
+      trailColorEnd: uniform(new THREE.Color(trail?.colorEnd ?? '#ffffff')),
+      trailColorEndEnabled: uniform(trail?.colorEnd ? 1 : 0),
     }),
     []
   )
@@ -577,6 +1033,12 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
   // Store position prop for use in spawn
   const positionRef = useRef(position)
 
+  // Spawn seeds come from this generator when the seed prop is set (reset by clear)
+  const seedRandomRef = useRef<(() => number) | null>(null)
+  useEffect(() => {
+    seedRandomRef.current = seed === null ? null : createSeededRandom(seed)
+  }, [seed])
+
   // Update all uniforms when props change (skip in debug mode - debug panel handles this)
   useEffect(() => {
     // In debug mode, the debug panel controls uniform values via handleDebugUpdate
@@ -667,30 +1129,13 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     uniforms.emitterHeightMax.value = emitterHeightRange[1]
     uniforms.emitterSurfaceOnly.value = emitterSurfaceOnly ? 1 : 0
     uniforms.emitterDir.value.set(...emitterDirection).normalize()
+    uniforms.emitterMeshNormal.value = emitterMeshNormal ? 1 : 0
 
     // Turbulence
     uniforms.turbulenceIntensity.value = turbulence?.intensity ?? 0
     uniforms.turbulenceFrequency.value = turbulence?.frequency ?? 1
     uniforms.turbulenceSpeed.value = turbulence?.speed ?? 1
 
-    // Attractors
-    const attractorList = attractors ?? []
-    uniforms.attractorCount.value = Math.min(attractorList.length, MAX_ATTRACTORS)
-    for (let i = 0; i < MAX_ATTRACTORS; i++) {
-      const a = attractorList[i]
-      // @ts-expect-error - Dynamic uniform indexing
-      const u = uniforms as Record<string, { value: THREE.Vector3 | number }>
-      if (a) {
-        ;(u[`attractor${i}Pos`].value as THREE.Vector3).set(...(a.position ?? [0, 0, 0]))
-        u[`attractor${i}Strength`].value = a.strength ?? 1
-        u[`attractor${i}Radius`].value = a.radius ?? 0 // 0 = infinite
-        u[`attractor${i}Type`].value = a.type === 'vortex' ? 1 : 0
-        ;(u[`attractor${i}Axis`].value as THREE.Vector3).set(...(a.axis ?? [0, 1, 0])).normalize()
-      } else {
-        u[`attractor${i}Strength`].value = 0
-      }
-    }
-
     // Simple attract to center
     uniforms.attractToCenter.value = attractToCenter ? 1 : 0
 
@@ -705,11 +1150,20 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     // Enable if velocityCurve prop is set OR curveTexturePath is provided
     uniforms.velocityCurveEnabled.value = velocityCurve || curveTexturePath ? 1 : 0
 
+    // Velocity over lifetime
+    uniforms.velocityLinear.value.fromArray(
+      velocityOverLifetime ? getLinearVelocity(velocityOverLifetime, emitterDirection) : [0, 0, 0]
+    )
+    uniforms.velocityOrbital.value.fromArray(velocityOverLifetime?.orbital ?? [0, 0, 0])
+    uniforms.velocityRadial.value = velocityOverLifetime?.radial ?? 0
+    uniforms.velocityCenter.value.fromArray(velocityOverLifetime?.center ?? [0, 0, 0])
+
     // Rotation speed curve
     uniforms.rotationSpeedCurveEnabled.value = rotationSpeedCurve || curveTexturePath ? 1 : 0
 
     // Fade size curve (when enabled, uses curve instead of fadeSize prop)
     uniforms.fadeSizeCurveEnabled.value = fadeSizeCurve || curveTexturePath ? 1 : 0
+    uniforms.size3DStart.value.fromArray(size3D?.start ?? [1, 1, 1])
 
     // Fade opacity curve (when enabled, uses curve instead of fadeOpacity prop)
     uniforms.fadeOpacityCurveEnabled.value = fadeOpacityCurve || curveTexturePath ? 1 : 0
@@ -724,13 +1178,30 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
 
     // Collision
     uniforms.collisionEnabled.value = collision ? 1 : 0
+    uniforms.collisionPlaneEnabled.value = hasCollisionPlane(collision) ? 1 : 0
+    uniforms.depthCollisionEnabled.value = collision?.depth ? 1 : 0
+    uniforms.depthCollisionThickness.value = collision?.depthThickness ?? 0.5
     uniforms.collisionPlaneY.value = collision?.plane?.y ?? 0
     uniforms.collisionBounce.value = collision?.bounce ?? 0.3
     uniforms.collisionFriction.value = collision?.friction ?? 0.8
     uniforms.collisionDie.value = collision?.die ? 1 : 0
     uniforms.sizeBasedGravity.value = collision?.sizeBasedGravity ?? 0
+
+    // Particle events
+    uniforms.birthEventsEnabled.value = eventTriggers.birth ? 1 : 0
+    uniforms.deathEventsEnabled.value = eventTriggers.death ? 1 : 0
+    uniforms.collisionEventsEnabled.value = eventTriggers.collision ? 1 : 0
+    uniforms.attractorEventsEnabled.value = eventTriggers.attractorEnter ? 1 : 0
+
+    // Trail
+    uniforms.trailWidth.value = trail?.width ?? 0.1
+    uniforms.trailColorEnd.value.set(trail?.colorEnd ?? '#ffffff')
+    uniforms.trailColorEndEnabled.value = trail?.colorEnd ? 1 : 0
+
+    reapplyParamOverrides()
   }, [
     debug,
+    reapplyParamOverrides,
     position,
     sizeRange,
     fadeSizeRange,
@@ -756,22 +1227,29 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     emitterHeightRange,
     emitterSurfaceOnly,
     emitterDirection,
+    emitterMeshNormal,
     turbulence,
     startPosition3D,
-    attractors,
     attractToCenter,
     startPositionAsDirection,
     softParticles,
     softDistance,
     velocityCurve,
+    velocityOverLifetime,
     rotationSpeedCurve,
     fadeSizeCurve,
+    size3D,
     fadeOpacityCurve,
     curveTexturePath,
     orientAxis,
     stretchBySpeed,
+    eventTriggers,
+    trail,
   ])
 
+  // Sorting only changes the result with normal blending
+  const sorted = isSortEnabled(sortMode, blending)
+
   // GPU Storage arrays
   // ADDITIVE: Color arrays only created when needed (multiple colors or color transition)
   const storage: ParticleStorageArrays = useMemo(() => {
@@ -785,6 +1263,13 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       particleRotations: null,
       particleColorStarts: null,
       particleColorEnds: null,
+      events: null,
+      trail: null,
+      colliders: null,
+      attractors: null,
+      particleOrigins: null,
+      aliveList: null,
+      sort: null,
     }
 
     // Only create rotation array if rotation or rotationSpeed is non-default
@@ -798,8 +1283,124 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       arrays.particleColorEnds = instancedArray(activeMaxParticles, 'vec3')
     }
 
+    // Only create the event buffer if particle events are read back (sub-emitters)
+    if (activeFeatures.events) {
+      arrays.events = createParticleEventStorage()
+    }
+
+    // Only create the trail ring buffer if a trail is drawn
+    if (trailLength > 0) {
+      arrays.trail = {
+        positions: instancedArray(activeMaxParticles * trailLength, 'vec3'),
+        length: trailLength,
+      }
+    }
+
+    // Only create the origin array if velocity over lifetime needs spawn positions
+    if (activeFeatures.velocityOverLifetime) {
+      arrays.particleOrigins = instancedArray(activeMaxParticles, 'vec3')
+    }
+
+    // Only create the alive list if compaction is on (one draw record per object drawn from it)
+    if (compaction) {
+      arrays.aliveList = createAliveListStorage(activeMaxParticles, trailLength > 0 ? 2 : 1)
+    }
+
+    // Only create the sort buffers if a normal-blended system is sorted
+    if (sorted) {
+      arrays.sort = createSortStorage(activeMaxParticles)
+    }
+
     return arrays
-  }, [activeMaxParticles, activeFeatures.needsRotation, activeFeatures.needsPerParticleColor])
+  }, [
+    activeMaxParticles,
+    activeFeatures.needsRotation,
+    activeFeatures.needsPerParticleColor,
+    activeFeatures.events,
+    activeFeatures.velocityOverLifetime,
+    trailLength,
+    compaction,
+    sorted,
+  ])
+
+  // Collider buffer - only if collision uses a colliders list, kept out of the particle storage
+  // so growing it past its capacity recreates the update compute without losing particles
+  const [colliderCapacity, setColliderCapacity] = useState(MAX_COLLIDERS)
+  const colliderStorage = useMemo(
+    () => (activeFeatures.colliders ? createColliderStorage(colliderCapacity) : null),
+    [activeFeatures.colliders, colliderCapacity]
+  )
+
+  // Upload static collider lists (function lists are uploaded every frame)
+  // A list that outgrew the buffer is uploaded again once the larger buffer is created
+  useEffect(() => {
+    if (!colliderStorage || typeof collision?.colliders === 'function') return
+    const colliders = resolveColliders(collision)
+    if (colliders.length > colliderStorage.maxColliders) {
+      setColliderCapacity(getColliderCapacity(colliders.length))
+    }
+    uniforms.colliderCount.value = writeColliders(colliderStorage, colliders, collision)
+  }, [colliderStorage, uniforms, collision])
+
+  // Runtime attractor list (reset from the attractors prop, edited through the API)
+  const attractorListRef = useRef<AttractorConfig[]>([])
+  const attractorsKeyRef = useRef<string | null>(null)
+
+  // Attractor buffer - only if there is an attractors array, kept out of the particle storage
+  // so growing it past its capacity recreates the update compute without losing particles
+  const [attractorCapacity, setAttractorCapacity] = useState(MAX_ATTRACTORS)
+  const attractorStorage = useMemo(
+    () => (activeFeatures.attractors ? createAttractorStorage(attractorCapacity) : null),
+    [activeFeatures.attractors, attractorCapacity]
+  )
+
+  // Upload the attractor list - only attractorCount changes, the compute is not rebuilt
+  // unless the list outgrew the buffer (the larger buffer is uploaded once it is created)
+  const uploadAttractors = useCallback(() => {
+    if (!attractorStorage) {
+      console.warn(
+        'VFXParticles: attractors are disabled, pass attractors={[]} to add them at runtime'
+      )
+      return false
+    }
+    const list = attractorListRef.current
+    if (list.length > attractorStorage.maxAttractors) {
+      setAttractorCapacity(getAttractorCapacity(list.length))
+    }
+    uniforms.attractorCount.value = writeAttractors(attractorStorage, list)
+    return true
+  }, [attractorStorage, uniforms])
+
+  useEffect(() => {
+    // Inline arrays are new every render - only reset runtime edits when the content changes
+    const key = JSON.stringify(attractors ?? [])
+    if (key !== attractorsKeyRef.current) {
+      attractorsKeyRef.current = key
+      attractorListRef.current = [...(attractors ?? [])]
+    }
+    if (attractorStorage) uploadAttractors()
+  }, [attractorStorage, attractors, uploadAttractors])
+
+  // Vector field uniforms (bounds default to the field's own bounds)
+  useEffect(() => {
+    uniforms.vectorFieldEnabled.value = vectorField ? 1 : 0
+    uniforms.vectorFieldIntensity.value = vectorField?.intensity ?? 1
+    uniforms.vectorFieldTightness.value = vectorField?.tightness ?? 0
+
+    const bounds = vectorField?.bounds ?? vectorFieldTexture?.field.bounds
+    if (bounds) {
+      const [minX, minY, minZ] = bounds.min
+      const [maxX, maxY, maxZ] = bounds.max
+      uniforms.vectorFieldMin.value.set(minX, minY, minZ)
+      uniforms.vectorFieldSize.value.set(maxX - minX, maxY - minY, maxZ - minZ)
+    }
+  }, [uniforms, vectorField, vectorFieldTexture])
+
+  // Empties the event buffer after each readback
+  const computeEventReset = useMemo(
+    () => (storage.events ? createEventResetCompute(storage.events) : null),
+    [storage]
+  )
 
   // Initialize all particles as dead
   const computeInit = useMemo(
@@ -807,23 +1408,87 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     [storage, activeMaxParticles]
   )
 
+  // Alive list compaction (rebuilt after each update) and its indirect arguments (after each spawn)
+  const computeCompact = useMemo(
+    () => (storage.aliveList ? createCompactCompute(storage, activeMaxParticles) : null),
+    [storage, activeMaxParticles]
+  )
+  const computeAliveListArgs = useMemo(
+    () => (storage.aliveList ? createAliveListArgsCompute(storage.aliveList) : null),
+    [storage]
+  )
+
+  // Draw order sort (after the update, compaction and emission of each frame)
+  const computeSort = useMemo(
+    () =>
+      storage.sort ? createSortCompute(storage, uniforms, sortMode, activeMaxParticles) : null,
+    [storage, uniforms, sortMode, activeMaxParticles]
+  )
+
+  // Mesh emitter buffers (MESH shape) - baked triangles + area-weighted lookup
+  // Only created when an emitterMesh with triangles is provided
+  const meshEmitterDataRef = useRef<MeshEmitterData | null>(null)
+  const meshEmitterStorage: MeshEmitterStorage | null = useMemo(() => {
+    meshEmitterDataRef.current = null
+    if (!emitterMesh || getMeshEmitterTriangleCount(emitterMesh) === 0) return null
+
+    const data = bakeMeshEmitter(emitterMesh)
+    meshEmitterDataRef.current = data
+
+    const triangles = instancedArray(data.triangleCount * 3, 'vec3')
+    const normals = instancedArray(data.triangleCount, 'vec3')
+    const lookup = instancedArray(data.lookup.length, 'float')
+    ;(triangles.value.array as Float32Array).set(data.triangles)
+    ;(normals.value.array as Float32Array).set(data.normals)
+    ;(lookup.value.array as Float32Array).set(data.lookup)
+
+    return { triangles, normals, lookup, lookupSize: data.lookup.length }
+  }, [emitterMesh])
+
   // Spawn compute shader
   const computeSpawn = useMemo(
-    () => createSpawnCompute(storage, uniforms, activeMaxParticles),
-    [storage, uniforms, activeMaxParticles]
+    () => createSpawnCompute(storage, uniforms, activeMaxParticles, meshEmitterStorage),
+    [storage, uniforms, activeMaxParticles, meshEmitterStorage]
+  )
+
+  // Particle storage plus the growable attractor / collider buffers, as the update compute reads it
+  const simulationStorage = useMemo(
+    () => ({ ...storage, attractors: attractorStorage, colliders: colliderStorage }),
+    [storage, attractorStorage, colliderStorage]
   )
 
   // Update particles each frame (framerate independent)
   // Pass shader features to generate optimized shader (skip unused code)
   const computeUpdate = useMemo(
-    () => createUpdateCompute(storage, uniforms, curveTexture, activeMaxParticles, {
-      turbulence: activeFeatures.turbulence,
-      attractors: activeFeatures.attractors,
-      collision: activeFeatures.collision,
-      rotation: activeFeatures.rotation,
-      perParticleColor: activeFeatures.perParticleColor,
-    }),
-    [storage, uniforms, curveTexture, activeMaxParticles, activeFeatures]
+    () =>
+      createUpdateCompute(
+        simulationStorage,
+        uniforms,
+        curveTexture,
+        activeMaxParticles,
+        {
+          turbulence: activeFeatures.turbulence,
+          attractors: activeFeatures.attractors,
+          collision: activeFeatures.collision,
+          rotation: activeFeatures.rotation,
+          perParticleColor: activeFeatures.perParticleColor,
+        },
+        {
+          sceneDepth: activeFeatures.depthCollision ? depthTexture : null,
+          vectorField: vectorFieldTexture?.texture ?? null,
+          velocityOverLifetime: velocityOverLifetimeTexture,
+        }
+      ),
+    [
+      simulationStorage,
+      uniforms,
+      curveTexture,
+      activeMaxParticles,
+      activeFeatures,
+      depthTexture,
+      vectorFieldTexture,
+      velocityOverLifetimeTexture,
+    ]
   )
 
   // Material (either Sprite or Mesh material based on geometry prop)
@@ -832,13 +1497,19 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       createParticleMaterial(storage, uniforms, curveTexture, {
         alphaMap,
         flipbook,
+        motionVectorMap,
         appearance: activeAppearance,
         lighting: activeLighting,
+        billboardLighting,
+        normalMap,
+        sixWayLightmap,
         softParticles,
         geometry: activeGeometry,
         orientToDirection: activeOrientToDirection,
         shadow: activeShadow,
         blending,
+        colorGradient: gradientTexture,
+        size3DCurve: size3DTexture,
         opacityNode,
         colorNode,
         backdropNode,
@@ -852,10 +1523,14 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       activeAppearance,
       alphaMap,
       flipbook,
+      motionVectorMap,
       blending,
       activeGeometry,
       activeOrientToDirection,
       activeLighting,
+      billboardLighting,
+      normalMap,
+      sixWayLightmap,
       backdropNode,
       opacityNode,
       colorNode,
@@ -863,17 +1538,25 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       castShadowNode,
       softParticles,
       activeShadow,
+      gradientTexture,
+      size3DTexture,
     ]
   )
 
   // Create sprite or instanced mesh based on geometry prop
+  // Compacted systems draw indirectly, from their own copy of the geometry
   const renderObject = useMemo(() => {
     if (activeGeometry) {
       // InstancedMesh mode
-      const mesh = new THREE.InstancedMesh(activeGeometry, material, activeMaxParticles)
+      const mesh = new THREE.InstancedMesh(
+        storage.aliveList ? activeGeometry.clone() : activeGeometry,
+        material,
+        activeMaxParticles
+      )
       mesh.frustumCulled = false
       mesh.castShadow = activeShadow
       mesh.receiveShadow = activeShadow
+      if (storage.aliveList) setAliveListDraw(storage.aliveList, mesh.geometry)
       return mesh
     } else {
       // Sprite mode (default)
@@ -881,18 +1564,64 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       const s = new THREE.Sprite(material)
       s.count = activeMaxParticles
       s.frustumCulled = false
+      if (storage.aliveList) {
+        s.geometry = s.geometry.clone()
+        setAliveListDraw(storage.aliveList, s.geometry)
+      }
       return s
     }
-  }, [material, activeMaxParticles, activeGeometry, activeShadow])
+  }, [storage, material, activeMaxParticles, activeGeometry, activeShadow])
+  useEffect(() => {
+    if (!storage.aliveList) return
+    return () => {
+      renderObject.geometry.dispose()
+    }
+  }, [storage, renderObject])
+
+  // Trail curve texture (R = width, G = opacity along the trail)
+  const trailCurveTexture = useMemo(
+    () =>
+      trailLength > 0 ? createTrailCurveTexture(trail?.widthCurve, trail?.opacityCurve) : null,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [trailLength > 0, trail?.widthCurve, trail?.opacityCurve]
+  )
+  useEffect(() => {
+    return () => {
+      trailCurveTexture?.dispose()
+    }
+  }, [trailCurveTexture])
+
+  // Trail ribbons - one instanced strip per particle
+  const trailObject = useMemo(() => {
+    if (!storage.trail || !trailCurveTexture) return null
+    const trailMaterial = createTrailMaterial(storage, uniforms, trailCurveTexture, blending)
+    const mesh = new THREE.InstancedMesh(
+      createTrailGeometry(storage.trail.length),
+      trailMaterial,
+      activeMaxParticles
+    )
+    mesh.frustumCulled = false
+    if (storage.aliveList) setAliveListDraw(storage.aliveList, mesh.geometry, 1)
+    return mesh
+  }, [storage, uniforms, trailCurveTexture, blending, activeMaxParticles])
+  useEffect(() => {
+    return () => {
+      if (trailObject) {
+        trailObject.geometry.dispose()
+        ;(trailObject.material as THREE.Material).dispose()
+      }
+    }
+  }, [trailObject])
 
-  // Initialize on mount
+  // Initialize on mount (an empty alive list when compacted)
   useEffect(() => {
     if (!renderer || initialized.current) return
+    const computeNodes = computeCompact ? [computeInit, ...computeCompact] : computeInit
     // @ts-expect-error - WebGPU computeAsync not in WebGL types
-    renderer.computeAsync(computeInit).then(() => {
+    renderer.computeAsync(computeNodes).then(() => {
       initialized.current = true
     })
-  }, [renderer, computeInit])
+  }, [renderer, computeInit, computeCompact])
 
   // Apply spawn overrides to uniforms, returns restore function
   const applySpawnOverrides = useCallback(
@@ -964,6 +1693,14 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
         uniforms.gravity.value.set(...(overrides.gravity as [number, number, number]))
       }
 
+      // Emitter velocity inherited by the particles, scaled by inheritVelocity (default 1)
+      if (overrides.emitterVelocity !== undefined) {
+        saved.spawnVelocity = uniforms.spawnVelocity.value.clone()
+        uniforms.spawnVelocity.value
+          .set(...(overrides.emitterVelocity as [number, number, number]))
+          .multiplyScalar(overrides.inheritVelocity ?? 1)
+      }
+
       // Colors - requires converting hex to RGB and setting multiple uniforms
       // @ts-expect-error - Dynamic uniform access
       const u = uniforms as Record<string, { value: THREE.Color }>
@@ -1023,42 +1760,143 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       y: number,
       z: number,
       count = 20,
-      overrides: Record<string, unknown> | null = null
+      overrides: Record<string, unknown> | null = null,
+      burstSeed: number | null = null
     ) => {
-      if (!initialized.current || !renderer) return
+      if (!initialized.current || !renderer || count <= 0) return null
 
       // Apply overrides and get restore function
       const restore = applySpawnOverrides(overrides)
+      // Longest lifetime of the burst (lifetimeMin is the slowest fade rate, overrides applied)
+      const expiry = lifecycle.track(1 / uniforms.lifetimeMin.value)
 
       const startIdx = nextIndex.current
       const endIdx = (startIdx + count) % activeMaxParticles
 
       uniforms.spawnPosition.value.set(x, y, z)
+      // Rate over distance: spread the burst along the path from emitFrom
+      const emitFrom = overrides?.emitFrom as [number, number, number] | undefined
+      uniforms.spawnFrom.value.set(...(emitFrom ?? [x, y, z]))
       uniforms.spawnIndexStart.value = startIdx
       uniforms.spawnIndexEnd.value = endIdx
-      uniforms.spawnSeed.value = Math.random() * 10000
+      // An explicit burst seed wins over the system's seeded sequence
+      uniforms.spawnSeed.value =
+        burstSeed !== null
+          ? toSpawnSeed(createSeededRandom(burstSeed))
+          : toSpawnSeed(seedRandomRef.current ?? Math.random)
 
       nextIndex.current = endIdx
 
       // Run compute - GPU reads uniforms when dispatched, so restore immediately
       // This prevents race conditions when multiple emitters spawn in the same frame
+      // New particles join the alive list, refresh its draw / dispatch size
       // @ts-expect-error - WebGPU computeAsync not in WebGL types
-      renderer.computeAsync(computeSpawn)
+      renderer.computeAsync(
+        computeAliveListArgs ? [computeSpawn, computeAliveListArgs] : computeSpawn
+      )
 
       // Restore original values synchronously after dispatch
       if (restore) restore()
+      return expiry
     },
-    [renderer, computeSpawn, uniforms, activeMaxParticles, applySpawnOverrides]
+    [
+      lifecycle,
+      renderer,
+      computeSpawn,
+      computeAliveListArgs,
+      uniforms,
+      activeMaxParticles,
+      applySpawnOverrides,
+    ]
   )
 
   // Public spawn - uses position prop as offset, supports overrides
-  // spawn(x, y, z, count, { colorStart: [...], direction: [...], ... })
+  // spawn(x, y, z, count, { colorStart: [...], direction: [...], ... }, seed)
   const spawn = useCallback(
-    (x = 0, y = 0, z = 0, count = 20, overrides: Record<string, unknown> | null = null) => {
+    (
+      x = 0,
+      y = 0,
+      z = 0,
+      count = 20,
+      overrides: Record<string, unknown> | null = null,
+      seed: number | null = null
+    ) => {
       const [px, py, pz] = positionRef.current ?? [0, 0, 0]
-      spawnInternal(px + x, py + y, pz + z, count, overrides)
+      // emitFrom is relative to the position prop, like x, y, z
+      const emitFrom = overrides?.emitFrom as [number, number, number] | undefined
+      const spawnOverrides = emitFrom
+        ? { ...overrides, emitFrom: [px + emitFrom[0], py + emitFrom[1], pz + emitFrom[2]] }
+        : overrides
+      // Global quality scales bursts too (never below one particle)
+      const { emissionScale } = QUALITY_SETTINGS[useVFXStore.getState().quality]
+      const scaledCount = count > 0 ? Math.max(1, Math.round(count * emissionScale)) : count
+      const expiry = spawnInternal(px + x, py + y, pz + z, scaledCount, spawnOverrides, seed)
+      // Resolved when the burst's last particle expires (right away if nothing spawned)
+      return lifecycle.waitUntil(expiry ?? 0)
+    },
+    [spawnInternal, lifecycle]
+  )
+
+  // Re-sample the emitter mesh in place: needed whenever a skinned / morphed mesh changes pose
+  // (its transform is followed automatically). The source must have the same triangle count
+  const updateEmitterMesh = useCallback(
+    (source: MeshEmitterSource | null = emitterMesh) => {
+      const data = meshEmitterDataRef.current
+      if (!source || !data || !meshEmitterStorage) return false
+      if (getMeshEmitterTriangleCount(source) !== data.triangleCount) {
+        console.warn('VFXParticles: updateEmitterMesh source has a different triangle count')
+        return false
+      }
+
+      bakeMeshEmitter(source, data.lookup.length, data)
+      ;(meshEmitterStorage.triangles.value.array as Float32Array).set(data.triangles)
+      ;(meshEmitterStorage.normals.value.array as Float32Array).set(data.normals)
+      ;(meshEmitterStorage.lookup.value.array as Float32Array).set(data.lookup)
+      meshEmitterStorage.triangles.value.needsUpdate = true
+      meshEmitterStorage.normals.value.needsUpdate = true
+      meshEmitterStorage.lookup.value.needsUpdate = true
+      return true
+    },
+    [emitterMesh, meshEmitterStorage]
+  )
+
+  // Runtime attractors (indices follow the order attractors were added in)
+  const setAttractors = useCallback(
+    (list: AttractorConfig[]) => {
+      attractorListRef.current = [...list]
+      return uploadAttractors()
+    },
+    [uploadAttractors]
+  )
+
+  // Returns the index of the new attractor, -1 when attractors are disabled
+  const addAttractor = useCallback(
+    (attractor: AttractorConfig) => {
+      attractorListRef.current.push(attractor)
+      return uploadAttractors() ? attractorListRef.current.length - 1 : -1
+    },
+    [uploadAttractors]
+  )
+
+  const updateAttractor = useCallback(
+    (index: number, changes: Partial<AttractorConfig>) => {
+      const list = attractorListRef.current
+      if (!list[index]) return false
+      list[index] = { ...list[index], ...changes }
+      return uploadAttractors()
+    },
+    [uploadAttractors]
+  )
+
+  // Later attractors shift down one index
+  const removeAttractor = useCallback(
+    (index: number) => {
+      const list = attractorListRef.current
+      if (index < 0 || index >= list.length) return false
+      list.splice(index, 1)
+      return uploadAttractors()
     },
-    [spawnInternal]
+    [uploadAttractors]
   )
 
   // Keep computeUpdate in a ref so useFrame always has the latest version
@@ -1071,43 +1909,50 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
   useFrame(async (state, delta) => {
     if (!initialized.current || !renderer) return
 
-    // Update deltaTime uniform for framerate independence
-    uniforms.deltaTime.value = delta
+    // Param tweens started through the store (coreStore.tweenParam)
+    if (name) useVFXStore.getState().updateParamTweens(name, delta)
 
-    // Update turbulence time (animated noise field)
-    const turbSpeed = turbulenceRef.current?.speed ?? 1
-    uniforms.turbulenceTime.value += delta * turbSpeed
-
-    // Update particles - use ref to always get latest computeUpdate
-    // @ts-expect-error - WebGPU computeAsync not in WebGL types
-    await renderer.computeAsync(computeUpdateRef.current)
-
-    // Auto emit if enabled
-    if (emitting) {
-      const [px, py, pz] = positionRef.current
-      const currentDelay = delayRef.current
-      const currentEmitCount = emitCountRef.current
-
-      if (!currentDelay) {
-        // delay = 0 or undefined → emit every frame
-        spawnInternal(px, py, pz, currentEmitCount)
-      } else {
-        // delay > 0 → emit every X seconds
-        emitAccumulator.current += delta
-
-        if (emitAccumulator.current >= currentDelay) {
-          emitAccumulator.current -= currentDelay
-          spawnInternal(px, py, pz, currentEmitCount)
-        }
-      }
-    }
+    await frame.update({
+      renderer: renderer as unknown as THREE.WebGPURenderer,
+      delta,
+      camera: state.camera,
+      object: renderObject,
+      uniforms,
+      storage: simulationStorage,
+      computeUpdate: computeUpdateRef.current,
+      computeCompact,
+      computeEventReset,
+      computeSort,
+      props: {
+        position: positionRef.current,
+        delay: delayRef.current,
+        emitCount: emitCountRef.current,
+        emission: emissionRef.current,
+        turbulence: turbulenceRef.current,
+        collision: collisionRef.current,
+        trail: trailRef.current,
+        lod: lodRef.current,
+        subEmitters: subEmittersRef.current,
+        particleEvents: particleEventsRef.current,
+        onParticleEvent: onParticleEventRef.current,
+      },
+      emitterMesh: meshEmitterStorage ? emitterMesh : null,
+      emitting,
+      quality: useVFXStore.getState().quality,
+      sceneDepth: sceneDepthRef.current,
+      spawn: (x: number, y: number, z: number, count: number) => {
+        spawnInternal(x, y, z, count)
+      },
+      stop: () => setEmitting(false),
+      growColliders: setColliderCapacity,
+    })
   })
 
   // Start/stop functions
   const start = useCallback(() => {
     setEmitting(true)
-    emitAccumulator.current = 0
-  }, [])
+    frame.restartEmission()
+  }, [frame])
 
   const stop = useCallback(() => {
     setEmitting(false)
@@ -1156,6 +2001,8 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       // Reset initialization state only on unmount
       initialized.current = false
       nextIndex.current = 0
+      // Pending spawn promises resolve, the particles are gone
+      lifecycle.dispose()
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
@@ -1167,17 +2014,67 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       spawn,
       start,
       stop,
+      updateEmitterMesh,
+      setAttractors,
+      addAttractor,
+      updateAttractor,
+      removeAttractor,
+      getAttractors() {
+        return [...attractorListRef.current]
+      },
       get isEmitting() {
-        return emitting
+        return emittingRef.current
+      },
+      get hasAliveParticles() {
+        return lifecycle.hasAlive
+      },
+      get simulatedDelta() {
+        return frame.simulatedDelta
+      },
+      // Apply runtime params like the debug panel does (validated by the store)
+      setParams(values: ParticleParams) {
+        for (const key of Object.keys(values)) {
+          if (key in paramOverrides.current) continue
+          const value = propParams.current[key as ParticleParamKey]
+          overriddenProps.current[key] = JSON.stringify(value ?? null)
+        }
+        paramOverrides.current = { ...paramOverrides.current, ...values }
+        // Without the panel, related keys (colorEnd for colorStart, rotationSpeed for
+        // rotation, ...) fall back to the current params
+        if (!debug) debugValuesRef.current = { ...propParams.current, ...paramOverrides.current }
+        applyParamsRef.current?.(values)
+      },
+      getParams(): ParticleParams {
+        return { ...propParams.current, ...paramOverrides.current }
       },
       clear() {
         // @ts-expect-error WebGPU renderer method
-        renderer.computeAsync(computeInit)
+        renderer.computeAsync(computeCompact ? [computeInit, ...computeCompact] : computeInit)
         nextIndex.current = 0
+        lifecycle.clear()
+        // Restart the seeded sequence so the effect replays identically
+        if (seed !== null) seedRandomRef.current = createSeededRandom(seed)
       },
       uniforms,
     }),
-    [spawn, start, stop, emitting, renderer, computeInit, uniforms]
+    [
+      spawn,
+      start,
+      stop,
+      updateEmitterMesh,
+      setAttractors,
+      addAttractor,
+      updateAttractor,
+      removeAttractor,
+      debug,
+      lifecycle,
+      frame,
+      renderer,
+      computeInit,
+      computeCompact,
+      seed,
+      uniforms,
+    ]
   )
 
   useImperativeHandle(ref, () => particleAPI, [particleAPI])
@@ -1200,8 +2097,6 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
 
   // Debug panel - no React state, direct ref mutation
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const debugValuesRef = useRef<any>(null)
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const prevGeometryTypeRef = useRef<any>(null)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const prevGeometryArgsRef = useRef<any>(null)
@@ -1408,8 +2303,12 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
 
       // Update per-particle color state if colors changed (triggers storage array recreation)
       if ('colorStart' in newValues || 'colorEnd' in newValues) {
-        const startLen = newValues.colorStart?.length ?? debugValuesRef.current?.colorStart?.length ?? 1
-        const hasColorEnd = 'colorEnd' in newValues ? newValues.colorEnd !== null : debugValuesRef.current?.colorEnd !== null
+        const startLen =
+          newValues.colorStart?.length ?? debugValuesRef.current?.colorStart?.length ?? 1
+        const hasColorEnd =
+          'colorEnd' in newValues
+            ? newValues.colorEnd !== null
+            : debugValuesRef.current?.colorEnd !== null
         const needsPerParticle = startLen > 1 || hasColorEnd
         if (needsPerParticle !== activeNeedsPerParticleColor) {
           setActiveNeedsPerParticleColor(needsPerParticle)
@@ -1436,6 +2335,9 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       if ('emitterSurfaceOnly' in newValues) {
         uniforms.emitterSurfaceOnly.value = newValues.emitterSurfaceOnly ? 1 : 0
       }
+      if ('emitterMeshNormal' in newValues) {
+        uniforms.emitterMeshNormal.value = newValues.emitterMeshNormal ? 1 : 0
+      }
       if (
         'emitterDirection' in newValues &&
         newValues.emitterDirection &&
@@ -1476,6 +2378,10 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       // Collision
       if ('collision' in newValues) {
         uniforms.collisionEnabled.value = newValues.collision ? 1 : 0
+        uniforms.collisionPlaneEnabled.value = hasCollisionPlane(newValues.collision) ? 1 : 0
+        uniforms.depthCollisionEnabled.value = newValues.collision?.depth ? 1 : 0
+        uniforms.depthCollisionThickness.value = newValues.collision?.depthThickness ?? 0.5
+        collisionRef.current = newValues.collision
         uniforms.collisionPlaneY.value = newValues.collision?.plane?.y ?? 0
         uniforms.collisionBounce.value = newValues.collision?.bounce ?? 0.3
         uniforms.collisionFriction.value = newValues.collision?.friction ?? 0.8
@@ -1491,6 +2397,7 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       // Runtime refs update (for values used in useFrame)
       if ('delay' in newValues) delayRef.current = newValues.delay ?? 0
       if ('emitCount' in newValues) emitCountRef.current = newValues.emitCount ?? 1
+      if ('emission' in newValues) emissionRef.current = newValues.emission ?? null
       // turbulenceRef is updated in the turbulence block above
 
       // Update emitting state
@@ -1577,6 +2484,10 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     ]
   )
 
+  useEffect(() => {
+    applyParamsRef.current = handleDebugUpdate
+  }, [handleDebugUpdate])
+
   // Initialize debug panel once on mount if debug is enabled
   useEffect(() => {
     if (!debug) return
@@ -1615,6 +2526,7 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
       autoStart,
       delay,
       emitCount,
+      emission,
       emitterShape,
       emitterRadius,
       emitterAngle,
@@ -1794,6 +2706,11 @@ export const VFXParticles = forwardRef<unknown, VFXParticlesProps>(function VFXP
     })
   }, [debug, handleDebugUpdate])
 
-  // @ts-expect-error R3F primitive element
-  return <primitive ref={spriteRef} object={renderObject} />
+  return (
+    <>
+      {/* @ts-expect-error R3F primitive element */}
+      <primitive ref={spriteRef} object={renderObject} />
+      {trailObject && <primitive object={trailObject} />}
+    </>
+  )
 })
@@ -3,6 +3,7 @@ import { useState, useCallback, useRef, useEffect } from 'react'
 import { Appearance, Blending, EmitterShape, Lighting } from './VFXParticles'
 import * as THREE from 'three'
 import { create } from 'zustand'
+import { parsePreset } from 'core-vfx'
 
 // Minimal Zustand store - holds flushChanges ref without causing re-renders
 const useDebugPanelStore = create(() => ({
@@ -3382,6 +3383,7 @@ const DebugPanelContent = ({ initialValues, onUpdate }) => {
   const [panelSize, setPanelSize] = useState({ width: 380, height: null }) // null = full height
   const [copySuccess, setCopySuccess] = useState(false)
   const [bakeSuccess, setBakeSuccess] = useState(false)
+  const [presetSuccess, setPresetSuccess] = useState(false)
   const [hasPendingChanges, setHasPendingChanges] = useState(false)
   const valuesRef = useRef(initialValues)
   const dirtyKeysRef = useRef(new Set()) // Track which keys have changed since last flush
@@ -3605,6 +3607,35 @@ const DebugPanelContent = ({ initialValues, onUpdate }) => {
     }
   }, [hasPendingChanges, flushChanges])
 
+  // Export current values as a preset JSON file
+  const handleExportPreset = useCallback(() => {
+    if (hasPendingChanges) {
+      flushChanges()
+    }
+
+    // Panel values are the unversioned (v0) preset layout - parsing migrates and validates them
+    let preset
+    try {
+      preset = parsePreset(valuesRef.current)
+    } catch (err) {
+      console.error('Failed to export preset:', err)
+      return
+    }
+
+    const vfxName = valuesRef.current.name || `vfx-preset-${Date.now()}`
+    const filename = `${vfxName.replace(/[^a-zA-Z0-9-_]/g, '-')}.vfx.json`
+
+    const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' })
+    const link = document.createElement('a')
+    link.download = filename
+    link.href = URL.createObjectURL(blob)
+    link.click()
+    URL.revokeObjectURL(link.href)
+
+    setPresetSuccess(true)
+    setTimeout(() => setPresetSuccess(false), 2000)
+  }, [hasPendingChanges, flushChanges])
+
   // Record state for undo/redo (debounced to batch rapid changes)
   const recordHistoryTimeoutRef = useRef(null)
   const recordHistory = useCallback(() => {
@@ -4009,6 +4040,16 @@ const DebugPanelContent = ({ initialValues, onUpdate }) => {
           >
             {bakeSuccess ? '✓ exported' : 'bake curves'}
           </button>
+          <button
+            style={{
+              ...styles.copyBtn,
+              ...(presetSuccess ? styles.copyBtnSuccess : {}),
+              marginLeft: '4px',
+            }}
+            onClick={handleExportPreset}
+          >
+            {presetSuccess ? '✓ exported' : 'export preset'}
+          </button>
           <button style={styles.minimizeBtn} onClick={() => setIsMinimized(!isMinimized)}>
             {isMinimized ? '+' : '−'}
           </button>
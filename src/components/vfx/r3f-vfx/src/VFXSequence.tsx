@@ -0,0 +1,87 @@
+import { useEffect, useMemo, forwardRef, useImperativeHandle } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { createSequencePlayer, type SequenceConfig, type SequenceTrigger } from 'core-vfx'
+import { useVFXStore } from './react-store'
+
+export interface VFXSequenceProps {
+  /** Name to register with useVFXStore (enables playSequence(name)) */
+  name?: string
+  /** Timeline of emits, start/stop/clear calls, uniform tweens and callbacks */
+  sequence: SequenceConfig
+  /** Play once on mount */
+  autoPlay?: boolean
+  /** Trigger used by autoPlay (emit positions are relative to trigger.position) */
+  trigger?: SequenceTrigger
+  /** Restart at the end (overrides sequence.loop) */
+  loop?: boolean
+  /** Playback speed (overrides sequence.timeScale) */
+  timeScale?: number
+}
+
+/**
+ * VFXSequence - Plays a timeline that drives registered VFXParticles systems
+ *
+ * Renders nothing. Each play runs on its own, so overlapping plays (two enemies
+ * dying in the same frame) don't cut each other off.
+ *
+ * Usage:
+ *
+ * <VFXSequence
+ *   name="enemy-death"
+ *   sequence={{
+ *     events: [
+ *       { time: 0, type: 'emit', system: 'impact', count: 30 },
+ *       { time: 0, type: 'emit', system: 'impact-flare', count: 10 },
+ *       { time: 0, type: 'callback', callback: () => eventBus.emit(EVENTS.CAMERA_SHAKE) },
+ *       { time: 0.1, type: 'emit', system: 'smoke', position: [0, 0.5, 0], count: 20 },
+ *       { time: 0, type: 'tween', system: 'smoke', uniform: 'intensity', to: 0, duration: 1 },
+ *     ],
+ *   }}
+ * />
+ *
+ * // Play from anywhere
+ * useVFXStore.getState().playSequence('enemy-death', { position: [x, y, z] })
+ */
+export const VFXSequence = forwardRef(function VFXSequence(
+  { name, sequence, autoPlay = false, trigger, loop, timeScale }: VFXSequenceProps,
+  ref
+) {
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const player = useMemo(() => createSequencePlayer(sequence), [])
+
+  // Inline sequences (and their callbacks) are new every render, so always sync
+  useEffect(() => {
+    player.setConfig({
+      ...sequence,
+      loop: loop ?? sequence.loop,
+      timeScale: timeScale ?? sequence.timeScale,
+    })
+  }, [player, sequence, loop, timeScale])
+
+  useEffect(() => {
+    if (!autoPlay) return
+    player.play(trigger)
+    return () => player.stop()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [player, autoPlay])
+
+  useFrame((_, delta) => {
+    player.update(delta)
+  })
+
+  // Register with VFX store when name prop is provided
+  const registerSequence = useVFXStore((s) => s.registerSequence)
+  const unregisterSequence = useVFXStore((s) => s.unregisterSequence)
+
+  useEffect(() => {
+    if (!name) return
+    registerSequence(name, player)
+    return () => unregisterSequence(name)
+  }, [name, player, registerSequence, unregisterSequence])
+
+  useImperativeHandle(ref, () => player, [player])
+
+  return null
+})
+
+export default VFXSequence
@@ -4,18 +4,29 @@ export {
   Blending,
   EmitterShape,
   AttractorType,
+  AttractorFalloff,
+  ParticleEventType,
   Easing,
   Lighting,
+  BillboardLighting,
+  SortMode,
   bakeCurveToArray,
   createCombinedCurveTexture,
 } from './VFXParticles'
 
 export { VFXEmitter, useVFXEmitter } from './VFXEmitter'
 
+export { VFXSequence } from './VFXSequence'
+
 export { useVFXStore } from './react-store'
 
 export { useCurveTextureAsync } from './useCurveTextureAsync'
 
+export { useVectorFieldTexture } from './useVectorFieldTexture'
+
+// Scene depth sharing for depth-buffer collision
+export { createSceneDepth, updateSceneDepth } from 'core-vfx'
+
 // Re-export types from core-vfx for convenience
 export type {
   CurvePoint,
@@ -23,10 +34,28 @@ export type {
   Rotation3DInput,
   ParticleData,
   TurbulenceConfig,
+  VectorFieldConfig,
+  VectorFieldData,
   AttractorConfig,
   CollisionConfig,
+  ColliderConfig,
   FrictionConfig,
   FlipbookConfig,
+  SixWayLightmapConfig,
   StretchConfig,
+  SubEmitterConfig,
+  SequenceConfig,
+  SequenceEvent,
+  SequenceTrigger,
+  SequencePlayer,
+  ParticleEvent,
+  ParticleEventName,
+  ParticleEventsConfig,
+  TrailConfig,
+  EmissionBurst,
+  EmissionConfig,
   BaseParticleProps,
+  ParticleParams,
+  ParamEasing,
+  SceneDepth,
 } from 'core-vfx'
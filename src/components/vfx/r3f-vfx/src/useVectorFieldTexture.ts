@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useState } from 'react'
+import type * as THREE from 'three/webgpu'
+import { createVectorFieldTexture, loadVectorField, type VectorFieldData } from 'core-vfx'
+
+export type VectorFieldTexture = {
+  texture: THREE.Data3DTexture
+  field: VectorFieldData
+}
+
+/**
+ * Hook for vector field textures
+ * Accepts field data or the URL of a .fga / JSON file (loaded async)
+ *
+ * Returns null until the field is available. A new texture is created when the
+ * field changes (the previous one is disposed).
+ */
+export const useVectorFieldTexture = (
+  field: VectorFieldData | string | null | undefined
+): VectorFieldTexture | null => {
+  const [loaded, setLoaded] = useState<{ url: string; field: VectorFieldData } | null>(null)
+
+  useEffect(() => {
+    if (typeof field !== 'string') return
+
+    let cancelled = false
+    loadVectorField(field)
+      .then((data: VectorFieldData) => {
+        if (!cancelled) setLoaded({ url: field, field: data })
+      })
+      .catch((err: unknown) => {
+        console.warn(`Failed to load vector field: ${field}`, err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [field])
+
+  const data: VectorFieldData | null =
+    typeof field === 'string' ? (loaded?.url === field ? loaded.field : null) : (field ?? null)
+
+  const result = useMemo(
+    () => (data ? { texture: createVectorFieldTexture(data), field: data } : null),
+    [data]
+  )
+
+  useEffect(() => {
+    return () => {
+      result?.texture.dispose()
+    }
+  }, [result])
+
+  return result
+}
@@ -0,0 +1,867 @@
+import * as THREE from 'three/webgpu'
+import { instancedArray } from 'three/tsl'
+import {
+  coreStore,
+  createSeededRandom,
+  toSpawnSeed,
+  createCombinedCurveTexture,
+  createDefaultCurveTexture,
+  loadCurveTextureFromPath,
+  createInitCompute,
+  createSpawnCompute,
+  createUpdateCompute,
+  createParticleMaterial,
+  createCompactCompute,
+  createAliveListArgsCompute,
+  createAliveListStorage,
+  setAliveListDraw,
+  createSortStorage,
+  createSortCompute,
+  isSortEnabled,
+  bakeMeshEmitter,
+  getMeshEmitterTriangleCount,
+  createParticleEventStorage,
+  createEventResetCompute,
+  getParticleEventTypes,
+  getParticleEventTriggers,
+  QUALITY_SETTINGS,
+  createTrailCurveTexture,
+  createTrailGeometry,
+  createTrailMaterial,
+  getTrailLength,
+  createColliderStorage,
+  getColliderCapacity,
+  writeColliders,
+  resolveColliders,
+  createAttractorStorage,
+  getAttractorCapacity,
+  writeAttractors,
+  createGradientTexture,
+  writeGradientTexture,
+  createSize3DCurveTexture,
+  writeSize3DCurveTexture,
+  createVelocityCurveTexture,
+  writeVelocityCurveTexture,
+  loadVectorField,
+  createVectorFieldTexture,
+  createParticleLifecycle,
+  createParticleFrame,
+  RUNTIME_PARAMS,
+  type AttractorConfig,
+  type MeshEmitterData,
+  type MeshEmitterSource,
+  type MeshEmitterStorage,
+  type ParticleParamKey,
+  type ParticleParams,
+  type ParticleStorageArrays,
+  type VectorFieldData,
+} from 'core-vfx'
+import {
+  resolveParticleProps,
+  needsPerParticleColor,
+  needsRotation,
+  type ParticleSystemOptions,
+  type ResolvedParticleProps,
+} from './props'
+import {
+  applySpawnOverrides,
+  createParticleUniforms,
+  writeParticleUniforms,
+  type ParticleSystemUniforms,
+} from './uniforms'
+
+// GPU resources of a system (recreated when a prop changes the buffers or the shaders)
+type ParticleResources = {
+  storage: ParticleStorageArrays
+  meshEmitter: { data: MeshEmitterData; storage: MeshEmitterStorage } | null
+  computeInit: THREE.ComputeNode
+  computeCompact: THREE.ComputeNode[] | null
+  computeAliveListArgs: THREE.ComputeNode | null
+  computeSort: THREE.ComputeNode[] | null
+  computeSpawn: THREE.ComputeNode
+  computeUpdate: THREE.ComputeNode
+  computeEventReset: THREE.ComputeNode | null
+  // Textures the update compute was created with (recreated when they change)
+  depthTexture: THREE.Texture | null
+  vectorFieldTexture: THREE.Data3DTexture | null
+  gradientTexture: THREE.DataTexture | null
+  size3DTexture: THREE.DataTexture | null
+  velocityOverLifetimeTexture: THREE.DataTexture | null
+  material: THREE.Material
+  renderObject: THREE.Sprite | THREE.InstancedMesh
+  trailObject: THREE.InstancedMesh | null
+  trailCurveTexture: THREE.DataTexture | null
+  // All particles were initialized as dead (spawns are ignored until then)
+  initialized: boolean
+  initializing: boolean
+}
+
+/**
+ * GPU particle system without a framework: the VFXParticles simulation as a THREE.Object3D.
+ * Add it to the scene and call update(renderer, delta, camera) once per frame, before rendering.
+ * With a name it registers with coreStore like VFXParticles (emitters, sub-emitters, setParam).
+ *
+ * ```ts
+ * const sparks = new ParticleSystem({ name: 'sparks', colorStart: ['#ffaa00'], autoStart: false })
+ * scene.add(sparks)
+ * renderer.setAnimationLoop(async () => {
+ *   await sparks.update(renderer, clock.getDelta(), camera)
+ *   renderer.render(scene, camera)
+ * })
+ * sparks.spawn(0, 1, 0, 50).then(() => console.log('burst done'))
+ * ```
+ */
+export class ParticleSystem extends THREE.Object3D {
+  readonly uniforms: ParticleSystemUniforms = createParticleUniforms()
+
+  private props: ResolvedParticleProps
+  private resources: ParticleResources | null = null
+  private structureKey: unknown[] = []
+  private renderer: THREE.WebGPURenderer | null = null
+  private disposed = false
+  private registeredName: string | null = null
+
+  private emitting: boolean
+  private nextIndex = 0
+  // Spawn seeds come from this generator when the seed prop is set (reset by clear)
+  private seedRandom: (() => number) | null = null
+  // Runtime attractor list (reset by the attractors prop, edited through the API)
+  private attractorList: AttractorConfig[] = []
+  // Estimated particle deaths: onComplete / onAllDead and the promises returned by spawn
+  private readonly lifecycle = createParticleLifecycle()
+  // Per-frame orchestration shared with VFXParticles (LOD, emission, event readback...)
+  private readonly frame = createParticleFrame(this.lifecycle)
+
+  // Curve texture baked in place (R = size, G = opacity, B = velocity, A = rotation speed)
+  private readonly curveTexture = createDefaultCurveTexture()
+  private curveRequest: object | null = null
+  // Vector field 3D texture (null until loaded)
+  private vectorFieldSource: VectorFieldData | string | null = null
+  private vectorField: { texture: THREE.Data3DTexture; field: VectorFieldData } | null = null
+
+  constructor(options: ParticleSystemOptions = {}) {
+    super()
+    this.props = resolveParticleProps(options)
+    this.emitting = this.props.autoStart
+    this.applyProps(null)
+  }
+
+  get isEmitting() {
+    return this.emitting
+  }
+
+  // Some particle may still be alive (estimated from the max lifetime of each spawn)
+  get hasAliveParticles() {
+    return this.lifecycle.hasAlive
+  }
+
+  // Seconds simulated by the last update: 0 while LOD skips it, the skipped time on catch-up
+  get simulatedDelta() {
+    return this.frame.simulatedDelta
+  }
+
+  /**
+   * Change props (undefined keeps the current value). Uniform-backed props apply right away,
+   * props that change the GPU buffers or shaders (maxParticles, geometry, appearance, trail...)
+   * recreate the resources, which removes the alive particles.
+   */
+  setProps(options: ParticleSystemOptions) {
+    if (this.disposed) return
+    const previous = this.props
+    this.props = resolveParticleProps(options, previous)
+    this.applyProps(previous)
+  }
+
+  // Runtime params (coreStore.setParam / tweenParam, validated by the store)
+  setParams(params: ParticleParams) {
+    this.setProps(params)
+  }
+
+  getParams(): ParticleParams {
+    return Object.fromEntries(
+      RUNTIME_PARAMS.map((key: ParticleParamKey) => [key, this.props[key]])
+    ) as ParticleParams
+  }
+
+  /**
+   * Simulate one frame and auto emit. The first call initializes the particles on the GPU.
+   * @param renderer - WebGPU renderer the system is drawn with
+   * @param delta - Frame time in seconds
+   * @param camera - Camera used for LOD and sorting (both are skipped without it)
+   */
+  async update(renderer: THREE.WebGPURenderer, delta: number, camera: THREE.Camera | null = null) {
+    const resources = this.resources
+    if (this.disposed || !resources) return
+    this.renderer = renderer
+
+    if (!resources.initialized) {
+      this.initialize(resources)
+      return
+    }
+
+    // Param tweens started through the store (coreStore.tweenParam)
+    if (this.props.name) coreStore.getState().updateParamTweens(this.props.name, delta)
+    // A tweened prop recreated the resources (initialized on the next update)
+    if (resources !== this.resources) return
+
+    // The update samples the depth and vector field textures: recreate it when they change
+    const { sceneDepth, quality } = coreStore.getState()
+    const props = this.props
+    const depthTexture = props.collision?.depth ? (sceneDepth?.texture ?? null) : null
+    const vectorFieldTexture = this.vectorField?.texture ?? null
+    if (
+      depthTexture !== resources.depthTexture ||
+      vectorFieldTexture !== resources.vectorFieldTexture
+    ) {
+      Object.assign(
+        resources,
+        this.createUpdateCompute(resources.storage, resources.velocityOverLifetimeTexture)
+      )
+    }
+
+    await this.frame.update({
+      renderer,
+      delta,
+      camera,
+      object: this,
+      uniforms: this.uniforms,
+      storage: resources.storage,
+      computeUpdate: resources.computeUpdate,
+      computeCompact: resources.computeCompact,
+      computeEventReset: resources.computeEventReset,
+      computeSort: resources.computeSort,
+      props,
+      emitterMesh: resources.meshEmitter ? props.emitterMesh : null,
+      emitting: this.emitting,
+      quality,
+      sceneDepth,
+      spawn: (x: number, y: number, z: number, count: number) => {
+        this.spawnInternal(x, y, z, count)
+      },
+      stop: () => {
+        this.emitting = false
+      },
+      growColliders: (capacity: number) => this.growColliders(capacity),
+      isCurrent: () => resources === this.resources,
+    })
+  }
+
+  /**
+   * Spawn particles at the position prop + (x, y, z), overrides apply to this burst only.
+   * Resolved when the burst's last particle expires (right away if nothing spawned).
+   */
+  spawn(
+    x = 0,
+    y = 0,
+    z = 0,
+    count = 20,
+    overrides: Record<string, unknown> | null = null,
+    seed: number | null = null
+  ): Promise<void> {
+    const [px, py, pz] = this.props.position
+    // emitFrom is relative to the position prop, like x, y, z
+    const emitFrom = overrides?.emitFrom as [number, number, number] | undefined
+    const spawnOverrides = emitFrom
+      ? { ...overrides, emitFrom: [px + emitFrom[0], py + emitFrom[1], pz + emitFrom[2]] }
+      : overrides
+    // Global quality scales bursts too (never below one particle)
+    const { emissionScale } = QUALITY_SETTINGS[coreStore.getState().quality]
+    const scaledCount = count > 0 ? Math.max(1, Math.round(count * emissionScale)) : count
+    const expiry = this.spawnInternal(px + x, py + y, pz + z, scaledCount, spawnOverrides, seed)
+    return this.lifecycle.waitUntil(expiry ?? 0)
+  }
+
+  start() {
+    this.emitting = true
+    this.frame.restartEmission()
+  }
+
+  stop() {
+    this.emitting = false
+  }
+
+  // Kill all particles (replaces Object3D.clear, the render objects stay attached)
+  clear() {
+    const resources = this.resources
+    if (resources?.initialized && this.renderer) {
+      const { computeInit, computeCompact } = resources
+      this.renderer.computeAsync(computeCompact ? [computeInit, ...computeCompact] : computeInit)
+    }
+    this.nextIndex = 0
+    this.lifecycle.clear()
+    // Restart the seeded sequence so the effect replays identically
+    if (this.props.seed !== null) this.seedRandom = createSeededRandom(this.props.seed)
+    return this
+  }
+
+  // Runtime attractors (indices follow the order attractors were added in)
+  setAttractors(list: AttractorConfig[]) {
+    this.attractorList = [...list]
+    return this.uploadAttractors()
+  }
+
+  // Returns the index of the new attractor, -1 when attractors are disabled
+  addAttractor(attractor: AttractorConfig) {
+    this.attractorList.push(attractor)
+    return this.uploadAttractors() ? this.attractorList.length - 1 : -1
+  }
+
+  updateAttractor(index: number, changes: Partial<AttractorConfig>) {
+    const list = this.attractorList
+    if (!list[index]) return false
+    list[index] = { ...list[index], ...changes }
+    return this.uploadAttractors()
+  }
+
+  // Later attractors shift down one index
+  removeAttractor(index: number) {
+    if (index < 0 || index >= this.attractorList.length) return false
+    this.attractorList.splice(index, 1)
+    return this.uploadAttractors()
+  }
+
+  getAttractors() {
+    return [...this.attractorList]
+  }
+
+  // Re-sample the emitter mesh in place: needed whenever a skinned / morphed mesh changes pose
+  // (its transform is followed automatically). The source must have the same triangle count
+  updateEmitterMesh(source: MeshEmitterSource | null = this.props.emitterMesh) {
+    const meshEmitter = this.resources?.meshEmitter
+    if (!source || !meshEmitter) return false
+    const { data, storage } = meshEmitter
+    if (getMeshEmitterTriangleCount(source) !== data.triangleCount) {
+      console.warn('ParticleSystem: updateEmitterMesh source has a different triangle count')
+      return false
+    }
+
+    bakeMeshEmitter(source, data.lookup.length, data)
+    ;(storage.triangles.value.array as Float32Array).set(data.triangles)
+    ;(storage.normals.value.array as Float32Array).set(data.normals)
+    ;(storage.lookup.value.array as Float32Array).set(data.lookup)
+    storage.triangles.value.needsUpdate = true
+    storage.normals.value.needsUpdate = true
+    storage.lookup.value.needsUpdate = true
+    return true
+  }
+
+  // Unregister from coreStore and free the GPU resources (the system can't be used afterwards)
+  dispose() {
+    if (this.disposed) return
+    this.disposed = true
+    this.register(undefined)
+    // Pending spawn promises resolve, the particles are gone
+    this.lifecycle.dispose()
+    this.disposeResources()
+    this.curveRequest = null
+    this.curveTexture.dispose()
+    this.vectorField?.texture.dispose()
+    this.vectorField = null
+    this.removeFromParent()
+  }
+
+  // Apply the props changed since `previous` (null = all of them)
+  private applyProps(previous: ResolvedParticleProps | null) {
+    const props = this.props
+    const changed = (...keys: (keyof ResolvedParticleProps)[]) =>
+      !previous || keys.some((key) => previous[key] !== props[key])
+
+    this.lifecycle.setCallbacks({ onComplete: props.onComplete, onAllDead: props.onAllDead })
+    if (changed('name')) this.register(props.name)
+    if (changed('seed')) {
+      this.seedRandom = props.seed === null ? null : createSeededRandom(props.seed)
+    }
+    if (changed('attractors')) this.attractorList = [...(props.attractors ?? [])]
+    if (
+      changed(
+        'fadeSizeCurve',
+        'fadeOpacityCurve',
+        'velocityCurve',
+        'rotationSpeedCurve',
+        'curveTexturePath'
+      )
+    ) {
+      this.loadCurves()
+    }
+    this.setVectorField(props.vectorField?.field ?? null)
+
+    // New GPU resources when the buffers or shaders change
+    const key = this.getStructureKey()
+    const rebuild = !this.resources || key.some((value, i) => value !== this.structureKey[i])
+    if (rebuild) {
+      this.structureKey = key
+      this.build()
+    }
+    const resources = this.resources!
+
+    // Textures created with their content, rewritten in place afterwards
+    if (!rebuild) {
+      if (resources.gradientTexture && props.colorGradient && changed('colorGradient')) {
+        writeGradientTexture(resources.gradientTexture, props.colorGradient)
+      }
+      if (resources.size3DTexture && props.size3D && changed('size3D')) {
+        writeSize3DCurveTexture(resources.size3DTexture, props.size3D)
+      }
+      if (
+        resources.velocityOverLifetimeTexture &&
+        props.velocityOverLifetime &&
+        changed('velocityOverLifetime')
+      ) {
+        writeVelocityCurveTexture(resources.velocityOverLifetimeTexture, props.velocityOverLifetime)
+      }
+    }
+
+    // Static collider lists (function lists are uploaded every frame)
+    if (resources.storage.colliders && typeof props.collision?.colliders !== 'function') {
+      if (rebuild || changed('collision')) {
+        const colliders = resolveColliders(props.collision)
+        if (colliders.length > resources.storage.colliders.maxColliders) {
+          this.growColliders(getColliderCapacity(colliders.length))
+        }
+        this.uniforms.colliderCount.value = writeColliders(
+          resources.storage.colliders,
+          colliders,
+          props.collision
+        )
+      }
+    }
+    if (resources.storage.attractors && (rebuild || changed('attractors'))) {
+      this.uploadAttractors()
+    }
+
+    writeParticleUniforms(this.uniforms, props, this.getEventTriggers())
+    this.writeVectorFieldBounds()
+  }
+
+  // Props that change the GPU buffers or shaders, compared by identity
+  private getStructureKey(): unknown[] {
+    const p = this.props
+    return [
+      p.maxParticles,
+      needsRotation(p),
+      needsPerParticleColor(p),
+      p.turbulence !== null && (p.turbulence?.intensity ?? 0) > 0,
+      p.attractors !== null,
+      p.velocityOverLifetime !== null,
+      p.collision !== null,
+      !!p.collision?.colliders,
+      this.hasEvents(),
+      getTrailLength(p.trail),
+      p.trail?.widthCurve,
+      p.trail?.opacityCurve,
+      p.compaction,
+      p.sortMode,
+      p.emitterMesh,
+      p.colorGradient !== null,
+      p.size3D !== null,
+      // Material
+      p.appearance,
+      p.alphaMap,
+      p.flipbook,
+      p.motionVectorMap,
+      p.lighting,
+      p.billboardLighting,
+      p.normalMap,
+      p.sixWayLightmap,
+      p.softParticles,
+      p.geometry,
+      p.orientToDirection,
+      p.shadow,
+      p.blending,
+      p.backdropNode,
+      p.opacityNode,
+      p.colorNode,
+      p.alphaTestNode,
+      p.castShadowNode,
+    ]
+  }
+
+  // Event buffer (GPU -> CPU readback) only when something listens to events
+  private hasEvents() {
+    const { subEmitters, onParticleEvent } = this.props
+    return (subEmitters !== null && subEmitters.length > 0) || !!onParticleEvent
+  }
+
+  // Event types delivered to onParticleEvent
+  private getListenerEventTypes() {
+    return this.props.onParticleEvent ? getParticleEventTypes(this.props.particleEvents) : []
+  }
+
+  // Which particle events the compute shaders append (sub-emitters + onParticleEvent)
+  private getEventTriggers() {
+    return getParticleEventTriggers(this.props.subEmitters, this.getListenerEventTypes())
+  }
+
+  private build() {
+    this.disposeResources()
+
+    const props = this.props
+    const max = props.maxParticles
+    const trailLength = getTrailLength(props.trail)
+    const perParticleColor = needsPerParticleColor(props)
+    const rotation = needsRotation(props)
+
+    // Optional arrays are null when their feature is unused (saves GPU memory)
+    const storage: ParticleStorageArrays = {
+      positions: instancedArray(max, 'vec3'),
+      velocities: instancedArray(max, 'vec3'),
+      lifetimes: instancedArray(max, 'float'),
+      fadeRates: instancedArray(max, 'float'),
+      particleSizes: instancedArray(max, 'float'),
+      particleRotations: rotation ? instancedArray(max, 'vec3') : null,
+      particleColorStarts: perParticleColor ? instancedArray(max, 'vec3') : null,
+      particleColorEnds: perParticleColor ? instancedArray(max, 'vec3') : null,
+      events: this.hasEvents() ? createParticleEventStorage() : null,
+      trail:
+        trailLength > 0
+          ? { positions: instancedArray(max * trailLength, 'vec3'), length: trailLength }
+          : null,
+      colliders: props.collision?.colliders
+        ? createColliderStorage(getColliderCapacity(resolveColliders(props.collision).length))
+        : null,
+      attractors:
+        props.attractors !== null
+          ? createAttractorStorage(getAttractorCapacity(props.attractors.length))
+          : null,
+      particleOrigins: props.velocityOverLifetime !== null ? instancedArray(max, 'vec3') : null,
+      // One draw record per object drawn from the alive list
+      aliveList: props.compaction ? createAliveListStorage(max, trailLength > 0 ? 2 : 1) : null,
+      sort: isSortEnabled(props.sortMode, props.blending) ? createSortStorage(max) : null,
+    }
+
+    // Mesh emitter buffers (MESH shape) - baked triangles + area-weighted lookup
+    let meshEmitter: ParticleResources['meshEmitter'] = null
+    if (props.emitterMesh && getMeshEmitterTriangleCount(props.emitterMesh) > 0) {
+      const data = bakeMeshEmitter(props.emitterMesh)
+      const triangles = instancedArray(data.triangleCount * 3, 'vec3')
+      const normals = instancedArray(data.triangleCount, 'vec3')
+      const lookup = instancedArray(data.lookup.length, 'float')
+      ;(triangles.value.array as Float32Array).set(data.triangles)
+      ;(normals.value.array as Float32Array).set(data.normals)
+      ;(lookup.value.array as Float32Array).set(data.lookup)
+      meshEmitter = {
+        data,
+        storage: { triangles, normals, lookup, lookupSize: data.lookup.length },
+      }
+    }
+
+    const gradientTexture = props.colorGradient ? createGradientTexture(props.colorGradient) : null
+    const size3DTexture = props.size3D ? createSize3DCurveTexture(props.size3D) : null
+    const velocityOverLifetimeTexture = props.velocityOverLifetime
+      ? createVelocityCurveTexture(props.velocityOverLifetime)
+      : null
+
+    const material = createParticleMaterial(storage, this.uniforms, this.curveTexture, {
+      alphaMap: props.alphaMap,
+      flipbook: props.flipbook,
+      motionVectorMap: props.motionVectorMap,
+      appearance: props.appearance,
+      lighting: props.lighting,
+      billboardLighting: props.billboardLighting,
+      normalMap: props.normalMap,
+      sixWayLightmap: props.sixWayLightmap,
+      softParticles: props.softParticles,
+      geometry: props.geometry,
+      orientToDirection: props.orientToDirection,
+      shadow: props.shadow,
+      blending: props.blending,
+      colorGradient: gradientTexture,
+      size3DCurve: size3DTexture,
+      opacityNode: props.opacityNode,
+      colorNode: props.colorNode,
+      backdropNode: props.backdropNode,
+      alphaTestNode: props.alphaTestNode,
+      castShadowNode: props.castShadowNode,
+    })
+
+    // Sprite or instanced mesh, compacted systems draw indirectly from their own geometry copy
+    let renderObject: THREE.Sprite | THREE.InstancedMesh
+    if (props.geometry) {
+      const mesh = new THREE.InstancedMesh(
+        storage.aliveList ? props.geometry.clone() : props.geometry,
+        material,
+        max
+      )
+      mesh.castShadow = props.shadow
+      mesh.receiveShadow = props.shadow
+      renderObject = mesh
+    } else {
+      const sprite = new THREE.Sprite(material as unknown as THREE.SpriteMaterial)
+      sprite.count = max
+      if (storage.aliveList) sprite.geometry = sprite.geometry.clone()
+      renderObject = sprite
+    }
+    renderObject.frustumCulled = false
+    if (storage.aliveList) setAliveListDraw(storage.aliveList, renderObject.geometry)
+    this.add(renderObject)
+
+    // Trail ribbons - one instanced strip per particle
+    let trailObject: THREE.InstancedMesh | null = null
+    let trailCurveTexture: THREE.DataTexture | null = null
+    if (storage.trail) {
+      trailCurveTexture = createTrailCurveTexture(
+        props.trail?.widthCurve,
+        props.trail?.opacityCurve
+      )
+      trailObject = new THREE.InstancedMesh(
+        createTrailGeometry(storage.trail.length),
+        createTrailMaterial(storage, this.uniforms, trailCurveTexture, props.blending),
+        max
+      )
+      trailObject.frustumCulled = false
+      if (storage.aliveList) setAliveListDraw(storage.aliveList, trailObject.geometry, 1)
+      this.add(trailObject)
+    }
+
+    const resources: ParticleResources = {
+      storage,
+      meshEmitter,
+      computeInit: createInitCompute(storage, max),
+      computeCompact: storage.aliveList ? createCompactCompute(storage, max) : null,
+      computeAliveListArgs: storage.aliveList
+        ? createAliveListArgsCompute(storage.aliveList)
+        : null,
+      computeSort: storage.sort
+        ? createSortCompute(storage, this.uniforms, props.sortMode, max)
+        : null,
+      computeSpawn: createSpawnCompute(storage, this.uniforms, max, meshEmitter?.storage ?? null),
+      ...this.createUpdateCompute(storage, velocityOverLifetimeTexture),
+      computeEventReset: storage.events ? createEventResetCompute(storage.events) : null,
+      gradientTexture,
+      size3DTexture,
+      velocityOverLifetimeTexture,
+      material,
+      renderObject,
+      trailObject,
+      trailCurveTexture,
+      initialized: false,
+      initializing: false,
+    }
+
+    this.resources = resources
+    this.nextIndex = 0
+    // The particles of the previous buffers are gone
+    this.lifecycle.clear()
+  }
+
+  // Update compute with the current scene depth and vector field textures
+  private createUpdateCompute(
+    storage: ParticleStorageArrays,
+    velocityOverLifetimeTexture: THREE.DataTexture | null
+  ) {
+    const props = this.props
+    const depthTexture = props.collision?.depth
+      ? (coreStore.getState().sceneDepth?.texture ?? null)
+      : null
+    const vectorFieldTexture = this.vectorField?.texture ?? null
+    const computeUpdate: THREE.ComputeNode = createUpdateCompute(
+      storage,
+      this.uniforms,
+      this.curveTexture,
+      props.maxParticles,
+      {
+        turbulence: props.turbulence !== null && (props.turbulence?.intensity ?? 0) > 0,
+        attractors: props.attractors !== null,
+        collision: props.collision !== null,
+        rotation: needsRotation(props),
+        perParticleColor: needsPerParticleColor(props),
+      },
+      {
+        sceneDepth: depthTexture,
+        vectorField: vectorFieldTexture,
+        velocityOverLifetime: velocityOverLifetimeTexture,
+      }
+    )
+    return { computeUpdate, depthTexture, vectorFieldTexture }
+  }
+
+  // Initialize all particles as dead (an empty alive list when compacted)
+  private initialize(resources: ParticleResources) {
+    if (resources.initializing || !this.renderer) return
+    resources.initializing = true
+    const { computeInit, computeCompact } = resources
+    this.renderer
+      .computeAsync(computeCompact ? [computeInit, ...computeCompact] : computeInit)
+      .then(() => {
+        resources.initialized = true
+      })
+  }
+
+  private disposeResources() {
+    const resources = this.resources
+    if (!resources) return
+    this.resources = null
+
+    const { renderObject, trailObject } = resources
+    this.remove(renderObject)
+    resources.material.dispose()
+    // Compacted systems draw from their own copy of the geometry
+    if (resources.storage.aliveList) renderObject.geometry.dispose()
+    if (trailObject) {
+      this.remove(trailObject)
+      trailObject.geometry.dispose()
+      ;(trailObject.material as THREE.Material).dispose()
+    }
+    resources.trailCurveTexture?.dispose()
+    resources.gradientTexture?.dispose()
+    resources.size3DTexture?.dispose()
+    resources.velocityOverLifetimeTexture?.dispose()
+  }
+
+  private spawnInternal(
+    x: number,
+    y: number,
+    z: number,
+    count: number,
+    overrides: Record<string, unknown> | null = null,
+    burstSeed: number | null = null
+  ) {
+    const resources = this.resources
+    if (!resources?.initialized || !this.renderer || count <= 0) return null
+
+    const uniforms = this.uniforms
+    const restore = applySpawnOverrides(uniforms, overrides)
+    // Longest lifetime of the burst (lifetimeMin is the slowest fade rate, overrides applied)
+    const expiry = this.lifecycle.track(1 / uniforms.lifetimeMin.value)
+
+    const startIdx = this.nextIndex
+    const endIdx = (startIdx + count) % this.props.maxParticles
+
+    uniforms.spawnPosition.value.set(x, y, z)
+    // Rate over distance: spread the burst along the path from emitFrom
+    const emitFrom = overrides?.emitFrom as [number, number, number] | undefined
+    uniforms.spawnFrom.value.set(...(emitFrom ?? [x, y, z]))
+    uniforms.spawnIndexStart.value = startIdx
+    uniforms.spawnIndexEnd.value = endIdx
+    // An explicit burst seed wins over the system's seeded sequence
+    uniforms.spawnSeed.value =
+      burstSeed !== null
+        ? toSpawnSeed(createSeededRandom(burstSeed))
+        : toSpawnSeed(this.seedRandom ?? Math.random)
+
+    this.nextIndex = endIdx
+
+    // The GPU reads the uniforms when dispatched, so they are restored right away
+    // New particles join the alive list, refresh its draw / dispatch size
+    this.renderer.computeAsync(
+      resources.computeAliveListArgs
+        ? [resources.computeSpawn, resources.computeAliveListArgs]
+        : resources.computeSpawn
+    )
+    restore?.()
+    return expiry
+  }
+
+  private uploadAttractors() {
+    const resources = this.resources
+    let attractors = resources?.storage.attractors
+    if (!resources || !attractors) {
+      console.warn(
+        'ParticleSystem: attractors are disabled, pass attractors: [] to add them at runtime'
+      )
+      return false
+    }
+    // Outgrew the buffer: replace it with a larger one and rebind the update compute
+    if (this.attractorList.length > attractors.maxAttractors) {
+      attractors = createAttractorStorage(getAttractorCapacity(this.attractorList.length))
+      resources.storage.attractors = attractors
+      Object.assign(
+        resources,
+        this.createUpdateCompute(resources.storage, resources.velocityOverLifetimeTexture)
+      )
+    }
+    this.uniforms.attractorCount.value = writeAttractors(attractors, this.attractorList)
+    return true
+  }
+
+  // Colliders outgrew the buffer: replace it with a larger one and rebind the update compute
+  private growColliders(capacity: number) {
+    const resources = this.resources
+    if (!resources?.storage.colliders) return
+    resources.storage.colliders = createColliderStorage(capacity)
+    Object.assign(
+      resources,
+      this.createUpdateCompute(resources.storage, resources.velocityOverLifetimeTexture)
+    )
+  }
+
+  // Register with coreStore under the name prop (unregisters the previous name)
+  private register(name: string | undefined) {
+    const { registerParticles, unregisterParticles } = coreStore.getState()
+    if (this.registeredName) unregisterParticles(this.registeredName)
+    this.registeredName = name ?? null
+    this.name = name ?? ''
+    if (name) registerParticles(name, this)
+  }
+
+  // Bake the curves into the curve texture in place (the shaders keep sampling the same texture)
+  // A curveTexturePath loads the pre-baked texture instead, falling back to baking
+  private loadCurves() {
+    const { fadeSizeCurve, fadeOpacityCurve, velocityCurve, rotationSpeedCurve, curveTexturePath } =
+      this.props
+    const request = {}
+    this.curveRequest = request
+
+    const bake = () => {
+      if (this.curveRequest !== request) return
+      const hasAnyCurve = fadeSizeCurve || fadeOpacityCurve || velocityCurve || rotationSpeedCurve
+      const baked = hasAnyCurve
+        ? createCombinedCurveTexture(
+            fadeSizeCurve,
+            fadeOpacityCurve,
+            velocityCurve,
+            rotationSpeedCurve
+          )
+        : createDefaultCurveTexture()
+      ;(this.curveTexture.image.data as Float32Array).set(baked.image.data as Float32Array)
+      this.curveTexture.needsUpdate = true
+      baked.dispose()
+    }
+
+    if (curveTexturePath) {
+      loadCurveTextureFromPath(curveTexturePath, this.curveTexture).catch((err: unknown) => {
+        console.warn(
+          `Failed to load curve texture: ${curveTexturePath}, falling back to baking`,
+          err
+        )
+        bake()
+      })
+    } else {
+      bake()
+    }
+  }
+
+  // Field data becomes a texture right away, a URL once loaded
+  private setVectorField(field: VectorFieldData | string | null) {
+    if (field === this.vectorFieldSource) return
+    this.vectorFieldSource = field
+    // The update compute is recreated without it on the next update
+    this.vectorField?.texture.dispose()
+    this.vectorField = null
+    if (!field) return
+
+    if (typeof field !== 'string') {
+      this.vectorField = { texture: createVectorFieldTexture(field), field }
+      return
+    }
+    loadVectorField(field)
+      .then((data: VectorFieldData) => {
+        if (this.disposed || this.vectorFieldSource !== field) return
+        this.vectorField = { texture: createVectorFieldTexture(data), field: data }
+        this.writeVectorFieldBounds()
+      })
+      .catch((err: unknown) => {
+        console.warn(`Failed to load vector field: ${field}`, err)
+      })
+  }
+
+  // Vector field bounds default to the field's own bounds
+  private writeVectorFieldBounds() {
+    const bounds = this.props.vectorField?.bounds ?? this.vectorField?.field.bounds
+    if (!bounds) return
+    const [minX, minY, minZ] = bounds.min
+    const [maxX, maxY, maxZ] = bounds.max
+    this.uniforms.vectorFieldMin.value.set(minX, minY, minZ)
+    this.uniforms.vectorFieldSize.value.set(maxX - minX, maxY - minY, maxZ - minZ)
+  }
+}
@@ -1 +1,56 @@
-console.log('vanilla-vfx');
+export { ParticleSystem } from './ParticleSystem'
+
+export {
+  DEFAULT_PARTICLE_PROPS,
+  type ParticleSystemOptions,
+  type ResolvedParticleProps,
+} from './props'
+
+export { createParticleUniforms, type ParticleSystemUniforms } from './uniforms'
+
+// Re-export constants and the store from core-vfx for convenience
+export {
+  coreStore,
+  Appearance,
+  Blending,
+  EmitterShape,
+  AttractorType,
+  AttractorFalloff,
+  ParticleEventType,
+  Easing,
+  Lighting,
+  BillboardLighting,
+  FlipbookMode,
+  SortMode,
+  createSceneDepth,
+  updateSceneDepth,
+} from 'core-vfx'
+
+// Re-export types from core-vfx for convenience
+export type {
+  CurvePoint,
+  CurveData,
+  Rotation3DInput,
+  ParticleData,
+  TurbulenceConfig,
+  VectorFieldConfig,
+  VectorFieldData,
+  AttractorConfig,
+  CollisionConfig,
+  ColliderConfig,
+  FrictionConfig,
+  FlipbookConfig,
+  SixWayLightmapConfig,
+  StretchConfig,
+  SubEmitterConfig,
+  ParticleEvent,
+  ParticleEventName,
+  ParticleEventsConfig,
+  TrailConfig,
+  EmissionBurst,
+  EmissionConfig,
+  BaseParticleProps,
+  ParticleParams,
+  ParamEasing,
+  SceneDepth,
+} from 'core-vfx'
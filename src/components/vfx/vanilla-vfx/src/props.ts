@@ -0,0 +1,154 @@
+import {
+  Appearance,
+  BillboardLighting,
+  Blending,
+  EmitterShape,
+  Lighting,
+  SortMode,
+  type BaseParticleProps,
+  type MaterialOptions,
+  type ParticleEvent,
+  type Rotation3DInput,
+} from 'core-vfx'
+
+export type ParticleSystemOptions = BaseParticleProps & {
+  /** Optional name for registering with coreStore (enables coreStore.emit, sub-emitters, setParam) */
+  name?: string
+  /** Path to pre-baked curve texture (skips runtime baking) */
+  curveTexturePath?: string | null
+  /** Gameplay callback for particle deaths, collisions and attractor entries */
+  onParticleEvent?: ((event: ParticleEvent) => void) | null
+  /** Emission stopped and every particle expired (estimated from the max lifetime of each spawn) */
+  onComplete?: (() => void) | null
+  /** The last alive particle expired (also between bursts) */
+  onAllDead?: (() => void) | null
+  /** TSL node or function for backdrop sampling */
+  backdropNode?: MaterialOptions['backdropNode']
+  /** TSL node or function for custom opacity */
+  opacityNode?: MaterialOptions['opacityNode']
+  /** TSL node or function to override color */
+  colorNode?: MaterialOptions['colorNode']
+  /** TSL node or function for alpha test/discard */
+  alphaTestNode?: MaterialOptions['alphaTestNode']
+  /** TSL node or function for shadow map output */
+  castShadowNode?: MaterialOptions['castShadowNode']
+}
+
+// Options with every default applied (name stays optional)
+export type ResolvedParticleProps = Omit<Required<ParticleSystemOptions>, 'name'> & {
+  name?: string
+}
+
+// Same defaults as VFXParticles
+export const DEFAULT_PARTICLE_PROPS: Readonly<ResolvedParticleProps> = Object.freeze({
+  maxParticles: 10000,
+  size: [0.1, 0.3],
+  colorStart: ['#ffffff'],
+  colorEnd: null,
+  colorGradient: null,
+  fadeSize: [1, 0],
+  fadeSizeCurve: null,
+  size3D: null,
+  fadeOpacity: [1, 0],
+  fadeOpacityCurve: null,
+  velocityCurve: null,
+  velocityOverLifetime: null,
+  gravity: [0, 0, 0],
+  lifetime: [1, 2],
+  direction: [
+    [-1, 1],
+    [0, 1],
+    [-1, 1],
+  ],
+  startPosition: [
+    [0, 0],
+    [0, 0],
+    [0, 0],
+  ],
+  speed: [0.1, 0.1],
+  friction: { intensity: 0, easing: 'linear' },
+  appearance: Appearance.GRADIENT,
+  alphaMap: null,
+  flipbook: null,
+  motionVectorMap: null,
+  rotation: [0, 0],
+  rotationSpeed: [0, 0],
+  rotationSpeedCurve: null,
+  geometry: null,
+  orientToDirection: false,
+  orientAxis: 'z',
+  stretchBySpeed: null,
+  lighting: Lighting.STANDARD,
+  billboardLighting: BillboardLighting.UNLIT,
+  normalMap: null,
+  sixWayLightmap: null,
+  shadow: false,
+  blending: Blending.NORMAL,
+  intensity: 1,
+  position: [0, 0, 0],
+  autoStart: true,
+  seed: null,
+  delay: 0,
+  emitCount: 1,
+  emission: null,
+  emitterShape: EmitterShape.BOX,
+  emitterRadius: [0, 1],
+  emitterAngle: Math.PI / 4,
+  emitterHeight: [0, 1],
+  emitterSurfaceOnly: false,
+  emitterDirection: [0, 1, 0],
+  emitterMesh: null,
+  emitterMeshNormal: false,
+  turbulence: null,
+  vectorField: null,
+  attractors: null,
+  attractToCenter: false,
+  startPositionAsDirection: false,
+  softParticles: false,
+  softDistance: 0.5,
+  collision: null,
+  trail: null,
+  subEmitters: null,
+  particleEvents: null,
+  lod: null,
+  compaction: false,
+  sortMode: SortMode.NONE,
+  curveTexturePath: null,
+  onParticleEvent: null,
+  onComplete: null,
+  onAllDead: null,
+  backdropNode: null,
+  opacityNode: null,
+  colorNode: null,
+  alphaTestNode: null,
+  castShadowNode: null,
+} satisfies ResolvedParticleProps)
+
+// Options left undefined keep the current value
+export const resolveParticleProps = (
+  options: ParticleSystemOptions,
+  current: Readonly<ResolvedParticleProps> = DEFAULT_PARTICLE_PROPS
+): ResolvedParticleProps => ({
+  ...current,
+  ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+})
+
+// Rotation storage is needed when rotation or rotationSpeed is non-default
+const isNonDefaultRotation = (r: Rotation3DInput) => {
+  if (typeof r === 'number') return r !== 0
+  if (Array.isArray(r) && r.length === 2 && typeof r[0] === 'number') {
+    return r[0] !== 0 || r[1] !== 0
+  }
+  // 3D format [[minX, maxX], [minY, maxY], [minZ, maxZ]]
+  if (Array.isArray(r)) {
+    return r.some((axis) => Array.isArray(axis) && (axis[0] !== 0 || axis[1] !== 0))
+  }
+  return false
+}
+
+export const needsRotation = (props: ResolvedParticleProps) =>
+  isNonDefaultRotation(props.rotation) || isNonDefaultRotation(props.rotationSpeed)
+
+// Per-particle color storage is needed for multiple start colors or a color transition
+export const needsPerParticleColor = (props: ResolvedParticleProps) =>
+  props.colorStart.length > 1 || props.colorEnd !== null
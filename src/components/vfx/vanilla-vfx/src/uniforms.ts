@@ -0,0 +1,419 @@
+import * as THREE from 'three/webgpu'
+import { uniform } from 'three/tsl'
+import {
+  axisToNumber,
+  easingToType,
+  getLinearVelocity,
+  hasCollisionPlane,
+  hexToRgb,
+  lifetimeToFadeRate,
+  toRange,
+  toRotation3D,
+  type Rotation3DInput,
+} from 'core-vfx'
+import type { ResolvedParticleProps } from './props'
+
+// Uniforms read by the core-vfx shader factories (same keys as VFXParticles)
+// Values are written from the props by writeParticleUniforms
+export const createParticleUniforms = () => ({
+  sizeMin: uniform(0),
+  sizeMax: uniform(0),
+  fadeSizeStart: uniform(1),
+  fadeSizeEnd: uniform(0),
+  fadeOpacityStart: uniform(1),
+  fadeOpacityEnd: uniform(0),
+  gravity: uniform(new THREE.Vector3()),
+  frictionIntensityStart: uniform(0),
+  frictionIntensityEnd: uniform(0),
+  frictionEasingType: uniform(0),
+  speedMin: uniform(0),
+  speedMax: uniform(0),
+  lifetimeMin: uniform(1),
+  lifetimeMax: uniform(1),
+  deltaTime: uniform(0.016), // Updated each frame
+  // 3D direction ranges
+  dirMinX: uniform(0),
+  dirMaxX: uniform(0),
+  dirMinY: uniform(0),
+  dirMaxY: uniform(0),
+  dirMinZ: uniform(0),
+  dirMaxZ: uniform(0),
+  // 3D start position offset ranges
+  startPosMinX: uniform(0),
+  startPosMaxX: uniform(0),
+  startPosMinY: uniform(0),
+  startPosMaxY: uniform(0),
+  startPosMinZ: uniform(0),
+  startPosMaxZ: uniform(0),
+  spawnPosition: uniform(new THREE.Vector3()),
+  // Emitter motion: burst spread from spawnFrom to spawnPosition, inherited velocity
+  spawnFrom: uniform(new THREE.Vector3()),
+  spawnVelocity: uniform(new THREE.Vector3()),
+  spawnIndexStart: uniform(0),
+  spawnIndexEnd: uniform(0),
+  spawnSeed: uniform(0),
+  intensity: uniform(1),
+  // 3D rotation ranges
+  rotationMinX: uniform(0),
+  rotationMaxX: uniform(0),
+  rotationMinY: uniform(0),
+  rotationMaxY: uniform(0),
+  rotationMinZ: uniform(0),
+  rotationMaxZ: uniform(0),
+  // 3D rotation speed ranges (radians/second)
+  rotationSpeedMinX: uniform(0),
+  rotationSpeedMaxX: uniform(0),
+  rotationSpeedMinY: uniform(0),
+  rotationSpeedMaxY: uniform(0),
+  rotationSpeedMinZ: uniform(0),
+  rotationSpeedMaxZ: uniform(0),
+  // Color arrays (8 colors max each)
+  colorStartCount: uniform(1),
+  colorEndCount: uniform(1),
+  colorStart0: uniform(new THREE.Color()),
+  colorStart1: uniform(new THREE.Color()),
+  colorStart2: uniform(new THREE.Color()),
+  colorStart3: uniform(new THREE.Color()),
+  colorStart4: uniform(new THREE.Color()),
+  colorStart5: uniform(new THREE.Color()),
+  colorStart6: uniform(new THREE.Color()),
+  colorStart7: uniform(new THREE.Color()),
+  colorEnd0: uniform(new THREE.Color()),
+  colorEnd1: uniform(new THREE.Color()),
+  colorEnd2: uniform(new THREE.Color()),
+  colorEnd3: uniform(new THREE.Color()),
+  colorEnd4: uniform(new THREE.Color()),
+  colorEnd5: uniform(new THREE.Color()),
+  colorEnd6: uniform(new THREE.Color()),
+  colorEnd7: uniform(new THREE.Color()),
+  // Emitter shape
+  emitterShapeType: uniform(0),
+  emitterRadiusInner: uniform(0),
+  emitterRadiusOuter: uniform(1),
+  emitterAngle: uniform(0),
+  emitterHeightMin: uniform(0),
+  emitterHeightMax: uniform(1),
+  emitterSurfaceOnly: uniform(0),
+  emitterDir: uniform(new THREE.Vector3(0, 1, 0)),
+  emitterMeshNormal: uniform(0),
+  // Emitter mesh transform into the system's space (written each frame)
+  emitterMeshMatrix: uniform(new THREE.Matrix4()),
+  emitterMeshNormalMatrix: uniform(new THREE.Matrix3()),
+  emitterMeshWorld: uniform(0),
+  // Turbulence
+  turbulenceIntensity: uniform(0),
+  turbulenceFrequency: uniform(1),
+  turbulenceSpeed: uniform(1),
+  turbulenceTime: uniform(0), // Updated each frame
+  // Attractors
+  attractorCount: uniform(0), // Written with the attractor buffer
+  attractToCenter: uniform(0),
+  startPositionAsDirection: uniform(0),
+  // Soft particles
+  softParticlesEnabled: uniform(0),
+  softDistance: uniform(0.5),
+  // LOD size multiplier (set every frame from the camera distance)
+  lodSizeScale: uniform(1),
+  // Camera position in local space (set every frame when sorting back to front)
+  sortCameraPosition: uniform(new THREE.Vector3()),
+  // Velocity curve (replaces friction when enabled)
+  velocityCurveEnabled: uniform(0),
+  // Velocity over lifetime (world-space linear, angular speed per axis, radial speed)
+  velocityLinear: uniform(new THREE.Vector3()),
+  velocityOrbital: uniform(new THREE.Vector3()),
+  velocityRadial: uniform(0),
+  velocityCenter: uniform(new THREE.Vector3()),
+  // Curves over lifetime (when disabled, the fadeSize / fadeOpacity ranges are used)
+  rotationSpeedCurveEnabled: uniform(0),
+  fadeSizeCurveEnabled: uniform(0),
+  size3DStart: uniform(new THREE.Vector3(1, 1, 1)),
+  fadeOpacityCurveEnabled: uniform(0),
+  // Orient axis: 0=+X, 1=+Y, 2=+Z, 3=-X, 4=-Y, 5=-Z
+  orientAxisType: uniform(2),
+  // Stretch by speed
+  stretchEnabled: uniform(0),
+  stretchFactor: uniform(1),
+  stretchMax: uniform(5),
+  // Collision
+  collisionEnabled: uniform(0),
+  collisionPlaneEnabled: uniform(0),
+  colliderCount: uniform(0), // Written with the collider buffer
+  // Depth-buffer collision (matrices of the camera that rendered the depth)
+  depthCollisionEnabled: uniform(0),
+  depthCollisionThickness: uniform(0.5),
+  sceneDepthSize: uniform(new THREE.Vector2(1, 1)),
+  sceneDepthView: uniform(new THREE.Matrix4()),
+  sceneDepthProjection: uniform(new THREE.Matrix4()),
+  sceneDepthProjectionInverse: uniform(new THREE.Matrix4()),
+  sceneDepthCameraWorld: uniform(new THREE.Matrix4()),
+  // Vector field (bounds written once the field is loaded)
+  vectorFieldEnabled: uniform(0),
+  vectorFieldMin: uniform(new THREE.Vector3(-0.5, -0.5, -0.5)),
+  vectorFieldSize: uniform(new THREE.Vector3(1, 1, 1)),
+  vectorFieldIntensity: uniform(1),
+  vectorFieldTightness: uniform(0),
+  collisionPlaneY: uniform(0),
+  collisionBounce: uniform(0.3),
+  collisionFriction: uniform(0.8),
+  collisionDie: uniform(0),
+  sizeBasedGravity: uniform(0),
+  // Particle events appended for CPU readback (sub-emitters, onParticleEvent)
+  birthEventsEnabled: uniform(0),
+  deathEventsEnabled: uniform(0),
+  collisionEventsEnabled: uniform(0),
+  attractorEventsEnabled: uniform(0),
+  // Trail
+  trailHead: uniform(0), // Newest ring buffer slot, advanced each trail interval
+  trailWidth: uniform(0.1),
+  trailColorEnd: uniform(new THREE.Color('#ffffff')),
+  trailColorEndEnabled: uniform(0),
+})
+
+export type ParticleSystemUniforms = ReturnType<typeof createParticleUniforms>
+
+type ColorUniforms = Record<string, { value: THREE.Color } | undefined>
+
+// Which particle events the compute shaders append
+export type EventTriggers = {
+  birth: boolean
+  death: boolean
+  collision: boolean
+  attractorEnter: boolean
+}
+
+// Up to 8 colors, the last one repeated
+const toColorList = (colors: string[]) => {
+  const rgb: [number, number, number][] = colors.slice(0, 8).map(hexToRgb)
+  while (rgb.length < 8) rgb.push(rgb[rgb.length - 1] || [1, 1, 1])
+  return rgb
+}
+
+const writeColors = (uniforms: ParticleSystemUniforms, prefix: string, colors: string[]) => {
+  toColorList(colors).forEach((c, i) => {
+    ;(uniforms as unknown as ColorUniforms)[`${prefix}${i}`]?.value.setRGB(...c)
+  })
+}
+
+// Write a 3D range (direction, startPosition, rotation, rotationSpeed) to its six uniforms
+const writeRange3D = (
+  set: (key: string, value: number) => void,
+  prefix: string,
+  value: Rotation3DInput
+) => {
+  const range = toRotation3D(value)
+  ;['X', 'Y', 'Z'].forEach((axis, i) => {
+    set(`${prefix}Min${axis}`, range[i][0])
+    set(`${prefix}Max${axis}`, range[i][1])
+  })
+}
+
+const setter = (uniforms: ParticleSystemUniforms) => (key: string, value: number) => {
+  ;(uniforms as unknown as Record<string, { value: number }>)[key].value = value
+}
+
+/**
+ * Writes the props to the uniforms (everything that does not need new GPU resources).
+ * The vector field bounds, attractor and collider counts are written with their buffers.
+ */
+export const writeParticleUniforms = (
+  uniforms: ParticleSystemUniforms,
+  props: ResolvedParticleProps,
+  eventTriggers: EventTriggers
+) => {
+  const set = setter(uniforms)
+  const { collision, trail, turbulence, velocityOverLifetime, curveTexturePath } = props
+
+  // Size and fade
+  const [sizeMin, sizeMax] = toRange(props.size, [0.1, 0.3])
+  uniforms.sizeMin.value = sizeMin
+  uniforms.sizeMax.value = sizeMax
+  const [fadeSizeStart, fadeSizeEnd] = toRange(props.fadeSize, [1, 0])
+  uniforms.fadeSizeStart.value = fadeSizeStart
+  uniforms.fadeSizeEnd.value = fadeSizeEnd
+  const [fadeOpacityStart, fadeOpacityEnd] = toRange(props.fadeOpacity, [1, 0])
+  uniforms.fadeOpacityStart.value = fadeOpacityStart
+  uniforms.fadeOpacityEnd.value = fadeOpacityEnd
+
+  // Physics
+  const [gravityX, gravityY, gravityZ] = props.gravity
+  uniforms.gravity.value.set(gravityX, gravityY, gravityZ)
+  const [frictionStart, frictionEnd] = toRange(props.friction?.intensity ?? 0, [0, 0])
+  uniforms.frictionIntensityStart.value = frictionStart
+  uniforms.frictionIntensityEnd.value = frictionEnd
+  uniforms.frictionEasingType.value = easingToType(props.friction?.easing ?? 'linear')
+  const [speedMin, speedMax] = toRange(props.speed, [0.1, 0.1])
+  uniforms.speedMin.value = speedMin
+  uniforms.speedMax.value = speedMax
+
+  // Lifetime (stored as fade rates, the longest lifetime is the slowest rate)
+  const [lifetimeMin, lifetimeMax] = toRange(props.lifetime, [1, 2])
+  uniforms.lifetimeMin.value = lifetimeToFadeRate(lifetimeMax)
+  uniforms.lifetimeMax.value = lifetimeToFadeRate(lifetimeMin)
+
+  // 3D ranges
+  writeRange3D(set, 'dir', props.direction)
+  writeRange3D(set, 'startPos', props.startPosition)
+  writeRange3D(set, 'rotation', props.rotation)
+  writeRange3D(set, 'rotationSpeed', props.rotationSpeed)
+
+  // Colors (colorEnd defaults to colorStart: no color transition)
+  const colorEnd = props.colorEnd ?? props.colorStart
+  uniforms.intensity.value = props.intensity
+  uniforms.colorStartCount.value = props.colorStart.length
+  uniforms.colorEndCount.value = colorEnd.length
+  writeColors(uniforms, 'colorStart', props.colorStart)
+  writeColors(uniforms, 'colorEnd', colorEnd)
+
+  // Emitter shape
+  const [radiusInner, radiusOuter] = toRange(props.emitterRadius, [0, 1])
+  const [heightMin, heightMax] = toRange(props.emitterHeight, [0, 1])
+  uniforms.emitterShapeType.value = props.emitterShape
+  uniforms.emitterRadiusInner.value = radiusInner
+  uniforms.emitterRadiusOuter.value = radiusOuter
+  uniforms.emitterAngle.value = props.emitterAngle
+  uniforms.emitterHeightMin.value = heightMin
+  uniforms.emitterHeightMax.value = heightMax
+  uniforms.emitterSurfaceOnly.value = props.emitterSurfaceOnly ? 1 : 0
+  const [dirX, dirY, dirZ] = props.emitterDirection
+  uniforms.emitterDir.value.set(dirX, dirY, dirZ).normalize()
+  uniforms.emitterMeshNormal.value = props.emitterMeshNormal ? 1 : 0
+
+  // Turbulence
+  uniforms.turbulenceIntensity.value = turbulence?.intensity ?? 0
+  uniforms.turbulenceFrequency.value = turbulence?.frequency ?? 1
+  uniforms.turbulenceSpeed.value = turbulence?.speed ?? 1
+
+  uniforms.attractToCenter.value = props.attractToCenter ? 1 : 0
+  uniforms.startPositionAsDirection.value = props.startPositionAsDirection ? 1 : 0
+
+  // Soft particles
+  uniforms.softParticlesEnabled.value = props.softParticles ? 1 : 0
+  uniforms.softDistance.value = props.softDistance
+
+  // Curves (a pre-baked texture enables all of them)
+  uniforms.velocityCurveEnabled.value = props.velocityCurve || curveTexturePath ? 1 : 0
+  uniforms.rotationSpeedCurveEnabled.value = props.rotationSpeedCurve || curveTexturePath ? 1 : 0
+  uniforms.fadeSizeCurveEnabled.value = props.fadeSizeCurve || curveTexturePath ? 1 : 0
+  uniforms.fadeOpacityCurveEnabled.value = props.fadeOpacityCurve || curveTexturePath ? 1 : 0
+  uniforms.size3DStart.value.fromArray(props.size3D?.start ?? [1, 1, 1])
+
+  // Velocity over lifetime
+  uniforms.velocityLinear.value.fromArray(
+    velocityOverLifetime
+      ? getLinearVelocity(velocityOverLifetime, props.emitterDirection)
+      : [0, 0, 0]
+  )
+  uniforms.velocityOrbital.value.fromArray(velocityOverLifetime?.orbital ?? [0, 0, 0])
+  uniforms.velocityRadial.value = velocityOverLifetime?.radial ?? 0
+  uniforms.velocityCenter.value.fromArray(velocityOverLifetime?.center ?? [0, 0, 0])
+
+  // Orientation and stretch
+  uniforms.orientAxisType.value = axisToNumber(props.orientAxis)
+  uniforms.stretchEnabled.value = props.stretchBySpeed ? 1 : 0
+  uniforms.stretchFactor.value = props.stretchBySpeed?.factor ?? 1
+  uniforms.stretchMax.value = props.stretchBySpeed?.maxStretch ?? 5
+
+  // Collision
+  uniforms.collisionEnabled.value = collision ? 1 : 0
+  uniforms.collisionPlaneEnabled.value = hasCollisionPlane(collision) ? 1 : 0
+  uniforms.depthCollisionEnabled.value = collision?.depth ? 1 : 0
+  uniforms.depthCollisionThickness.value = collision?.depthThickness ?? 0.5
+  uniforms.collisionPlaneY.value = collision?.plane?.y ?? 0
+  uniforms.collisionBounce.value = collision?.bounce ?? 0.3
+  uniforms.collisionFriction.value = collision?.friction ?? 0.8
+  uniforms.collisionDie.value = collision?.die ? 1 : 0
+  uniforms.sizeBasedGravity.value = collision?.sizeBasedGravity ?? 0
+
+  // Vector field
+  uniforms.vectorFieldEnabled.value = props.vectorField ? 1 : 0
+  uniforms.vectorFieldIntensity.value = props.vectorField?.intensity ?? 1
+  uniforms.vectorFieldTightness.value = props.vectorField?.tightness ?? 0
+
+  // Particle events
+  uniforms.birthEventsEnabled.value = eventTriggers.birth ? 1 : 0
+  uniforms.deathEventsEnabled.value = eventTriggers.death ? 1 : 0
+  uniforms.collisionEventsEnabled.value = eventTriggers.collision ? 1 : 0
+  uniforms.attractorEventsEnabled.value = eventTriggers.attractorEnter ? 1 : 0
+
+  // Trail
+  uniforms.trailWidth.value = trail?.width ?? 0.1
+  uniforms.trailColorEnd.value.set(trail?.colorEnd ?? '#ffffff')
+  uniforms.trailColorEndEnabled.value = trail?.colorEnd ? 1 : 0
+}
+
+/**
+ * Applies the per-spawn overrides of spawn() to the uniforms.
+ * Returns the function restoring the previous values, null without overrides.
+ */
+export const applySpawnOverrides = (
+  uniforms: ParticleSystemUniforms,
+  overrides: Record<string, unknown> | null
+): (() => void) | null => {
+  if (!overrides) return null
+
+  const all = uniforms as unknown as Record<string, { value: unknown }>
+  const saved: Record<string, unknown> = {}
+
+  // Save and set a number uniform
+  const set = (key: string, value: number) => {
+    if (!all[key]) return
+    if (!(key in saved)) saved[key] = all[key].value
+    all[key].value = value
+  }
+  // Save a vector / color uniform (restored from a copy)
+  const save = (key: string) => {
+    const value = all[key].value as { clone: () => unknown }
+    if (!(key in saved)) saved[key] = value.clone()
+  }
+
+  if (overrides.size !== undefined) {
+    const [min, max] = toRange(overrides.size as number | [number, number], [0.1, 0.3])
+    set('sizeMin', min)
+    set('sizeMax', max)
+  }
+  if (overrides.speed !== undefined) {
+    const [min, max] = toRange(overrides.speed as number | [number, number], [0.1, 0.1])
+    set('speedMin', min)
+    set('speedMax', max)
+  }
+  if (overrides.lifetime !== undefined) {
+    const [min, max] = toRange(overrides.lifetime as number | [number, number], [1, 2])
+    set('lifetimeMin', 1 / max)
+    set('lifetimeMax', 1 / min)
+  }
+  if (overrides.direction !== undefined) {
+    writeRange3D(set, 'dir', overrides.direction as Rotation3DInput)
+  }
+  if (overrides.startPosition !== undefined) {
+    writeRange3D(set, 'startPos', overrides.startPosition as Rotation3DInput)
+  }
+  if (overrides.rotation !== undefined) {
+    writeRange3D(set, 'rotation', overrides.rotation as Rotation3DInput)
+  }
+  if (overrides.gravity !== undefined) {
+    save('gravity')
+    uniforms.gravity.value.set(...(overrides.gravity as [number, number, number]))
+  }
+
+  // Emitter velocity inherited by the particles, scaled by inheritVelocity (default 1)
+  if (overrides.emitterVelocity !== undefined) {
+    save('spawnVelocity')
+    uniforms.spawnVelocity.value
+      .set(...(overrides.emitterVelocity as [number, number, number]))
+      .multiplyScalar((overrides.inheritVelocity as number | undefined) ?? 1)
+  }
+
+  for (const prefix of ['colorStart', 'colorEnd']) {
+    const colors = overrides[prefix] as string[] | undefined
+    if (colors === undefined) continue
+    set(`${prefix}Count`, colors.length)
+    for (let i = 0; i < 8; i++) save(`${prefix}${i}`)
+    writeColors(uniforms, prefix, colors)
+  }
+
+  return () => {
+    Object.entries(saved).forEach(([key, value]) => {
+      all[key].value = value
+    })
+  }
+}